@@ -8,6 +8,7 @@ export class OIDCClientCredentialsProvider implements AuthProvider {
     clientId,
     clientSecret,
     oidcOrigin,
+    retryPolicy,
   }: Partial<ClientSecretCredentials> & Omit<ClientSecretCredentials, 'exchange'>) {
     if (!clientId || !clientSecret) {
       throw new Error(
@@ -20,6 +21,7 @@ export class OIDCClientCredentialsProvider implements AuthProvider {
       clientId,
       clientSecret,
       oidcOrigin,
+      retryPolicy,
     });
   }
 
@@ -9,6 +9,7 @@ export class OIDCExternalJwtProvider implements AuthProvider {
     clientId,
     externalJwt,
     oidcOrigin,
+    retryPolicy,
   }: Partial<ExternalJwtCredentials> & Omit<ExternalJwtCredentials, 'exchange'>) {
     if (!clientId || !externalJwt) {
       throw new Error(
@@ -21,6 +22,7 @@ export class OIDCExternalJwtProvider implements AuthProvider {
       clientId,
       oidcOrigin,
       externalJwt,
+      retryPolicy,
     });
 
     this.externalJwt = externalJwt;
@@ -9,6 +9,7 @@ export class OIDCRefreshTokenProvider implements AuthProvider {
     clientId,
     refreshToken,
     oidcOrigin,
+    retryPolicy,
   }: Partial<RefreshTokenCredentials> & Omit<RefreshTokenCredentials, 'exchange'>) {
     if (!clientId || !refreshToken) {
       throw new Error(
@@ -21,6 +22,7 @@ export class OIDCRefreshTokenProvider implements AuthProvider {
       clientId,
       refreshToken: refreshToken,
       oidcOrigin,
+      retryPolicy,
     });
     this.refreshToken = refreshToken;
   }
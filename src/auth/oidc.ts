@@ -1,6 +1,7 @@
 import { default as dpopFn } from 'dpop';
 import { HttpRequest, withHeaders } from './auth.js';
 import { IllegalArgumentError } from '../../tdf3/src/errors.js';
+import { type RetryPolicy, withRetry } from '../retry.js';
 import { rstrip } from '../utils.js';
 
 /**
@@ -17,6 +18,9 @@ export type CommonCredentials = {
 
   /** the client's public key, base64 encoded. Will be bound to the OIDC token. Deprecated. If not set in the constructor, */
   signingKey?: CryptoKeyPair;
+
+  /** How to retry token and userinfo requests after transient failures */
+  retryPolicy?: RetryPolicy;
 };
 
 /**
@@ -98,6 +102,8 @@ export class AccessToken {
 
   currentAccessToken?: string;
 
+  retryPolicy?: RetryPolicy;
+
   constructor(cfg: OIDCCredentials, request?: typeof fetch) {
     if (!cfg.clientId) {
       throw new Error('A Keycloak client identifier is currently required for all auth mechanisms');
@@ -119,6 +125,7 @@ export class AccessToken {
     this.baseUrl = rstrip(cfg.oidcOrigin, '/');
     this.signingKey = cfg.signingKey;
     this.clientPubKey = cfg.clientPubKey;
+    this.retryPolicy = cfg.retryPolicy;
   }
 
   /**
@@ -128,16 +135,24 @@ export class AccessToken {
    */
   async info(accessToken: string): Promise<unknown> {
     const url = `${this.baseUrl}/protocol/openid-connect/userinfo`;
-    const headers = {
-      ...this.extraHeaders,
-      Authorization: `Bearer ${accessToken}`,
-    } as Record<string, string>;
-    if (this.signingKey) {
-      headers.DPoP = await dpopFn(this.signingKey, url, 'POST');
-    }
-    const response = await (this.request || fetch)(url, {
-      headers,
-    });
+    const send = async () => {
+      const headers = {
+        ...this.extraHeaders,
+        Authorization: `Bearer ${accessToken}`,
+      } as Record<string, string>;
+      if (this.signingKey) {
+        headers.DPoP = await dpopFn(this.signingKey, url, 'POST');
+      }
+      return (this.request || fetch)(url, {
+        headers,
+      });
+    };
+    const response = await withRetry(
+      send,
+      { url, method: 'GET' },
+      this.retryPolicy,
+      ({ status }) => status
+    );
     if (!response.ok) {
       console.error(await response.text());
       throw new Error(`${response.status} ${response.statusText}`);
@@ -156,17 +171,23 @@ export class AccessToken {
     } else {
       throw new IllegalArgumentError('No signature configured');
     }
-    if (this.signingKey) {
-      headers.DPoP = await dpopFn(this.signingKey, url, 'POST');
-    }
     if (!this.clientPubKey && !this.signingKey) {
       throw new IllegalArgumentError('No signature configured');
     }
-    return (this.request || fetch)(url, {
-      method: 'POST',
-      headers,
-      body: qstringify(o),
-    });
+    // Token requests may rotate the refresh token, so are only repeated if the server ignored them
+    return withRetry(
+      async () =>
+        (this.request || fetch)(url, {
+          method: 'POST',
+          headers: this.signingKey
+            ? { ...headers, DPoP: await dpopFn(this.signingKey, url, 'POST') }
+            : headers,
+          body: qstringify(o),
+        }),
+      { url, method: 'POST' },
+      this.retryPolicy,
+      ({ status }) => status
+    );
   }
 
   async accessTokenLookup(cfg: OIDCCredentials) {
@@ -35,6 +35,7 @@ export const clientSecretAuthProvider = async (
     clientId: clientConfig.clientId,
     clientSecret: clientConfig.clientSecret,
     oidcOrigin: clientConfig.oidcOrigin,
+    retryPolicy: clientConfig.retryPolicy,
   });
 };
 
@@ -61,6 +62,7 @@ export const externalAuthProvider = async (
     clientId: clientConfig.clientId,
     externalJwt: clientConfig.externalJwt,
     oidcOrigin: clientConfig.oidcOrigin,
+    retryPolicy: clientConfig.retryPolicy,
   });
 };
 
@@ -85,6 +87,7 @@ export const refreshAuthProvider = async (
     clientId: clientConfig.clientId,
     refreshToken: clientConfig.refreshToken,
     oidcOrigin: clientConfig.oidcOrigin,
+    retryPolicy: clientConfig.retryPolicy,
   });
 };
 
@@ -8,18 +8,36 @@ import {
   getHkdfSalt,
   DefaultParams,
 } from './nanotdf/index.js';
-import { keyAgreement, extractPublicFromCertToCrypto } from './nanotdf-crypto/index.js';
+import { keyAgreement, kasPublicKeyToCrypto } from './nanotdf-crypto/index.js';
 import { TypedArray, createAttribute, Policy } from './tdf/index.js';
 import { AuthProvider } from './auth/auth.js';
-
-async function fetchKasPubKey(kasUrl: string): Promise<string> {
-  const kasPubKeyResponse = await fetch(`${kasUrl}/kas_public_key?algorithm=ec:secp256r1`);
-  if (!kasPubKeyResponse.ok) {
-    throw new Error(
-      `Unable to validate KAS [${kasUrl}]. Received [${kasPubKeyResponse.status}:${kasPubKeyResponse.statusText}]`
+import { type RetryPolicy, withRetry } from './retry.js';
+import { kasKeyCache, parseKasPublicKey } from './kas-key-cache.js';
+
+// Get the EC public key of a KAS from the shared key cache, fetching it when missing or expired
+async function fetchKasPubKey(
+  kasUrl: string,
+  signal?: AbortSignal,
+  retryPolicy?: RetryPolicy,
+  fetch: typeof globalThis.fetch = globalThis.fetch
+): Promise<string> {
+  const algorithm = 'ec:secp256r1';
+  const { publicKey } = await kasKeyCache.get(kasUrl, algorithm, async () => {
+    const url = `${kasUrl}/kas_public_key?algorithm=${algorithm}`;
+    const kasPubKeyResponse = await withRetry(
+      () => fetch(url, { signal }),
+      { url, method: 'GET', signal },
+      retryPolicy,
+      ({ status }) => status
     );
-  }
-  return kasPubKeyResponse.json();
+    if (!kasPubKeyResponse.ok) {
+      throw new Error(
+        `Unable to validate KAS [${kasUrl}]. Received [${kasPubKeyResponse.status}:${kasPubKeyResponse.statusText}]`
+      );
+    }
+    return { url: kasUrl, algorithm, ...parseKasPublicKey(await kasPubKeyResponse.json()) };
+  });
+  return publicKey;
 }
 
 /**
@@ -56,11 +74,16 @@ export class NanoTDFClient extends Client {
    * Pass a base64 string, TypedArray, or ArrayBuffer ciphertext and get a promise which resolves plaintext
    *
    * @param ciphertext Ciphertext to decrypt
+   * @param signal Cancels the key rewrap when aborted
    */
-  async decrypt(ciphertext: string | TypedArray | ArrayBuffer): Promise<ArrayBuffer> {
+  async decrypt(
+    ciphertext: string | TypedArray | ArrayBuffer,
+    signal?: AbortSignal
+  ): Promise<ArrayBuffer> {
     // Parse ciphertext
     const nanotdf = NanoTDF.from(ciphertext);
 
+    signal?.throwIfAborted();
     await this.fetchOIDCToken();
 
     // TODO: The version number should be fetched from the API
@@ -71,7 +94,8 @@ export class NanoTDFClient extends Client {
       nanotdf.header.getKasRewrapUrl(),
       nanotdf.header.magicNumberVersion,
       version,
-      nanotdf.header.authTagLength
+      nanotdf.header.authTagLength,
+      signal
     );
 
     if (!ukey) {
@@ -87,11 +111,16 @@ export class NanoTDFClient extends Client {
    * Pass a base64 string, TypedArray, or ArrayBuffer ciphertext and get a promise which resolves plaintext
    *
    * @param ciphertext Ciphertext to decrypt
+   * @param signal Cancels the key rewrap when aborted
    */
-  async decryptLegacyTDF(ciphertext: string | TypedArray | ArrayBuffer): Promise<ArrayBuffer> {
+  async decryptLegacyTDF(
+    ciphertext: string | TypedArray | ArrayBuffer,
+    signal?: AbortSignal
+  ): Promise<ArrayBuffer> {
     // Parse ciphertext
     const nanotdf = NanoTDF.from(ciphertext, undefined, true);
 
+    signal?.throwIfAborted();
     await this.fetchOIDCToken();
 
     const legacyVersion = '0.0.0';
@@ -101,7 +130,8 @@ export class NanoTDFClient extends Client {
       nanotdf.header.getKasRewrapUrl(),
       nanotdf.header.magicNumberVersion,
       legacyVersion,
-      nanotdf.header.authTagLength
+      nanotdf.header.authTagLength,
+      signal
     );
 
     if (!key) {
@@ -117,8 +147,13 @@ export class NanoTDFClient extends Client {
    * Pass a string, TypedArray, or ArrayBuffer data and get a promise which resolves ciphertext
    *
    * @param data to decrypt
+   * @param signal Cancels fetching the KAS public key when aborted
    */
-  async encrypt(data: string | TypedArray | ArrayBuffer): Promise<ArrayBuffer> {
+  async encrypt(
+    data: string | TypedArray | ArrayBuffer,
+    signal?: AbortSignal
+  ): Promise<ArrayBuffer> {
+    signal?.throwIfAborted();
     // For encrypt always generate the client ephemeralKeyPair
     const ephemeralKeyPair = await this.generateEphemeralKeyPair();
 
@@ -128,9 +163,8 @@ export class NanoTDFClient extends Client {
     }
     delete this.iv;
 
-    if (!this.kasPubKey) {
-      this.kasPubKey = await fetchKasPubKey(this.kasUrl);
-    }
+    // Read through the key cache each time, so that a rotated key is picked up once it expires
+    this.kasPubKey = await fetchKasPubKey(this.kasUrl, signal, this.retryPolicy, this.fetch);
 
     // Create a policy for the tdf
     const policy = new Policy();
@@ -222,18 +256,22 @@ export class NanoTDFDatasetClient extends Client {
    * @param kasUrl Key access service URL
    * @param ephemeralKeyPair (optional) ephemeral key pair to use
    * @param maxKeyIterations Max iteration to performe without a key rotation
+   * @param retryPolicy (optional) how to retry transient KAS failures
+   * @param fetch (optional) sends KAS requests in place of the global `fetch`
    */
   constructor(
     authProvider: AuthProvider,
     kasUrl: string,
     maxKeyIterations: number = NanoTDFDatasetClient.NTDF_MAX_KEY_ITERATIONS,
-    ephemeralKeyPair?: Required<Readonly<CryptoKeyPair>>
+    ephemeralKeyPair?: Required<Readonly<CryptoKeyPair>>,
+    retryPolicy?: RetryPolicy,
+    fetch?: typeof globalThis.fetch
   ) {
     if (maxKeyIterations > NanoTDFDatasetClient.NTDF_MAX_KEY_ITERATIONS) {
       throw new Error('Key iteration exceeds max iterations(8388606)');
     }
 
-    super(authProvider, kasUrl, ephemeralKeyPair);
+    super(authProvider, kasUrl, ephemeralKeyPair, false, retryPolicy, fetch);
 
     this.maxKeyIteration = maxKeyIterations;
     this.keyIterationCount = 0;
@@ -245,16 +283,20 @@ export class NanoTDFDatasetClient extends Client {
    * Pass a string, TypedArray, or ArrayBuffer data and get a promise which resolves ciphertext
    *
    * @param data to decrypt
+   * @param signal Cancels fetching the KAS public key when aborted
    */
-  async encrypt(data: string | TypedArray | ArrayBuffer): Promise<ArrayBuffer> {
+  async encrypt(
+    data: string | TypedArray | ArrayBuffer,
+    signal?: AbortSignal
+  ): Promise<ArrayBuffer> {
+    signal?.throwIfAborted();
     // Intial encrypt
     if (this.keyIterationCount == 0) {
       // For encrypt always generate the client ephemeralKeyPair
       const ephemeralKeyPair = await this.generateEphemeralKeyPair();
 
-      if (!this.kasPubKey) {
-        this.kasPubKey = await fetchKasPubKey(this.kasUrl);
-      }
+      // Read through the key cache for each new key, so that a rotated key is picked up
+      this.kasPubKey = await fetchKasPubKey(this.kasUrl, signal, this.retryPolicy, this.fetch);
 
       // Create a policy for the tdf
       const policy = new Policy();
@@ -279,7 +321,7 @@ export class NanoTDFDatasetClient extends Client {
       // Generate a symmetric key.
       this.symmetricKey = await keyAgreement(
         ephemeralKeyPair.privateKey,
-        await extractPublicFromCertToCrypto(this.kasPubKey),
+        await kasPublicKeyToCrypto(this.kasPubKey),
         await getHkdfSalt(DefaultParams.magicNumberVersion)
       );
 
@@ -292,11 +334,9 @@ export class NanoTDFDatasetClient extends Client {
         data
       );
 
-      // Cache the header and increment the key iteration
-      if (!this.cachedHeader) {
-        const nanoTDF = NanoTDF.from(nanoTDFBuffer);
-        this.cachedHeader = nanoTDF.header;
-      }
+      // Cache the header of the new key and increment the key iteration
+      const nanoTDF = NanoTDF.from(nanoTDFBuffer);
+      this.cachedHeader = nanoTDF.header;
 
       this.keyIterationCount += 1;
 
@@ -330,14 +370,18 @@ export class NanoTDFDatasetClient extends Client {
    * Pass a base64 string, TypedArray, or ArrayBuffer ciphertext and get a promise which resolves plaintext
    *
    * @param ciphertext Ciphertext to decrypt
+   * @param signal Cancels the key rewrap, if one is needed, when aborted
    */
-  async decrypt(ciphertext: string | TypedArray | ArrayBuffer): Promise<ArrayBuffer> {
+  async decrypt(
+    ciphertext: string | TypedArray | ArrayBuffer,
+    signal?: AbortSignal
+  ): Promise<ArrayBuffer> {
     // Parse ciphertext
     const nanotdf = NanoTDF.from(ciphertext);
 
     if (!this.cachedEphemeralKey) {
       // First decrypt
-      return this.rewrapAndDecrypt(nanotdf);
+      return this.rewrapAndDecrypt(nanotdf, signal);
     }
 
     // Other encrypts
@@ -349,11 +393,12 @@ export class NanoTDFDatasetClient extends Client {
       // Return decrypt promise
       return decrypt(ukey, nanotdf);
     } else {
-      return this.rewrapAndDecrypt(nanotdf);
+      return this.rewrapAndDecrypt(nanotdf, signal);
     }
   }
 
-  async rewrapAndDecrypt(nanotdf: NanoTDF) {
+  async rewrapAndDecrypt(nanotdf: NanoTDF, signal?: AbortSignal) {
+    signal?.throwIfAborted();
     // TODO: The version number should be fetched from the API
     await this.fetchOIDCToken();
 
@@ -364,7 +409,8 @@ export class NanoTDFDatasetClient extends Client {
       nanotdf.header.getKasRewrapUrl(),
       nanotdf.header.magicNumberVersion,
       version,
-      nanotdf.header.authTagLength
+      nanotdf.header.authTagLength,
+      signal
     );
     if (!ukey) {
       throw new Error('Key rewrap failure');
@@ -414,4 +460,12 @@ export class NanoTDFDatasetClient extends Client {
  * remote requests.
  */
 export * as AuthProviders from './auth/providers.js';
+export { type RetryEvent, type RetryPolicy } from './retry.js';
+export {
+  DEFAULT_KAS_KEY_TTL,
+  KasKeyCache,
+  type KasPublicKeyAlgorithm,
+  type KasPublicKeyInfo,
+  kasKeyCache,
+} from './kas-key-cache.js';
 export { version, clientType } from './version.js';
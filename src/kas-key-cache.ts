@@ -0,0 +1,133 @@
+/**
+ * The key algorithms KAS publishes public keys for: RSA for TDF3, and EC for nanoTDF.
+ */
+export type KasPublicKeyAlgorithm = 'rsa:2048' | 'ec:secp256r1';
+
+export type KasPublicKeyInfo = {
+  url: string;
+  algorithm: KasPublicKeyAlgorithm;
+  /** PEM encoded public key or certificate */
+  publicKey: string;
+  /** The identifier KAS gave the key, if any, which changes when KAS rotates its key */
+  kid?: string;
+};
+
+// Five minutes
+export const DEFAULT_KAS_KEY_TTL = 5 * 60 * 1000;
+
+/**
+ * Read a `kas_public_key` response, which is either the PEM itself, or an object with the PEM
+ * as `publicKey` or `public_key` and an optional `kid`.
+ */
+export function parseKasPublicKey(data: unknown): Pick<KasPublicKeyInfo, 'publicKey' | 'kid'> {
+  if (typeof data === 'string') {
+    return { publicKey: data };
+  }
+  const fields = (data || {}) as Record<string, unknown>;
+  const publicKey = fields.publicKey ?? fields['public_key'];
+  if (typeof publicKey !== 'string') {
+    throw new Error('KAS public key response is missing the public key');
+  }
+  return typeof fields.kid === 'string' && fields.kid
+    ? { publicKey, kid: fields.kid }
+    : { publicKey };
+}
+
+// Error codes KAS answers with for a key it does not hold
+const UNKNOWN_KEY_CODES = ['unknown_kid', 'unknown_key', 'key_not_found'];
+
+// The whole message of such an error, such as `Unknown kid [r1]` or `key not found`
+const UNKNOWN_KEY_MESSAGE =
+  /^(unknown (key|kid)( \[[^\]]*\])?|(key|kid)( \[[^\]]*\])? not found)\.?$/i;
+
+/**
+ * Whether a KAS error response says that it does not hold the key a request was wrapped with, as
+ * happens when a client uses a key from before KAS rotated it. The response must have one of the
+ * error codes or messages KAS uses for that, so that other errors that mention the key, such as
+ * a policy binding mismatch, are not taken for a rotation.
+ */
+export function isUnknownKeyResponse(status: number | undefined, body: unknown): boolean {
+  if (status !== 400 && status !== 404) {
+    return false;
+  }
+  let fields = body;
+  if (typeof body === 'string') {
+    try {
+      fields = JSON.parse(body);
+    } catch (e) {
+      fields = undefined;
+    }
+    if (typeof fields !== 'object') {
+      fields = { message: body };
+    }
+  }
+  const { code, message, error } = (fields || {}) as Record<string, unknown>;
+  if (typeof code === 'string' && UNKNOWN_KEY_CODES.includes(code.toLowerCase())) {
+    return true;
+  }
+  return [message, error].some(
+    (text) => typeof text === 'string' && UNKNOWN_KEY_MESSAGE.test(text.trim())
+  );
+}
+
+/**
+ * Public keys of KASes, keyed by KAS url and algorithm, shared by all clients so that each key is
+ * fetched once per `ttl` milliseconds. Concurrent lookups of the same key share one request, and
+ * failed lookups are not cached.
+ */
+export class KasKeyCache {
+  private readonly entries = new Map<string, { expires: number; key: Promise<KasPublicKeyInfo> }>();
+
+  constructor(public ttl = DEFAULT_KAS_KEY_TTL) {}
+
+  /**
+   * Get a key from the cache, or fetch it if it is missing or expired.
+   * @param fetchKey requests the key from KAS
+   */
+  async get(
+    url: string,
+    algorithm: KasPublicKeyAlgorithm,
+    fetchKey: () => Promise<KasPublicKeyInfo>
+  ): Promise<KasPublicKeyInfo> {
+    const id = cacheKey(url, algorithm);
+    const entry = this.entries.get(id);
+    if (entry && entry.expires > Date.now()) {
+      return entry.key;
+    }
+    const key = fetchKey();
+    this.entries.set(id, { expires: Date.now() + this.ttl, key });
+    key.catch(() => {
+      if (this.entries.get(id)?.key === key) {
+        this.entries.delete(id);
+      }
+    });
+    return key;
+  }
+
+  /**
+   * Forget a key, so that the next lookup fetches it again.
+   * @param kid only forget the cached key if it has this id, so that a report about an old key
+   * does not evict its replacement
+   */
+  async invalidate(url: string, algorithm: KasPublicKeyAlgorithm, kid?: string): Promise<void> {
+    const id = cacheKey(url, algorithm);
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+    const cached = await entry.key.catch(() => undefined);
+    if (this.entries.get(id) === entry && (!kid || !cached?.kid || cached.kid === kid)) {
+      this.entries.delete(id);
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+function cacheKey(url: string, algorithm: KasPublicKeyAlgorithm): string {
+  return `${algorithm} ${url.replace(/\/+$/, '')}`;
+}
+
+export const kasKeyCache = new KasKeyCache();
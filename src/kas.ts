@@ -1,4 +1,6 @@
 import { AuthProvider } from './auth/auth.js';
+import { type RetryPolicy, withRetry } from './retry.js';
+import { isUnknownKeyResponse, kasKeyCache } from './kas-key-cache.js';
 
 export class RewrapRequest {
   signedRequestToken = '';
@@ -15,34 +17,53 @@ export class RewrapResponse {
  * @param requestBody a signed request with an encrypted document key
  * @param authProvider Authorization middleware
  * @param clientVersion
+ * @param signal Cancels the request when aborted
+ * @param retryPolicy How to retry transient failures. Rewraps are safe to repeat
+ * @param fetch Sends the request, in place of the global `fetch`
  */
 export async function fetchWrappedKey(
   url: string,
   requestBody: RewrapRequest,
   authProvider: AuthProvider,
-  clientVersion: string
+  clientVersion: string,
+  signal?: AbortSignal,
+  retryPolicy?: RetryPolicy,
+  fetch: typeof globalThis.fetch = globalThis.fetch
 ): Promise<RewrapResponse> {
-  const req = await authProvider.withCreds({
-    url,
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'virtru-ntdf-version': clientVersion,
-    },
-    body: JSON.stringify(requestBody),
-  });
-  const response = await fetch(req.url, {
-    method: req.method,
-    mode: 'cors', // no-cors, *cors, same-origin
-    cache: 'no-cache', // *default, no-cache, reload, force-cache, only-if-cached
-    credentials: 'same-origin', // include, *same-origin, omit
-    headers: req.headers,
-    redirect: 'follow', // manual, *follow, error
-    referrerPolicy: 'no-referrer', // no-referrer, *no-referrer-when-downgrade, origin, origin-when-cross-origin, same-origin, strict-origin, strict-origin-when-cross-origin, unsafe-url
-    body: req.body as BodyInit,
-  });
+  const send = async () => {
+    const req = await authProvider.withCreds({
+      url,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'virtru-ntdf-version': clientVersion,
+      },
+      body: JSON.stringify(requestBody),
+    });
+    return fetch(req.url, {
+      method: req.method,
+      mode: 'cors', // no-cors, *cors, same-origin
+      cache: 'no-cache', // *default, no-cache, reload, force-cache, only-if-cached
+      credentials: 'same-origin', // include, *same-origin, omit
+      headers: req.headers,
+      redirect: 'follow', // manual, *follow, error
+      referrerPolicy: 'no-referrer', // no-referrer, *no-referrer-when-downgrade, origin, origin-when-cross-origin, same-origin, strict-origin, strict-origin-when-cross-origin, unsafe-url
+      body: req.body as BodyInit,
+      signal,
+    });
+  };
+  const response = await withRetry(
+    send,
+    { url, method: 'POST', idempotent: true, signal },
+    retryPolicy,
+    ({ status }) => status
+  );
 
   if (!response.ok) {
+    if (isUnknownKeyResponse(response.status, await response.text())) {
+      // KAS has rotated its key, so the next encrypt should fetch the current one
+      await kasKeyCache.invalidate(url.replace(/\/(v2\/)?rewrap$/, ''), 'ec:secp256r1');
+    }
     throw new Error(`${response.status} ${response.statusText}`);
   }
 
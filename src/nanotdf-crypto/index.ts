@@ -11,5 +11,6 @@ export { default as generateRandomNumber } from './generateRandomNumber.js';
 export {
   default as pemPublicToCrypto,
   extractPublicFromCertToCrypto,
+  kasPublicKeyToCrypto,
 } from './pemPublicToCrypto.js';
 export * as enums from './enums.js';
@@ -228,3 +228,18 @@ export async function extractPublicFromCertToCrypto(
   }
   return keylike as CryptoKey;
 }
+
+/**
+ * Converts the public key a KAS publishes to CryptoKey. KAS usually publishes a certificate, but
+ * may give the bare PEM public key instead.
+ */
+export async function kasPublicKeyToCrypto(
+  pem: string,
+  options: PemPublicToCryptoOptions = {
+    isExtractable: true,
+  }
+): Promise<CryptoKey> {
+  return pem.includes(CERT_BEGIN)
+    ? extractPublicFromCertToCrypto(pem, options)
+    : pemPublicToCrypto(pem, options);
+}
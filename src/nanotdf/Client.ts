@@ -13,6 +13,7 @@ import getHkdfSalt from './helpers/getHkdfSalt.js';
 import DefaultParams from './models/DefaultParams.js';
 import { fetchWrappedKey } from '../kas.js';
 import { AuthProvider, reqSignature } from '../auth/auth.js';
+import { type RetryPolicy } from '../retry.js';
 
 const { KeyUsageType, AlgorithmName, NamedCurve } = cryptoEnums;
 
@@ -60,6 +61,8 @@ export default class Client {
   protected kasPubKey: string;
   readonly authProvider: AuthProvider;
   readonly dpopEnabled: boolean;
+  readonly retryPolicy?: RetryPolicy;
+  readonly fetch?: typeof globalThis.fetch;
   dissems: string[] = [];
   dataAttributes: string[] = [];
   protected ephemeralKeyPair?: Required<Readonly<CryptoKeyPair>>;
@@ -72,17 +75,25 @@ export default class Client {
    * The Ephemeral Key Pair can either be provided or will be generate when fetching the entity object. Once set it
    * cannot be changed. If a new ephemeral key is desired it a new client should be initialized.
    * There is no performance impact for creating a new client IFF the ephemeral key pair is provided.
+   *
+   * The retry policy applies to the KAS public key and rewrap requests; by default, transient
+   * failures are tried up to three times. Those requests are sent with `fetch`, which defaults to
+   * the global `fetch`.
    */
   constructor(
     authProvider: AuthProvider,
     kasUrl: string,
     ephemeralKeyPair?: Required<Readonly<CryptoKeyPair>>,
-    dpopEnabled = false
+    dpopEnabled = false,
+    retryPolicy?: RetryPolicy,
+    fetch?: typeof globalThis.fetch
   ) {
     this.authProvider = authProvider;
     this.kasUrl = kasUrl;
     this.kasPubKey = '';
     this.dpopEnabled = dpopEnabled;
+    this.retryPolicy = retryPolicy;
+    this.fetch = fetch;
 
     if (ephemeralKeyPair) {
       this.ephemeralKeyPair = ephemeralKeyPair;
@@ -178,13 +189,15 @@ export default class Client {
    * @param magicNumberVersion nanotdf container version
    * @param clientVersion version of the client, as SemVer
    * @param authTagLength number of bytes to keep in the authTag
+   * @param signal cancels the rewrap request when aborted
    */
   async rewrapKey(
     nanoTdfHeader: TypedArray | ArrayBuffer,
     kasRewrapUrl: string,
     magicNumberVersion: TypedArray | ArrayBuffer,
     clientVersion: string,
-    authTagLength: number
+    authTagLength: number,
+    signal?: AbortSignal
   ): Promise<CryptoKey> {
     // Ensure the ephemeral key pair has been set or generated (see createOidcServiceProvider)
     await this.fetchOIDCToken();
@@ -222,7 +235,10 @@ export default class Client {
       kasRewrapUrl,
       requestBody,
       this.authProvider,
-      clientVersion
+      clientVersion,
+      signal,
+      this.retryPolicy,
+      this.fetch
     );
 
     // Extract the iv and ciphertext
@@ -12,7 +12,7 @@ import { TypedArray } from '../tdf/index.js';
 import {
   encrypt as cryptoEncrypt,
   keyAgreement,
-  extractPublicFromCertToCrypto,
+  kasPublicKeyToCrypto,
   digest,
   exportCryptoKey,
 } from '../nanotdf-crypto/index.js';
@@ -41,7 +41,7 @@ export default async function encrypt(
   const symmetricKey = await keyAgreement(
     ephemeralKeyPair.privateKey,
     // Get session public key as crypto key
-    await extractPublicFromCertToCrypto(kasPubCrtAsPem),
+    await kasPublicKeyToCrypto(kasPubCrtAsPem),
     // Get the hkdf salt params
     await getHkdfSalt(DefaultParams.magicNumberVersion)
   );
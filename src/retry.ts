@@ -0,0 +1,149 @@
+import axios from 'axios';
+
+/**
+ * How KAS and OIDC requests are retried after transient failures, such as a 502 from a proxy or
+ * a dropped connection. Delays grow exponentially from `initialDelay`, up to `maxDelay`.
+ */
+export type RetryPolicy = {
+  /** Attempts per request, including the first. Defaults to 3; set to 1 to never retry */
+  maxAttempts?: number;
+  /** Milliseconds to wait before the first retry. Defaults to 100 */
+  initialDelay?: number;
+  /** Most milliseconds to wait between attempts. Defaults to 2000 */
+  maxDelay?: number;
+  /** Wait a random time up to the backoff delay, so that clients spread out. Defaults to true */
+  jitter?: boolean;
+  /** Response statuses that are worth trying again. Defaults to 408, 429, 502, 503 and 504 */
+  retryableStatuses?: number[];
+  /**
+   * Also retry requests that may have changed state on the server, such as policy upserts and
+   * token requests, after failures that do not prove the server ignored them. Defaults to false
+   */
+  retryNonIdempotent?: boolean;
+  /** Called before waiting to send a request again */
+  onRetry?: (event: RetryEvent) => void;
+};
+
+/**
+ * A failed attempt that is about to be retried.
+ */
+export type RetryEvent = {
+  url: string;
+  method: string;
+  /** The attempt that failed, starting from 1 */
+  attempt: number;
+  /** Milliseconds until the next attempt */
+  delay: number;
+  /** The response status, unless the request failed without one */
+  status?: number;
+  error?: unknown;
+};
+
+export type RetryRequest = {
+  url: string;
+  method: string;
+  /** Whether sending the request twice is harmless. Defaults to true for GET, HEAD, OPTIONS, PUT and DELETE */
+  idempotent?: boolean;
+  signal?: AbortSignal;
+};
+
+export const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, 'onRetry'>> = {
+  maxAttempts: 3,
+  initialDelay: 100,
+  maxDelay: 2000,
+  jitter: true,
+  retryableStatuses: [408, 429, 502, 503, 504],
+  retryNonIdempotent: false,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// Statuses that mean the server did not process the request, so any request may be sent again
+const UNPROCESSED_STATUSES = [429, 503];
+
+/**
+ * The status of an axios error response, `undefined` for a network failure, or `null` for
+ * errors that are not about the transport, which are never retried.
+ */
+function failureStatus(error: unknown): number | undefined | null {
+  if (axios.isCancel(error)) {
+    return null;
+  }
+  if (axios.isAxiosError(error)) {
+    return error.response ? error.response.status : undefined;
+  }
+  // fetch rejects with a TypeError when it cannot reach the server
+  return error instanceof TypeError ? undefined : null;
+}
+
+function backoff({ initialDelay, maxDelay, jitter }: typeof DEFAULT_RETRY_POLICY, attempt: number) {
+  const delay = Math.min(maxDelay, initialDelay * 2 ** (attempt - 1));
+  return jitter ? Math.floor(Math.random() * delay) : delay;
+}
+
+function sleep(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const abort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+/**
+ * Send a request until it succeeds, fails permanently, or runs out of attempts. Failures are
+ * retried when they are network errors or have a retryable status; for requests that are not
+ * idempotent, only when the server says it did not handle the request.
+ * @param send sends the request. Called again for each attempt, so it should build any
+ * credentials that may only be used once, like DPoP proofs
+ * @param request describes the request, for idempotency and retry events
+ * @param policy overrides of the default policy
+ * @param statusOf the status of a response that `send` resolved with instead of throwing, as
+ * `fetch` does
+ */
+export async function withRetry<T>(
+  send: () => Promise<T>,
+  request: RetryRequest,
+  policy: RetryPolicy = {},
+  statusOf?: (response: T) => number
+): Promise<T> {
+  const settings = { ...DEFAULT_RETRY_POLICY, ...policy };
+  const { url, method, signal } = request;
+  const idempotent = request.idempotent ?? IDEMPOTENT_METHODS.includes(method.toUpperCase());
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    let response: T | undefined;
+    let error: unknown;
+    let status: number | undefined | null;
+    try {
+      response = await send();
+      status = statusOf?.(response);
+    } catch (e) {
+      error = e;
+      status = failureStatus(e);
+    }
+    const retryable =
+      error === undefined
+        ? !!status && settings.retryableStatuses.includes(status)
+        : status !== null && (status === undefined || settings.retryableStatuses.includes(status));
+    const repeatable =
+      idempotent ||
+      settings.retryNonIdempotent ||
+      (!!status && UNPROCESSED_STATUSES.includes(status));
+    if (!retryable || !repeatable || attempt >= settings.maxAttempts) {
+      if (error !== undefined) {
+        throw error;
+      }
+      return response as T;
+    }
+    const delay = backoff(settings, attempt);
+    settings.onRetry?.({ url, method, attempt, delay, status: status ?? undefined, error });
+    await sleep(delay, signal);
+  }
+}
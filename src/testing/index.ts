@@ -0,0 +1,6 @@
+export {
+  anonymousAuthProvider,
+  type EntitlementRequest,
+  TestKas,
+  type TestKasOptions,
+} from './kas.js';
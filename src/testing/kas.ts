@@ -0,0 +1,407 @@
+import { decodeJwt, importSPKI, jwtVerify } from 'jose';
+import { base64, hex } from '../encodings/index.js';
+import { type AuthProvider, type HttpRequest } from '../auth/auth.js';
+import { kasKeyCache } from '../kas-key-cache.js';
+import {
+  cryptoPublicToPem,
+  decrypt,
+  digest,
+  encrypt,
+  generateKeyPair,
+  keyAgreement,
+  pemPublicToCrypto,
+} from '../nanotdf-crypto/index.js';
+import Header from '../nanotdf/models/Header.js';
+import EmbeddedPolicy from '../nanotdf/models/Policy/EmbeddedPolicy.js';
+import PolicyTypeEnum from '../nanotdf/enum/PolicyTypeEnum.js';
+import getHkdfSalt from '../nanotdf/helpers/getHkdfSalt.js';
+import { Binary } from '../../tdf3/src/binary.js';
+import * as cryptoService from '../../tdf3/src/crypto/index.js';
+import { ecUnwrapKey, ecWrapKey } from '../../tdf3/src/models/key-access.js';
+import { type Policy } from '../../tdf3/src/models/policy.js';
+
+/**
+ * A request to unwrap a key, for a {@link TestKas} to grant or deny.
+ */
+export type EntitlementRequest = {
+  /** The policy bound to the key */
+  policy: Policy;
+  /** Whether the key is from a TDF3 key access object or a nanoTDF header */
+  format: 'tdf3' | 'nano';
+  /** Headers of the rewrap request, including any credentials from the auth provider */
+  headers: Headers;
+};
+
+export type TestKasOptions = {
+  /** Where the KAS pretends to be. Requests to other urls fail with a 404 */
+  url?: string;
+  /**
+   * The attributes the entity is entitled to. A key is only released when the entity has every
+   * data attribute of its policy. Defaults to entitling the entity to all attributes
+   */
+  attributes?: string[];
+  /**
+   * The entity that asks for keys. A key with a dissem list is only released when the list has
+   * this entity. Defaults to allowing everyone
+   */
+  entityId?: string;
+  /** Decides whether to release keys, in place of the attribute and dissem checks */
+  decide?: (request: EntitlementRequest) => boolean | Promise<boolean>;
+};
+
+type KasKeys = {
+  kid: string;
+  rsa: { publicKey: string; privateKey: string };
+  ec: { publicKey: string; privateKey: CryptoKey };
+};
+
+// Policies and key shares that were upserted, which remote key access objects leave out
+type StoredPolicy = { policy: Policy; keyShare: ArrayBuffer };
+
+// A rejected request, answered with the status and message
+class KasError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// The IV that nanoTDF encrypts its policy with
+const NANO_POLICY_IV = new Uint8Array(12);
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+async function generateKeys(kid: string): Promise<KasKeys> {
+  const rsa = await cryptoService.cryptoToPemPair(await cryptoService.generateKeyPair());
+  const { publicKey, privateKey } = await generateKeyPair();
+  return {
+    kid,
+    rsa: { publicKey: rsa.publicKey, privateKey: rsa.privateKey },
+    ec: { publicKey: await cryptoPublicToPem(publicKey), privateKey },
+  };
+}
+
+/**
+ * An auth provider that sends requests without credentials, for a {@link TestKas}, which does
+ * not check them.
+ */
+export const anonymousAuthProvider: AuthProvider = {
+  async updateClientPublicKey(): Promise<void> {
+    // nothing to bind
+  },
+  async withCreds(httpReq: HttpRequest): Promise<HttpRequest> {
+    return httpReq;
+  },
+};
+
+/**
+ * A key access server that runs in-process, for development and tests without a network. It
+ * answers `kas_public_key`, `v2/upsert` and `v2/rewrap` for TDF3 and nanoTDF with RSA and EC
+ * keys of its own, checks policy bindings, and decides entitlements from its options.
+ *
+ * Pass its `fetch` to a client to send KAS requests to it:
+ *
+ * @example
+ * ```
+ * import { Client, NanoTDFClient } from '@arkavo-org/client';
+ * import { TestKas, anonymousAuthProvider } from '@arkavo-org/client/testing';
+ *
+ * const kas = await TestKas.create({ attributes: ['https://example.com/attr/a/value/b'] });
+ * const client = new Client.Client({
+ *   kasEndpoint: kas.url,
+ *   authProvider: anonymousAuthProvider,
+ *   fetch: kas.fetch,
+ * });
+ * const nanoClient = new NanoTDFClient(
+ *   anonymousAuthProvider,
+ *   kas.url,
+ *   undefined,
+ *   false,
+ *   undefined,
+ *   kas.fetch
+ * );
+ * ```
+ */
+export class TestKas {
+  readonly url: string;
+  readonly options: TestKasOptions;
+  private keys: KasKeys;
+  private generation = 1;
+  private readonly policies = new Map<string, StoredPolicy>();
+
+  private constructor(options: TestKasOptions, keys: KasKeys) {
+    this.url = (options.url ?? 'http://localhost:65432/kas').replace(/\/+$/, '');
+    this.options = options;
+    this.keys = keys;
+  }
+
+  /**
+   * Start a KAS with new keys. Clients share cached KAS public keys, so the keys cached for its
+   * url are forgotten.
+   */
+  static async create(options: TestKasOptions = {}): Promise<TestKas> {
+    const kas = new TestKas(options, await generateKeys('r1'));
+    await kas.forgetCachedKeys();
+    return kas;
+  }
+
+  /** The key id of the current keys */
+  get kid(): string {
+    return this.keys.kid;
+  }
+
+  /**
+   * Replace the keys with new ones, with a new key id, as a KAS does when it rotates its keys.
+   * Keys wrapped with the old keys can no longer be unwrapped.
+   */
+  async rotate(): Promise<void> {
+    this.generation += 1;
+    this.keys = await generateKeys(`r${this.generation}`);
+  }
+
+  /**
+   * Answer a request as the KAS would. Requests that are not for this KAS fail with a 404.
+   */
+  readonly fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    request.signal.throwIfAborted();
+    const [location, query = ''] = request.url.split('?');
+    if (!location.startsWith(`${this.url}/`)) {
+      return json(404, { message: `Not found: ${request.url}` });
+    }
+    const endpoint = `${request.method} ${location.slice(this.url.length + 1)}`;
+    try {
+      switch (endpoint) {
+        case 'GET kas_public_key':
+          return this.publicKey(new URLSearchParams(query).get('algorithm'));
+        case 'POST v2/upsert':
+          return json(200, await this.upsert(await request.json()));
+        case 'POST v2/rewrap':
+          return json(200, await this.rewrap(await request.json(), request.headers));
+        default:
+          return json(404, { message: `Not found: ${endpoint}` });
+      }
+    } catch (e) {
+      if (e instanceof KasError) {
+        return json(e.status, { message: e.message });
+      }
+      return json(500, { message: `${e}` });
+    }
+  };
+
+  private async forgetCachedKeys() {
+    await kasKeyCache.invalidate(this.url, 'rsa:2048');
+    await kasKeyCache.invalidate(this.url, 'ec:secp256r1');
+  }
+
+  private publicKey(algorithm: string | null): Response {
+    const { kid, rsa, ec } = this.keys;
+    return json(200, {
+      publicKey: algorithm === 'ec:secp256r1' ? ec.publicKey : rsa.publicKey,
+      kid,
+    });
+  }
+
+  // Unwrap a TDF3 key share, and check that it was bound to the policy it came with
+  private async unwrapKeyShare(
+    { type, kid, wrappedKey, ephemeralPublicKey, policyBinding }: Record<string, string>,
+    policy: string
+  ): Promise<ArrayBuffer> {
+    if (kid && kid !== this.keys.kid) {
+      throw new KasError(400, `Unknown kid [${kid}]`);
+    }
+    let keyShare: ArrayBuffer;
+    try {
+      if (type === 'ec-wrapped') {
+        const unwrapped = await ecUnwrapKey(
+          this.keys.ec.privateKey,
+          await pemPublicToCrypto(ephemeralPublicKey),
+          new Uint8Array(base64.decodeArrayBuffer(wrappedKey))
+        );
+        keyShare = unwrapped.slice().buffer;
+      } else {
+        const wrapped = Binary.fromString(base64.decode(wrappedKey));
+        const unwrapped = await cryptoService.decryptWithPrivateKey(
+          wrapped,
+          this.keys.rsa.privateKey
+        );
+        keyShare = unwrapped.asArrayBuffer();
+      }
+    } catch (e) {
+      throw new KasError(400, 'Unable to unwrap the key with an unknown key');
+    }
+    const binding = await cryptoService.hmac(hex.encodeArrayBuffer(keyShare), policy);
+    if (base64.encode(binding) !== policyBinding) {
+      throw new KasError(400, 'Policy binding mismatch');
+    }
+    return keyShare;
+  }
+
+  private async upsert({
+    keyAccess,
+    policy,
+  }: {
+    keyAccess: Record<string, string>;
+    policy: string;
+  }) {
+    const keyShare = await this.unwrapKeyShare(keyAccess, policy);
+    const decoded: Policy = JSON.parse(base64.decode(policy));
+    if (!decoded.uuid) {
+      throw new KasError(400, 'Policy has no uuid');
+    }
+    this.policies.set(decoded.uuid, { policy: decoded, keyShare });
+    return [];
+  }
+
+  private async rewrap({ signedRequestToken }: { signedRequestToken: string }, headers: Headers) {
+    let requestBody;
+    try {
+      requestBody = JSON.parse(decodeJwt(signedRequestToken).requestBody as string);
+    } catch (e) {
+      throw new KasError(400, 'Invalid signed request token');
+    }
+    return requestBody.keyAccess?.header
+      ? this.rewrapNano(requestBody, headers)
+      : this.rewrapTdf3(signedRequestToken, requestBody, headers);
+  }
+
+  private async authorize(request: EntitlementRequest) {
+    const { attributes, entityId, decide } = this.options;
+    const { dataAttributes = [], dissem = [] } = request.policy.body ?? {};
+    const entitled = decide
+      ? await decide(request)
+      : (!attributes || dataAttributes.every(({ attribute }) => attributes.includes(attribute))) &&
+        (!entityId || !dissem.length || dissem.includes(entityId));
+    if (!entitled) {
+      throw new KasError(403, 'Forbidden');
+    }
+  }
+
+  private async rewrapTdf3(
+    signedRequestToken: string,
+    {
+      algorithm,
+      keyAccess,
+      policy,
+      clientPublicKey,
+    }: {
+      algorithm: string;
+      keyAccess: Record<string, string>;
+      policy: string;
+      clientPublicKey: string;
+    },
+    headers: Headers
+  ) {
+    const ec = algorithm === 'ec:secp256r1';
+    // RSA requests are signed with the key the share is rewrapped for. EC keys are only for key
+    // agreement, so, as for nanoTDF, the signature is left unchecked
+    if (!ec) {
+      try {
+        await jwtVerify(signedRequestToken, await importSPKI(clientPublicKey, 'RS256'));
+      } catch (e) {
+        throw new KasError(401, 'Request signature does not match the client public key');
+      }
+    }
+    let stored: StoredPolicy | undefined;
+    if (keyAccess.wrappedKey) {
+      const keyShare = await this.unwrapKeyShare(keyAccess, policy);
+      stored = { policy: JSON.parse(base64.decode(policy)), keyShare };
+    } else {
+      // Remote key access objects leave the key and policy with KAS
+      stored = this.policies.get(JSON.parse(base64.decode(policy)).uuid);
+      if (!stored) {
+        throw new KasError(404, 'Policy not found');
+      }
+    }
+    await this.authorize({ policy: stored.policy, format: 'tdf3', headers });
+    if (ec) {
+      // Wrap the share for the client with a key agreed between it and a new session key
+      const session = await generateKeyPair();
+      const entityWrappedKey = await ecWrapKey(
+        session.privateKey,
+        await pemPublicToCrypto(clientPublicKey),
+        new Uint8Array(stored.keyShare)
+      );
+      return {
+        entityWrappedKey: base64.encodeArrayBuffer(entityWrappedKey.buffer),
+        sessionPublicKey: await cryptoPublicToPem(session.publicKey),
+        metadata: {},
+      };
+    }
+    const entityWrappedKey = await cryptoService.encryptWithPublicKey(
+      Binary.fromArrayBuffer(stored.keyShare),
+      clientPublicKey
+    );
+    return { entityWrappedKey: base64.encode(entityWrappedKey.asString()), metadata: {} };
+  }
+
+  private async rewrapNano(
+    { keyAccess, clientPublicKey }: { keyAccess: { header: string }; clientPublicKey: string },
+    headers: Headers
+  ) {
+    const { header } = Header.parse(new Uint8Array(base64.decodeArrayBuffer(keyAccess.header)));
+    const hkdfSalt = await getHkdfSalt(header.magicNumberVersion);
+    const ephemeralPublicKey = await crypto.subtle.importKey(
+      'raw',
+      header.ephemeralPublicKey,
+      { name: 'ECDH', namedCurve: 'P-256' },
+      true,
+      []
+    );
+    const symmetricKey = await keyAgreement(this.keys.ec.privateKey, ephemeralPublicKey, hkdfSalt);
+
+    const { type, binding, content } = header.policy as EmbeddedPolicy;
+    if (type !== PolicyTypeEnum.EmbeddedEncrypted && type !== PolicyTypeEnum.EmbeddedText) {
+      throw new KasError(400, 'Only embedded policies are supported');
+    }
+    const policyDigest = new Uint8Array(await digest('SHA-256', content));
+    if (!bytesEqual(policyDigest.slice(-binding.length), binding)) {
+      throw new KasError(400, 'Policy binding mismatch');
+    }
+    let policy: Policy;
+    try {
+      const policyBytes =
+        type === PolicyTypeEnum.EmbeddedText
+          ? content
+          : await decrypt(symmetricKey, content, NANO_POLICY_IV, header.authTagLength);
+      policy = JSON.parse(new TextDecoder().decode(policyBytes));
+    } catch (e) {
+      throw new KasError(400, 'Unable to read the policy with an unknown key');
+    }
+    await this.authorize({ policy, format: 'nano', headers });
+
+    // Wrap the key for the client with a key agreed between it and a new session key
+    const session = await generateKeyPair();
+    const sessionKey = await keyAgreement(
+      session.privateKey,
+      await pemPublicToCrypto(clientPublicKey),
+      hkdfSalt
+    );
+    const ivLength = headers.get('virtru-ntdf-version') === '0.0.0' ? 3 : 12;
+    const iv = cryptoService.randomBytes(ivLength);
+    const wrappedKey = await encrypt(
+      sessionKey,
+      new Uint8Array(await crypto.subtle.exportKey('raw', symmetricKey)),
+      iv,
+      header.authTagLength
+    );
+    const entityWrappedKey = new Uint8Array(ivLength + wrappedKey.byteLength);
+    entityWrappedKey.set(iv);
+    entityWrappedKey.set(new Uint8Array(wrappedKey), ivLength);
+    return {
+      entityWrappedKey: base64.encodeArrayBuffer(entityWrappedKey.buffer),
+      sessionPublicKey: await cryptoPublicToPem(session.publicKey),
+    };
+  }
+}
@@ -4,49 +4,100 @@ import { DecoratedReadableStream } from './src/client/DecoratedReadableStream.js
 import {
   type DecryptParams,
   DecryptParamsBuilder,
+  type DecryptRangeParams,
   type DecryptSource,
+  type EncryptManyParams,
   type EncryptParams,
   EncryptParamsBuilder,
+  type UpdatePolicyParams,
 } from './src/client/builders.js';
+import {
+  AesCbcHmacCipher,
+  AesGcmCipher,
+  SymmetricCipher,
+  type SymmetricCipherConstructor,
+} from './src/ciphers/index.js';
 import { type ClientConfig, createSessionKeys, type SessionKeys } from './src/client/index.js';
 import { type DecryptResult, type EncryptResult } from './src/crypto/declarations.js';
+import {
+  type Inspection,
+  type NanoTdfInspection,
+  type PolicySummary,
+  type TdfEntryInspection,
+  type TdfInspection,
+} from './src/inspect.js';
+import { type EntryVerification, type VerificationReport } from './src/verify.js';
 import { type EncryptionInformation, type KeyInfo, SplitKey } from './src/models/index.js';
+import {
+  type ArchiveEntry,
+  type DecryptScheduling,
+  type KeyAccessMetadataError,
+} from './src/tdf.js';
+import { type CompressionCodec } from './src/utils/compression.js';
 import { AppIdAuthProvider, AuthProvider, HttpRequest } from '../src/auth/auth.js';
 import {
   AuthProviders,
   clientType,
   NanoTDFClient,
   NanoTDFDatasetClient,
+  kasKeyCache,
+  KasKeyCache,
+  type KasPublicKeyInfo,
+  type RetryEvent,
+  type RetryPolicy,
   version,
 } from '../src/index.js';
 
 window.TDF = TDF;
 
 export {
+  AesCbcHmacCipher,
+  AesGcmCipher,
   AppIdAuthProvider,
+  ArchiveEntry,
   AuthProvider,
   AuthProviders,
   Binary,
   Client,
   ClientConfig,
+  CompressionCodec,
   DecoratedReadableStream,
   DecryptParams,
   DecryptParamsBuilder,
+  DecryptRangeParams,
   DecryptResult,
+  DecryptScheduling,
   DecryptSource,
   EncryptionInformation,
+  EncryptManyParams,
   EncryptParams,
   EncryptParamsBuilder,
   EncryptResult,
+  EntryVerification,
   Errors,
   HttpRequest,
+  Inspection,
+  KasKeyCache,
+  KasPublicKeyInfo,
+  KeyAccessMetadataError,
   KeyInfo,
   NanoTDFClient,
   NanoTDFDatasetClient,
+  NanoTdfInspection,
+  PolicySummary,
+  RetryEvent,
+  RetryPolicy,
   SessionKeys,
   SplitKey,
+  SymmetricCipher,
+  SymmetricCipherConstructor,
   TDF,
+  TdfEntryInspection,
+  TdfInspection,
+  UpdatePolicyParams,
+  VerificationReport,
   clientType,
   createSessionKeys,
+  kasKeyCache,
   version,
 };
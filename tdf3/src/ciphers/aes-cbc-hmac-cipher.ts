@@ -0,0 +1,89 @@
+import { Binary } from '../binary.js';
+import { TdfDecryptError } from '../errors.js';
+import { Algorithms } from './algorithms.js';
+import { SymmetricCipher } from './symmetric-cipher-base.js';
+
+import type { CryptoService, DecryptResult, EncryptResult } from '../crypto/declarations.js';
+
+// The first half of the key is for the MAC, and the second for AES, as in JWE's AES_CBC_HMAC_SHA2
+const MAC_KEY_LENGTH = 32;
+const ENC_KEY_LENGTH = 32;
+const IV_LENGTH = 16;
+// HMAC-SHA256, truncated to 128 bits
+const TAG_LENGTH = 16;
+
+async function hmacTag(macKey: Buffer, data: Buffer): Promise<Buffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    macKey,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, data);
+  return Buffer.from(signature, 0, TAG_LENGTH);
+}
+
+function splitKey(key: Binary): { macKey: Buffer; encKey: Binary } {
+  const keyBuffer = key.asBuffer();
+  if (keyBuffer.length !== MAC_KEY_LENGTH + ENC_KEY_LENGTH) {
+    throw new TdfDecryptError(`Invalid key length for AES-256-CBC-HS256 [${keyBuffer.length}]`);
+  }
+  return {
+    macKey: keyBuffer.subarray(0, MAC_KEY_LENGTH),
+    encKey: Binary.fromBuffer(keyBuffer.subarray(MAC_KEY_LENGTH)),
+  };
+}
+
+export class AesCbcHmacCipher extends SymmetricCipher {
+  constructor(cryptoService: CryptoService) {
+    super(cryptoService);
+    this.name = 'AES-256-CBC-HS256';
+    this.ivLength = IV_LENGTH;
+    this.keyLength = MAC_KEY_LENGTH + ENC_KEY_LENGTH;
+  }
+
+  /**
+   * Encrypts the payload using AES w/ CBC mode, then authenticates the iv and ciphertext with
+   * HMAC-SHA256. The payload is the iv, the ciphertext and then the tag, so the tag is in the
+   * same place as a GCM auth tag.
+   */
+  override async encrypt(payload: Binary, key: Binary, iv: Binary): Promise<EncryptResult> {
+    const { macKey, encKey } = splitKey(key);
+    const result = await this.cryptoService.encrypt(payload, encKey, iv, Algorithms.AES_256_CBC);
+    const authenticated = Buffer.concat([iv.asBuffer(), result.payload.asBuffer()]);
+    const authTag = await hmacTag(macKey, authenticated);
+    return {
+      payload: Binary.fromBuffer(Buffer.concat([authenticated, authTag])),
+      authTag: Binary.fromBuffer(authTag),
+    };
+  }
+
+  /**
+   * Checks the tag, and only then decrypts the payload using AES w/ CBC mode
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  override async decrypt(buffer: Uint8Array, key: Binary, iv?: Binary): Promise<DecryptResult> {
+    const { macKey, encKey } = splitKey(key);
+    const payload = Buffer.from(buffer);
+    if (payload.length < IV_LENGTH + TAG_LENGTH) {
+      throw new TdfDecryptError('Encrypted payload is too short');
+    }
+    const authenticated = payload.subarray(0, -TAG_LENGTH);
+    const expectedTag = await hmacTag(macKey, authenticated);
+    const actualTag = payload.subarray(-TAG_LENGTH);
+    let difference = 0;
+    for (let i = 0; i < TAG_LENGTH; i++) {
+      difference |= expectedTag[i] ^ actualTag[i];
+    }
+    if (difference) {
+      throw new TdfDecryptError('Failed to authenticate the encrypted payload');
+    }
+    return this.cryptoService.decrypt(
+      Binary.fromBuffer(authenticated.subarray(IV_LENGTH)),
+      encKey,
+      Binary.fromBuffer(authenticated.subarray(0, IV_LENGTH)),
+      Algorithms.AES_256_CBC
+    );
+  }
+}
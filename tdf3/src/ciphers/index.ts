@@ -1,2 +1,5 @@
+export { AesCbcHmacCipher } from './aes-cbc-hmac-cipher.js';
 export { AesGcmCipher } from './aes-gcm-cipher.js';
 export { Algorithms } from './algorithms.js';
+export { getCipher, registerCipher, type SymmetricCipherConstructor } from './registry.js';
+export { SymmetricCipher } from './symmetric-cipher-base.js';
@@ -0,0 +1,29 @@
+import { AesCbcHmacCipher } from './aes-cbc-hmac-cipher.js';
+import { AesGcmCipher } from './aes-gcm-cipher.js';
+import { SymmetricCipher } from './symmetric-cipher-base.js';
+
+import type { CryptoService } from '../crypto/declarations.js';
+
+export type SymmetricCipherConstructor = new (cryptoService: CryptoService) => SymmetricCipher;
+
+// Keyed by the lower case algorithm name, as written to `method.algorithm` in the manifest
+const ciphers = new Map<string, SymmetricCipherConstructor>([
+  ['aes-256-gcm', AesGcmCipher],
+  ['aes-256-cbc-hs256', AesCbcHmacCipher],
+]);
+
+/**
+ * Make a cipher available for encrypt, and for decrypting TDFs whose manifest names it.
+ * @param algorithm the name the cipher writes to the manifest, in any case
+ * @param cipher the SymmetricCipher subclass
+ */
+export function registerCipher(algorithm: string, cipher: SymmetricCipherConstructor) {
+  ciphers.set(algorithm.toLowerCase(), cipher);
+}
+
+/**
+ * Look up a registered cipher by algorithm name, in any case.
+ */
+export function getCipher(algorithm: string): SymmetricCipherConstructor | undefined {
+  return ciphers.get(algorithm.toLowerCase());
+}
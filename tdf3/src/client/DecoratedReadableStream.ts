@@ -12,7 +12,7 @@ import { isFirefox } from '../../../src/utils.js';
 import { VirtruCreds, VirtruS3Config, VirtruTempS3Credentials } from './builders.js';
 import { Upload } from '../utils/aws-lib-storage/index.js';
 import { Options } from '../utils/aws-lib-storage/types.js';
-import { type Metadata } from '../tdf.js';
+import { type KeyAccessMetadataError, type Metadata } from '../tdf.js';
 import { type Manifest, type UpsertResponse } from '../models/index.js';
 
 export async function streamToBuffer(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
@@ -20,6 +20,109 @@ export async function streamToBuffer(stream: ReadableStream<Uint8Array>): Promis
   return Buffer.from(accumulator);
 }
 
+/**
+ * Read the first bytes of a stream without consuming them.
+ * @param stream the source, which is locked by this call
+ * @param byteCount the number of bytes to read, if available
+ * @returns the first bytes, and a replacement stream that yields the complete content
+ */
+export async function peekStream(
+  stream: ReadableStream<Uint8Array>,
+  byteCount: number
+): Promise<{ head: Uint8Array; stream: ReadableStream<Uint8Array> }> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  while (length < byteCount) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(value);
+    length += value.length;
+  }
+  const head = Buffer.concat(chunks).subarray(0, byteCount);
+  return {
+    head,
+    stream: new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const chunk = chunks.shift();
+        if (chunk) {
+          controller.enqueue(chunk);
+          return;
+        }
+        const { value, done } = await reader.read();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    }),
+  };
+}
+
+/**
+ * Wrap the source of a stream so that aborting the signal errors the stream and cancels the
+ * source. The abort listener is removed once the stream closes, errors or is cancelled.
+ */
+function abortableSource(
+  underlyingSource: UnderlyingSource,
+  signal: AbortSignal
+): UnderlyingSource {
+  let onAbort: () => void;
+  const stopListening = () => signal.removeEventListener('abort', onAbort);
+  // The source, in place of the stream controller, reports when it closes or errors the stream
+  let sourceController: ReadableStreamDefaultController;
+  const untilSettled = async (run: () => unknown): Promise<void> => {
+    try {
+      await run();
+    } catch (e) {
+      stopListening();
+      throw e;
+    }
+  };
+  return {
+    ...underlyingSource,
+    start: (controller) => {
+      signal.throwIfAborted();
+      const defaultController = controller as ReadableStreamDefaultController;
+      sourceController = {
+        get desiredSize() {
+          return defaultController.desiredSize;
+        },
+        enqueue: (chunk) => defaultController.enqueue(chunk),
+        close: () => {
+          stopListening();
+          defaultController.close();
+        },
+        error: (reason) => {
+          stopListening();
+          defaultController.error(reason);
+        },
+      };
+      onAbort = () => {
+        defaultController.error(signal.reason);
+        (async () => underlyingSource.cancel?.(signal.reason))().catch(() => undefined);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      return untilSettled(() => underlyingSource.start?.(sourceController));
+    },
+    pull: () =>
+      untilSettled(() => {
+        signal.throwIfAborted();
+        return underlyingSource.pull?.(sourceController);
+      }),
+    cancel: (reason) => {
+      stopListening();
+      return underlyingSource.cancel?.(reason);
+    },
+  };
+}
+
 export type DecoratedReadableStreamSinkOptions = {
   encoding?: BufferEncoding;
   signal?: AbortSignal;
@@ -36,22 +139,38 @@ export class DecoratedReadableStream {
   on: EventEmitter['on'];
   emit: EventEmitter['emit'];
   metadata?: Metadata;
+  // The metadata encrypted into each key access object, by index; undefined for those without
+  // any, whose key split was not needed, or whose metadata could not be read
+  keyAccessMetadata?: unknown[];
+  // Why the metadata of key access objects could not be read, if any could not
+  keyAccessMetadataErrors?: KeyAccessMetadataError[];
   contentLength?: number;
   manifest: Manifest | undefined;
   upsertResponse?: UpsertResponse;
   fileStreamServiceWorker?: string;
+  signal?: AbortSignal;
 
+  /**
+   * @param underlyingSource the source of the stream. If it has a `signal`, aborting it errors the
+   * stream with the abort reason, an `AbortError` by default, and cancels the source.
+   */
   constructor(
     underlyingSource: UnderlyingSource & {
       fileStreamServiceWorker?: string;
+      signal?: AbortSignal;
     }
   ) {
     if (underlyingSource.fileStreamServiceWorker) {
       this.fileStreamServiceWorker = underlyingSource.fileStreamServiceWorker;
     }
-    this.stream = new ReadableStream(underlyingSource, {
-      highWaterMark: 1,
-    }) as ReadableStream<Uint8Array>;
+    const { signal } = underlyingSource;
+    this.signal = signal;
+    this.stream = new ReadableStream(
+      signal ? abortableSource(underlyingSource, signal) : underlyingSource,
+      {
+        highWaterMark: 1,
+      }
+    ) as ReadableStream<Uint8Array>;
     this.ee = new EventEmitter();
     this.on = (...args) => this.ee.on(...args);
     this.emit = (...args) => this.ee.emit(...args);
@@ -121,6 +240,7 @@ export class DecoratedReadableStream {
 
     try {
       const parallelUpload = new Upload({
+        abortSignal: this.signal,
         client: s3,
         queueSize: CONCURRENT_UPLOADS, // optional concurrency configuration
         partSize: MAX_UPLOAD_PART_SIZE, // optional size of each part, defaults to 5MB, cannot be smaller than 5MB
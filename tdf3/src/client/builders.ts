@@ -2,14 +2,17 @@ import { GetObjectCommand, HeadObjectCommand, S3Client, S3ClientConfig } from '@
 import axios from 'axios';
 
 import { arrayBufferToBuffer } from '../utils/index.js';
+import { type CompressionCodec, isCompressionCodec } from '../utils/compression.js';
 import { AttributeValidator } from './validation.js';
 import { AttributeObject, Policy } from '../models/index.js';
-import { type Metadata, type RcaLink, type RcaParams } from '../tdf.js';
+import { type DecryptScheduling, type Metadata, type RcaLink, type RcaParams } from '../tdf.js';
 import { Binary } from '../binary.js';
 
+import { getCipher } from '../ciphers/index.js';
 import { IllegalArgumentError } from '../errors.js';
 import { PemKeyPair } from '../crypto/declarations.js';
 import { EntityObject } from '../../../src/tdf/index.js';
+import { type KasPublicKeyAlgorithm } from '../../../src/kas-key-cache.js';
 
 const { get } = axios;
 
@@ -135,6 +138,40 @@ export type EncryptParams = {
   mimeType?: string;
   eo?: EntityObject;
   payloadKey?: Binary;
+  // A registered cipher name, as written to the manifest. Defaults to AES-256-GCM
+  cipher?: string;
+  // The KAS key to wrap the payload key with. EC keys are always wrapped into the manifest, as
+  // with `offline`. Defaults to RSA
+  kasKeyAlgorithm?: KasPublicKeyAlgorithm;
+  // Splits the key with Shamir's scheme, so that any `threshold` of the policy's KASes can
+  // recover it. By default every KAS is required
+  threshold?: number;
+  // Compresses the plaintext before it is encrypted. Ranges of compressed payloads can't be
+  // decrypted with `decryptRange`, only the whole payload
+  compression?: CompressionCodec;
+  // Number of segments to encrypt at once. Defaults to 4
+  concurrency?: number;
+  // Cancels the encrypt, and errors its stream, when aborted
+  signal?: AbortSignal;
+};
+
+export type EncryptManyParams = Pick<
+  EncryptParams,
+  | 'scope'
+  | 'metadata'
+  | 'offline'
+  | 'windowSize'
+  | 'eo'
+  | 'payloadKey'
+  | 'cipher'
+  | 'kasKeyAlgorithm'
+  | 'threshold'
+  | 'compression'
+  | 'concurrency'
+  | 'signal'
+> & {
+  // Written in order, as `0.payload`, `1.payload`, and so on
+  sources: { source: ReadableStream<Uint8Array>; mimeType?: string }[];
 };
 
 // 'Readonly<EncryptParams>': scope, metadata, offline, windowSize, asHtml
@@ -477,6 +514,49 @@ class EncryptParamsBuilder {
     return this;
   }
 
+  /**
+   * Set the number of segments to encrypt at once. Each needs a buffer of the window size, so
+   * this bounds memory use as well as parallelism.
+   * @param {number} concurrency number of segments in flight (4 by default).
+   */
+  setConcurrency(concurrency: number) {
+    if (!Number.isSafeInteger(concurrency) || concurrency < 1) {
+      throw new IllegalArgumentError(`Invalid concurrency [${concurrency}]`);
+    }
+    this._params.concurrency = concurrency;
+  }
+
+  /**
+   * Set the number of segments to encrypt at once. Each needs a buffer of the window size, so
+   * this bounds memory use as well as parallelism.
+   * @param {number} concurrency number of segments in flight (4 by default).
+   * @return {EncryptParamsBuilder} - this object.
+   */
+  withConcurrency(concurrency: number): EncryptParamsBuilder {
+    this.setConcurrency(concurrency);
+    return this;
+  }
+
+  /**
+   * Set a signal to cancel the encrypt. When it aborts, KAS requests in flight are cancelled and
+   * the ciphertext stream errors with the abort reason.
+   * @param {AbortSignal} signal - from an AbortController
+   */
+  setSignal(signal: AbortSignal) {
+    this._params.signal = signal;
+  }
+
+  /**
+   * Set a signal to cancel the encrypt. When it aborts, KAS requests in flight are cancelled and
+   * the ciphertext stream errors with the abort reason.
+   * @param {AbortSignal} signal - from an AbortController
+   * @return {EncryptParamsBuilder} - this object.
+   */
+  withSignal(signal: AbortSignal): EncryptParamsBuilder {
+    this.setSignal(signal);
+    return this;
+  }
+
   /**
    * Whether the encrypted data should be formatted using html. This allows authorized users to
    * double click and read using the Virtru Secure Reader, at the cost of reduced space efficiency.
@@ -582,6 +662,94 @@ class EncryptParamsBuilder {
     return this;
   }
 
+  /**
+   * Sets the cipher used to encrypt the payload.
+   * @param {string} cipher - the name of a registered cipher, such as `aes-256-gcm` or `aes-256-cbc-hs256`
+   */
+  setCipher(cipher: string) {
+    if (!getCipher(cipher)) {
+      throw new IllegalArgumentError(`Unsupported cipher [${cipher}]`);
+    }
+    this._params.cipher = cipher;
+  }
+
+  /**
+   * Sets the cipher used to encrypt the payload.
+   * @param {string} cipher - the name of a registered cipher, such as `aes-256-gcm` or `aes-256-cbc-hs256`
+   * @return {EncryptParamsBuilder} - this object.
+   */
+  withCipher(cipher: string): EncryptParamsBuilder {
+    this.setCipher(cipher);
+    return this;
+  }
+
+  /**
+   * Sets the algorithm of the KAS key that wraps the payload key.
+   * @param {string} kasKeyAlgorithm - `rsa:2048`, for `wrapped` or `remote` key access, or
+   * `ec:secp256r1`, for `ec-wrapped` key access
+   */
+  setKasKeyAlgorithm(kasKeyAlgorithm: KasPublicKeyAlgorithm) {
+    if (kasKeyAlgorithm !== 'rsa:2048' && kasKeyAlgorithm !== 'ec:secp256r1') {
+      throw new IllegalArgumentError(`Unsupported KAS key algorithm [${kasKeyAlgorithm}]`);
+    }
+    this._params.kasKeyAlgorithm = kasKeyAlgorithm;
+  }
+
+  /**
+   * Sets the algorithm of the KAS key that wraps the payload key.
+   * @param {string} kasKeyAlgorithm - `rsa:2048`, for `wrapped` or `remote` key access, or
+   * `ec:secp256r1`, for `ec-wrapped` key access
+   * @return {EncryptParamsBuilder} - this object.
+   */
+  withKasKeyAlgorithm(kasKeyAlgorithm: KasPublicKeyAlgorithm): EncryptParamsBuilder {
+    this.setKasKeyAlgorithm(kasKeyAlgorithm);
+    return this;
+  }
+
+  /**
+   * Sets how many of the policy's KASes must grant access to recover the key, which is then
+   * split with Shamir's scheme. By default every KAS is required.
+   * @param {number} threshold - a positive integer, no more than the number of KASes
+   */
+  setThreshold(threshold: number) {
+    if (!Number.isSafeInteger(threshold) || threshold < 1) {
+      throw new IllegalArgumentError(`Invalid threshold [${threshold}]`);
+    }
+    this._params.threshold = threshold;
+  }
+
+  /**
+   * Sets how many of the policy's KASes must grant access to recover the key, which is then
+   * split with Shamir's scheme. By default every KAS is required.
+   * @param {number} threshold - a positive integer, no more than the number of KASes
+   * @return {EncryptParamsBuilder} - this object.
+   */
+  withThreshold(threshold: number): EncryptParamsBuilder {
+    this.setThreshold(threshold);
+    return this;
+  }
+
+  /**
+   * Sets the codec to compress the plaintext with before it is encrypted.
+   * @param {string} compression - `deflate`, for the zlib format, or `gzip`
+   */
+  setCompression(compression: CompressionCodec) {
+    if (!isCompressionCodec(compression)) {
+      throw new IllegalArgumentError(`Unsupported compression [${compression}]`);
+    }
+    this._params.compression = compression;
+  }
+
+  /**
+   * Sets the codec to compress the plaintext with before it is encrypted.
+   * @param {string} compression - `deflate`, for the zlib format, or `gzip`
+   * @return {EncryptParamsBuilder} - this object.
+   */
+  withCompression(compression: CompressionCodec): EncryptParamsBuilder {
+    this.setCompression(compression);
+    return this;
+  }
+
   _deepCopy(_params: EncryptParams) {
     return freeze({ ..._params, getPolicyId: () => _params.scope?.policyId });
   }
@@ -607,7 +775,25 @@ export type DecryptParams = {
   opts?: { keypair: PemKeyPair };
   rcaSource?: RcaParams;
   eo?: EntityObject;
-} & Pick<EncryptParams, 'contentLength' | 'keypair'>;
+  // Payload of a multi-payload archive to decrypt, by index or entry name. Defaults to 0
+  entry?: number | string;
+} & DecryptScheduling &
+  Pick<EncryptParams, 'contentLength' | 'keypair' | 'signal'>;
+
+export type UpdatePolicyParams = Pick<
+  EncryptParams,
+  'scope' | 'metadata' | 'offline' | 'eo' | 'signal'
+> & {
+  // The zip TDF to rewrite
+  source: DecryptSource;
+};
+
+export type DecryptRangeParams = Omit<DecryptParams, 'rcaSource'> & {
+  // First plaintext byte to return
+  start: number;
+  // Index after the last plaintext byte to return. Defaults to the end of the payload
+  end?: number;
+};
 
 /**
  * A builder capable of constructing the necessary parameters object for a
@@ -824,6 +1010,106 @@ class DecryptParamsBuilder {
     return this;
   }
 
+  /**
+   * Select the payload of a multi-payload archive to decrypt.
+   * @param entry the index of the payload, or the name of its entry, such as `1.payload`
+   */
+  setEntry(entry: number | string) {
+    this._params.entry = entry;
+  }
+
+  /**
+   * Select the payload of a multi-payload archive to decrypt. Returns this object for method chaining.
+   * @param entry the index of the payload, or the name of its entry, such as `1.payload`
+   * @return {DecryptParamsBuilder} - this object.
+   */
+  withEntry(entry: number | string): DecryptParamsBuilder {
+    this.setEntry(entry);
+    return this;
+  }
+
+  /**
+   * Set the number of consecutive segments to fetch with each range request.
+   * @param batchSize segments per request (32 by default)
+   */
+  setBatchSize(batchSize: number) {
+    if (!Number.isSafeInteger(batchSize) || batchSize < 1) {
+      throw new IllegalArgumentError(`Invalid batch size [${batchSize}]`);
+    }
+    this._params.batchSize = batchSize;
+  }
+
+  /**
+   * Set the number of consecutive segments to fetch with each range request. Returns this object for method chaining.
+   * @param batchSize segments per request (32 by default)
+   * @return {DecryptParamsBuilder} - this object.
+   */
+  withBatchSize(batchSize: number): DecryptParamsBuilder {
+    this.setBatchSize(batchSize);
+    return this;
+  }
+
+  /**
+   * Set the number of range requests to have in flight while the plaintext is read.
+   * @param concurrency requests in flight (3 by default)
+   */
+  setConcurrency(concurrency: number) {
+    if (!Number.isSafeInteger(concurrency) || concurrency < 1) {
+      throw new IllegalArgumentError(`Invalid concurrency [${concurrency}]`);
+    }
+    this._params.concurrency = concurrency;
+  }
+
+  /**
+   * Set the number of range requests to have in flight while the plaintext is read. Returns this object for method chaining.
+   * @param concurrency requests in flight (3 by default)
+   * @return {DecryptParamsBuilder} - this object.
+   */
+  withConcurrency(concurrency: number): DecryptParamsBuilder {
+    this.setConcurrency(concurrency);
+    return this;
+  }
+
+  /**
+   * Set how many fetched or decrypted bytes may wait for a slow reader before fetching pauses.
+   * @param maxBufferedBytes buffered bytes (128MiB by default)
+   */
+  setMaxBufferedBytes(maxBufferedBytes: number) {
+    if (!Number.isFinite(maxBufferedBytes) || maxBufferedBytes <= 0) {
+      throw new IllegalArgumentError(`Invalid buffer size [${maxBufferedBytes}]`);
+    }
+    this._params.maxBufferedBytes = maxBufferedBytes;
+  }
+
+  /**
+   * Set how many fetched or decrypted bytes may wait for a slow reader before fetching pauses. Returns this object for method chaining.
+   * @param maxBufferedBytes buffered bytes (128MiB by default)
+   * @return {DecryptParamsBuilder} - this object.
+   */
+  withMaxBufferedBytes(maxBufferedBytes: number): DecryptParamsBuilder {
+    this.setMaxBufferedBytes(maxBufferedBytes);
+    return this;
+  }
+
+  /**
+   * Set a signal to cancel the decrypt. When it aborts, KAS requests and payload fetches in
+   * flight are cancelled and the plaintext stream errors with the abort reason.
+   * @param signal from an AbortController
+   */
+  setSignal(signal: AbortSignal) {
+    this._params.signal = signal;
+  }
+
+  /**
+   * Set a signal to cancel the decrypt. Returns this object for method chaining.
+   * @param signal from an AbortController
+   * @return {DecryptParamsBuilder} - this object.
+   */
+  withSignal(signal: AbortSignal): DecryptParamsBuilder {
+    this.setSignal(signal);
+    return this;
+  }
+
   _deepCopy(_params: DecryptParams) {
     return freeze({ ..._params });
   }
@@ -1,37 +1,53 @@
 import { v4 } from 'uuid';
 import axios from 'axios';
+import { importSPKI } from 'jose';
 import {
   type Chunker,
   fromBuffer,
   fromDataSource,
   isAppIdProviderCheck,
+  peekStream,
   streamToBuffer,
   ZipReader,
 } from '../utils/index.js';
 import { base64 } from '../../../src/encodings/index.js';
-import { TDF } from '../tdf.js';
+import { type ArchiveEntry, TDF } from '../tdf.js';
 import { OIDCRefreshTokenProvider } from '../../../src/auth/oidc-refreshtoken-provider.js';
 import { OIDCExternalJwtProvider } from '../../../src/auth/oidc-externaljwt-provider.js';
 import { PemKeyPair } from '../crypto/declarations.js';
 import { AppIdAuthProvider, AuthProvider, HttpRequest } from '../../../src/auth/auth.js';
 import EAS from '../../../src/auth/Eas.js';
+import { type RetryPolicy } from '../../../src/retry.js';
+import {
+  type KasPublicKeyAlgorithm,
+  type KasPublicKeyInfo,
+  kasKeyCache,
+} from '../../../src/kas-key-cache.js';
+import { EntityObject } from '../../../src/tdf/index.js';
 
 import {
   DecryptParams,
   DecryptParamsBuilder,
+  type DecryptRangeParams,
   type DecryptSource,
   DEFAULT_SEGMENT_SIZE,
+  type EncryptManyParams,
   EncryptParams,
   EncryptParamsBuilder,
   type Scope,
+  type UpdatePolicyParams,
 } from './builders.js';
 import { DecoratedReadableStream } from './DecoratedReadableStream.js';
-import { Policy } from '../models/index.js';
+import { type Inspection, inspectArchive, inspectNano } from '../inspect.js';
+import { type VerificationReport, verifyArchive } from '../verify.js';
+import { type AttributeObject, Policy } from '../models/index.js';
 import { cryptoToPemPair, generateKeyPair, rsaPkcs1Sha256 } from '../crypto/index.js';
-import { TdfError } from '../errors.js';
+import { IllegalArgumentError, KasKeyRotatedError, KeyAccessError, TdfError } from '../errors.js';
 
 const GLOBAL_BYTE_LIMIT = 64 * 1000 * 1000 * 1000; // 64 GB, see WS-9363.
 const HTML_BYTE_LIMIT = 100 * 1000 * 1000; // 100 MB, see WS-9476.
+// The start of the magic number of a nanoTDF
+const NANO_MAGIC = 'L1';
 
 // No default config for now. Delegate to Virtru wrapper for endpoints.
 const defaultClientConfig = { oidcOrigin: '' };
@@ -60,12 +76,13 @@ export const uploadBinaryToS3 = async function (
 };
 const getFirstTwoBytes = async (chunker: Chunker) => new TextDecoder().decode(await chunker(0, 2));
 
-const makeChunkable = async (source: DecryptSource) => {
+// Read a source as it is, along with its bytes if they are already in memory
+const sourceChunker = async (source: DecryptSource, signal?: AbortSignal) => {
   if (!source) {
     throw new Error('Invalid source');
   }
   // dump stream to buffer
-  // we don't support streams anyways (see zipreader.js)
+  // (decrypt reads streams front to back with TDF.readForwardStream instead)
   let initialChunker: Chunker;
   let buf = null;
   if (source.type === 'stream') {
@@ -75,19 +92,29 @@ const makeChunkable = async (source: DecryptSource) => {
     buf = source.location;
     initialChunker = fromBuffer(buf);
   } else {
-    initialChunker = await fromDataSource(source);
+    initialChunker = await fromDataSource(source, signal);
   }
+  return { initialChunker, buf };
+};
+
+// Unwrap an html TDF that has been read in full, with the content of its `data-manifest`
+const unwrapHtmlBuffer = async (html: Uint8Array) => {
+  const { payload, manifest } = TDF.unwrapHtmlStream(new Blob([html]).stream());
+  return { chunker: fromBuffer(await streamToBuffer(payload)), manifest };
+};
 
+const makeChunkable = async (source: DecryptSource, signal?: AbortSignal) => {
+  const { initialChunker, buf } = await sourceChunker(source, signal);
   const magic: string = await getFirstTwoBytes(initialChunker);
   // Pull first two bytes from source.
   if (magic === 'PK') {
     return initialChunker;
   }
   // Unwrap if it's html.
-  // If NOT zip (html), convert/dump to buffer, unwrap, and continue.
-  const htmlBuf = buf || (await initialChunker());
-  const zipBuf = TDF.unwrapHtml(htmlBuf);
-  return fromBuffer(zipBuf);
+  // If NOT zip (html), convert/dump to buffer, unwrap, and check its manifest before continuing.
+  const { chunker, manifest } = await unwrapHtmlBuffer(buf || (await initialChunker()));
+  await TDF.verifyHtmlManifest(chunker, manifest);
+  return chunker;
 };
 
 export interface ClientConfig {
@@ -112,6 +139,12 @@ export interface ClientConfig {
   entityObjectEndpoint?: string;
   fileStreamServiceWorker?: string;
   progressHandler?: (bytesProcessed: number) => void;
+  // Maximum size of the zip inside an html TDF. Defaults to 100 MB
+  htmlByteLimit?: number;
+  // How to retry KAS and OIDC requests after transient failures. Defaults to 3 attempts
+  retryPolicy?: RetryPolicy;
+  // Sends KAS requests instead of the default HTTP client, e.g. to a KAS stand-in in tests
+  fetch?: typeof globalThis.fetch;
 }
 
 /*
@@ -151,17 +184,55 @@ export async function createSessionKeys({
 /*
  * If we have KAS url but not public key we can fetch it from KAS
  */
-export async function fetchKasPubKey(kasEndpoint: string): Promise<string> {
+export async function fetchKasPubKey(
+  kasEndpoint: string,
+  retryPolicy?: RetryPolicy,
+  fetch?: typeof globalThis.fetch
+): Promise<string> {
+  return (await fetchKasPublicKey(kasEndpoint, retryPolicy, fetch)).publicKey;
+}
+
+/*
+ * Get a public key of a KAS, RSA unless another algorithm is given, and its id, from the shared
+ * key cache, fetching it from KAS when it is missing or expired
+ */
+export async function fetchKasPublicKey(
+  kasEndpoint: string,
+  retryPolicy?: RetryPolicy,
+  fetch?: typeof globalThis.fetch,
+  algorithm: KasPublicKeyAlgorithm = 'rsa:2048'
+): Promise<KasPublicKeyInfo> {
   if (!kasEndpoint) {
     throw new TdfError('KAS definition not found');
   }
   try {
-    return await TDF.getPublicKeyFromKeyAccessServer(kasEndpoint);
+    return await kasKeyCache.get(kasEndpoint, algorithm, () =>
+      TDF.getPublicKeyInfoFromKeyAccessServer(kasEndpoint, retryPolicy, fetch, algorithm)
+    );
   } catch (e) {
     throw new TdfError(`Retrieving KAS public key [${kasEndpoint}] failed [${e}]`);
   }
 }
 
+/*
+ * Check that a KAS public key can wrap keys, so that a bad key fails the encrypt instead of
+ * producing a TDF that nobody can open.
+ */
+export async function validateKasPubKey(
+  kasEndpoint: string,
+  publicKey: string,
+  algorithm: KasPublicKeyAlgorithm = 'rsa:2048'
+): Promise<string> {
+  try {
+    const rsa = algorithm === 'rsa:2048';
+    const pem = await TDF.extractPemFromKeyString(publicKey, rsa ? 'RS256' : 'ES256');
+    await importSPKI(pem, rsa ? 'RSA-OAEP' : 'ECDH-ES');
+    return pem;
+  } catch (e) {
+    throw new KeyAccessError(`Invalid KAS public key [${kasEndpoint}] [${e}]`);
+  }
+}
+
 export type SessionKeys = {
   keypair: PemKeyPair;
   signingKeys?: CryptoKeyPair;
@@ -173,8 +244,6 @@ export class Client {
    */
   readonly kasEndpoint: string;
 
-  readonly kasPublicKey: Promise<string>;
-
   readonly easEndpoint?: string;
 
   readonly clientId?: string;
@@ -206,6 +275,8 @@ export class Client {
    * receives fresh token that needed by SDK for auth needs
    * @param {String} [config.externalJwt] - JWT from external authority (eg Google)
    * @param {String} [config.oidcOrigin] - Endpoint of authentication service
+   * @param {Object} [config.retryPolicy] - How to retry KAS and OIDC requests
+   * @param {Function} [config.fetch] - Sends KAS requests in place of the default HTTP client
    */
   constructor(config: ClientConfig) {
     const clientConfig = { ...defaultClientConfig, ...config };
@@ -253,6 +324,7 @@ export class Client {
           clientId: clientConfig.clientId,
           refreshToken: clientConfig.refreshToken,
           oidcOrigin: clientConfig.oidcOrigin,
+          retryPolicy: clientConfig.retryPolicy,
         });
       } else if (clientConfig.externalJwt) {
         //Are we exchanging a JWT previously issued by a trusted external entity (e.g. Google) for a bearer token?
@@ -260,6 +332,7 @@ export class Client {
           clientId: clientConfig.clientId,
           externalJwt: clientConfig.externalJwt,
           oidcOrigin: clientConfig.oidcOrigin,
+          retryPolicy: clientConfig.retryPolicy,
         });
       }
     }
@@ -272,17 +345,25 @@ export class Client {
         keypair: clientConfig.keypair,
       });
     }
-    if (clientConfig.kasPublicKey) {
-      this.kasPublicKey = Promise.resolve(clientConfig.kasPublicKey);
-    } else {
-      this.kasPublicKey = fetchKasPubKey(this.kasEndpoint);
+  }
+
+  /**
+   * The public key of the default KAS: the configured one, or else the one in the shared key
+   * cache, which is only fetched from KAS when it is first needed.
+   */
+  get kasPublicKey(): Promise<string> {
+    const { kasPublicKey, retryPolicy, fetch } = this.clientConfig;
+    if (kasPublicKey) {
+      return Promise.resolve(kasPublicKey);
     }
+    return fetchKasPubKey(this.kasEndpoint, retryPolicy, fetch);
   }
 
   /**
    * Encrypt plaintext into TDF ciphertext. One of the core operations of the Virtru SDK.
    *
-   * @param scope dissem and attributes for constructing the policy
+   * @param scope dissem and attributes for constructing the policy. The key is split across the
+   * KAS of each attribute with a `kasUrl`, and the client's KAS for the rest
    * @param source nodeJS source object of unencrypted data
    * @param [asHtml] If we should wrap the TDF data in a self-opening HTML wrapper. Defaults to false
    * @param [metadata] Additional non-secret data to store with the TDF
@@ -292,6 +373,12 @@ export class Client {
    * @param [windowSize] - segment size in bytes. Defaults to a a million bytes.
    * @param [eo] - (deprecated) entity object
    * @param [payloadKey] - Separate key for payload; not saved. Used to support external party key storage.
+   * @param [cipher] - name of a registered payload cipher. Defaults to `aes-256-gcm`
+   * @param [kasKeyAlgorithm] - algorithm of the KAS key that wraps the payload key, `rsa:2048` or `ec:secp256r1`. Defaults to `rsa:2048`
+   * @param [threshold] - number of the policy's KASes that can recover the key, split with Shamir's scheme. Defaults to all of them
+   * @param [compression] - `deflate` or `gzip`, to compress the plaintext before it is encrypted. Not compressed by default
+   * @param [concurrency] - number of segments to encrypt at once. Defaults to 4
+   * @param [signal] - cancels the encrypt, and errors the returned stream, when aborted
    * @return a {@link https://nodejs.org/api/stream.html#stream_class_stream_readable|Readable} a new stream containing the TDF ciphertext, if output is not passed in as a paramter
    */
   async encrypt({
@@ -304,6 +391,12 @@ export class Client {
     windowSize,
     eo,
     payloadKey,
+    cipher,
+    kasKeyAlgorithm,
+    threshold,
+    compression,
+    concurrency,
+    signal,
   }: Omit<EncryptParams, 'output'>): Promise<DecoratedReadableStream>;
   async encrypt({
     scope,
@@ -316,6 +409,12 @@ export class Client {
     windowSize,
     eo,
     payloadKey,
+    cipher,
+    kasKeyAlgorithm,
+    threshold,
+    compression,
+    concurrency,
+    signal,
   }: EncryptParams & { output: NodeJS.WriteStream }): Promise<void>;
   async encrypt({
     scope = { attributes: [], dissem: [] },
@@ -329,6 +428,12 @@ export class Client {
     windowSize = DEFAULT_SEGMENT_SIZE,
     eo,
     payloadKey,
+    cipher,
+    kasKeyAlgorithm,
+    threshold,
+    compression,
+    concurrency,
+    signal,
   }: EncryptParams): Promise<DecoratedReadableStream | void> {
     if (asHtml) {
       if (rcaSource) {
@@ -341,42 +446,32 @@ export class Client {
     if (rcaSource && !this.kasEndpoint) {
       throw new Error('rca links require a kasEndpoint url to be set');
     }
-    const sessionKeys = await this.sessionKeys;
-    const kasPublicKey = await this.kasPublicKey;
     const policyObject = this._createPolicyObject(scope);
-
-    // TODO: Refactor underlying builder to remove some of this unnecessary config.
-
-    const tdf = TDF.create()
-      .setPrivateKey(sessionKeys.keypair.privateKey)
-      .setPublicKey(sessionKeys.keypair.publicKey)
-      .setEncryption({
-        type: 'split',
-        cipher: 'aes-256-gcm',
-      })
-      .setDefaultSegmentSize(windowSize)
-      // set root sig and segment types
-      .setIntegrityAlgorithm('hs256', 'gmac')
-      .addContentStream(source, mimeType)
-      .setPolicy(policyObject)
-      .setAuthProvider(this.authProvider);
-    if (eo) {
-      tdf.setEntity(eo);
-    }
-    await tdf.addKeyAccess({
-      type: offline ? 'wrapped' : 'remote',
-      url: this.kasEndpoint,
-      publicKey: kasPublicKey,
-      metadata,
+    const byteLimit = asHtml
+      ? this.clientConfig.htmlByteLimit || HTML_BYTE_LIMIT
+      : GLOBAL_BYTE_LIMIT;
+    const { tdf, stream } = await this._withFreshKasKeys(async () => {
+      const tdf = await this._createEncryptTDF(policyObject, {
+        metadata,
+        offline,
+        windowSize,
+        eo,
+        cipher,
+        kasKeyAlgorithm,
+        threshold,
+        compression,
+        concurrency,
+        signal,
+      });
+      tdf.addContentStream(source, mimeType);
+      const stream = await tdf.writeStream(
+        byteLimit,
+        !!rcaSource,
+        payloadKey,
+        this.clientConfig.progressHandler
+      );
+      return { tdf, stream };
     });
-
-    const byteLimit = asHtml ? HTML_BYTE_LIMIT : GLOBAL_BYTE_LIMIT;
-    const stream = await tdf.writeStream(
-      byteLimit,
-      !!rcaSource,
-      payloadKey,
-      this.clientConfig.progressHandler
-    );
     // Looks like invalid calls | stream.upsertResponse equals empty array?
     if (rcaSource) {
       stream.policyUuid = policyObject.uuid;
@@ -386,23 +481,90 @@ export class Client {
     }
 
     // Wrap if it's html.
-    // FIXME: Support streaming for html format.
     if (!tdf.manifest) {
       throw new Error('Missing manifest in encrypt function');
     }
-    const htmlBuf = TDF.wrapHtml(await stream.toBuffer(), tdf.manifest, this.readerUrl || '');
+    const htmlStream = TDF.wrapHtmlStream(stream.stream, tdf.manifest, this.readerUrl || '');
 
     if (output) {
-      output.push(htmlBuf);
+      const reader = htmlStream.stream.getReader();
+      let result = await reader.read();
+      while (!result.done) {
+        output.push(result.value);
+        result = await reader.read();
+      }
       output.push(null);
       return;
     }
 
-    return new DecoratedReadableStream({
-      pull(controller: ReadableStreamDefaultController) {
-        controller.enqueue(htmlBuf);
-        controller.close();
-      },
+    return htmlStream;
+  }
+
+  /**
+   * Encrypt several plaintexts into one TDF archive. They share a policy and key, so one upsert
+   * covers them all, but each is written as its own `N.payload` with its own `N.manifest.json`,
+   * and can be decrypted alone by passing its index or name as `entry` to `decrypt`.
+   *
+   * @param params
+   * @param params.sources the plaintexts, with optional mime types, in archive order
+   * @param [params.scope] dissem and attributes for constructing the policy
+   * @param [params.metadata] Additional non-secret data to store with the TDF
+   * @param [params.offline] Where to store the policy. Defaults to `false` - which results in `upsert` events to store/update a policy
+   * @param [params.windowSize] - segment size in bytes. Defaults to a a million bytes.
+   * @param [params.eo] - (deprecated) entity object
+   * @param [params.payloadKey] - Separate key for payload; not saved. Used to support external party key storage.
+   * @param [params.cipher] - name of a registered payload cipher. Defaults to `aes-256-gcm`
+   * @param [params.kasKeyAlgorithm] - algorithm of the KAS key that wraps the payload key, `rsa:2048` or `ec:secp256r1`. Defaults to `rsa:2048`
+   * @param [params.threshold] - number of the policy's KASes that can recover the key, split with Shamir's scheme. Defaults to all of them
+   * @param [params.compression] - `deflate` or `gzip`, to compress each plaintext before it is encrypted. Not compressed by default
+   * @param [params.concurrency] - number of segments to encrypt at once. Defaults to 4
+   * @param [params.signal] - cancels the encrypt, and errors the returned stream, when aborted
+   * @return a stream containing the TDF archive
+   * @see Client#listEntries
+   */
+  async encryptMany({
+    sources,
+    scope = { attributes: [], dissem: [] },
+    metadata,
+    offline = false,
+    windowSize = DEFAULT_SEGMENT_SIZE,
+    eo,
+    payloadKey,
+    cipher,
+    kasKeyAlgorithm,
+    threshold,
+    compression,
+    concurrency,
+    signal,
+  }: EncryptManyParams): Promise<DecoratedReadableStream> {
+    if (!sources.length) {
+      throw new IllegalArgumentError('At least one source is required');
+    }
+    const policyObject = this._createPolicyObject(scope);
+    return this._withFreshKasKeys(async () => {
+      const tdf = await this._createEncryptTDF(policyObject, {
+        metadata,
+        offline,
+        windowSize,
+        eo,
+        cipher,
+        kasKeyAlgorithm,
+        threshold,
+        compression,
+        concurrency,
+        signal,
+      });
+      const [first, ...rest] = sources;
+      tdf.addContentStream(first.source, first.mimeType);
+      for (const { source, mimeType } of rest) {
+        tdf.addAdditionalContentStream(source, mimeType);
+      }
+      return tdf.writeStream(
+        GLOBAL_BYTE_LIMIT,
+        false,
+        payloadKey,
+        this.clientConfig.progressHandler
+      );
     });
   }
 
@@ -413,27 +575,47 @@ export class Client {
    * @param params.source A data stream object, one of remote, stream, buffer, etc. types.
    * @param params.rcaSource RCA source information
    * @param params.eo Optional entity object (legacy AuthZ)
+   * @param params.entry Payload of a multi-payload archive to decrypt, by index or name. Defaults to the first
+   * @param params.batchSize Number of segments to fetch with each range request. Defaults to 32
+   * @param params.concurrency Number of range requests in flight. Defaults to 3
+   * @param params.maxBufferedBytes Bytes to hold, fetched or decrypted, for a slow reader before pausing. Defaults to 128MiB. Stream sources whose payload comes before its manifest, as `encrypt` writes them, are held until the manifest arrives, and fail when larger than this
+   * @param params.signal Cancels the decrypt, and errors the returned stream, when aborted
    * @return a {@link https://nodejs.org/api/stream.html#stream_class_stream_readable|Readable} stream containing the decrypted plaintext.
    * @see DecryptParamsBuilder
    */
-  async decrypt({ eo, source, rcaSource }: DecryptParams): Promise<DecoratedReadableStream> {
-    const sessionKeys = await this.sessionKeys;
-    let entityObject;
-    if (eo && eo.publicKey == sessionKeys.keypair.publicKey) {
-      entityObject = eo;
-    } else if (this.eas) {
-      entityObject = await this.eas.fetchEntityObject({
-        publicKey: sessionKeys.keypair.publicKey,
-      });
-    }
-    const tdf = TDF.create()
-      .setPrivateKey(sessionKeys.keypair.privateKey)
-      .setPublicKey(sessionKeys.keypair.publicKey)
-      .setAuthProvider(this.authProvider);
-    if (entityObject) {
-      tdf.setEntity(entityObject);
+  async decrypt({
+    eo,
+    source,
+    rcaSource,
+    entry = 0,
+    batchSize,
+    concurrency,
+    maxBufferedBytes,
+    signal,
+  }: DecryptParams): Promise<DecoratedReadableStream> {
+    const tdf = (await this._createDecryptTDF(eo, signal)).setEntry(entry);
+    if (source.type === 'stream' && !rcaSource) {
+      // Streams are read front to back, unwrapping html as it arrives
+      const { head, stream } = await peekStream(source.location, 2);
+      if (new TextDecoder().decode(head) === 'PK') {
+        return tdf.readForwardStream(
+          stream,
+          this.clientConfig.progressHandler,
+          this.clientConfig.fileStreamServiceWorker,
+          undefined,
+          maxBufferedBytes
+        );
+      }
+      const { payload, manifest } = TDF.unwrapHtmlStream(stream);
+      return tdf.readForwardStream(
+        payload,
+        this.clientConfig.progressHandler,
+        this.clientConfig.fileStreamServiceWorker,
+        manifest,
+        maxBufferedBytes
+      );
     }
-    const chunker = await makeChunkable(source);
+    const chunker = await makeChunkable(source, signal);
 
     // Await in order to catch any errors from this call.
     // TODO: Write error event to stream and don't await.
@@ -441,10 +623,137 @@ export class Client {
       chunker,
       rcaSource,
       this.clientConfig.progressHandler,
-      this.clientConfig.fileStreamServiceWorker
+      this.clientConfig.fileStreamServiceWorker,
+      { batchSize, concurrency, maxBufferedBytes }
     );
   }
 
+  /**
+   * Decrypt a slice of the plaintext of TDF ciphertext. Only the segments that overlap the
+   * requested range are fetched and decrypted, so this is suitable for seeking within large
+   * remote files. Ranges of payloads that were compressed are rejected with an
+   * IllegalArgumentError, as they can't be located without decrypting from the start; use
+   * `decrypt` for those.
+   *
+   * @param params
+   * @param params.source A data stream object, one of remote, stream, buffer, etc. types.
+   * @param params.start First plaintext byte to return
+   * @param params.end Index after the last plaintext byte to return. Defaults to the end of the payload
+   * @param params.eo Optional entity object (legacy AuthZ)
+   * @param params.entry Payload of a multi-payload archive to decrypt, by index or name. Defaults to the first
+   * @param params.batchSize Number of segments to fetch with each range request. Defaults to 32
+   * @param params.concurrency Number of range requests in flight. Defaults to 3
+   * @param params.maxBufferedBytes Bytes to hold, fetched or decrypted, for a slow reader before pausing. Defaults to 128MiB
+   * @param params.signal Cancels the decrypt, and errors the returned stream, when aborted
+   * @return a {@link https://nodejs.org/api/stream.html#stream_class_stream_readable|Readable} stream containing the requested plaintext.
+   */
+  async decryptRange({
+    eo,
+    source,
+    start,
+    end,
+    entry = 0,
+    batchSize,
+    concurrency,
+    maxBufferedBytes,
+    signal,
+  }: DecryptRangeParams): Promise<DecoratedReadableStream> {
+    const tdf = (await this._createDecryptTDF(eo, signal)).setEntry(entry);
+    const chunker = await makeChunkable(source, signal);
+    return tdf.readRange(chunker, start, end, this.clientConfig.progressHandler, {
+      batchSize,
+      concurrency,
+      maxBufferedBytes,
+    });
+  }
+
+  /**
+   * Change the policy of a zip TDF without re-encrypting it. The payload key is unwrapped, which
+   * requires access under the current policy, and wrapped again for the new one. Only the
+   * manifest and central directory are rewritten; the encrypted payload bytes are copied as-is.
+   *
+   * @param params
+   * @param params.source The TDF to update, one of remote, buffer, etc. types.
+   * @param [params.scope] dissem and attributes for constructing the new policy
+   * @param [params.metadata] Additional non-secret data to store with the new key access
+   * @param [params.offline] Where to store the policy. Defaults to `false` - which results in an `upsert` of the new policy
+   * @param [params.eo] Optional entity object (legacy AuthZ)
+   * @param [params.signal] Cancels the update, and errors the returned stream, when aborted
+   * @return a stream containing the rewritten TDF
+   */
+  async updatePolicy({
+    source,
+    scope = { attributes: [], dissem: [] },
+    metadata,
+    offline = false,
+    eo,
+    signal,
+  }: UpdatePolicyParams): Promise<DecoratedReadableStream> {
+    const policyObject = this._createPolicyObject(scope);
+    let chunker: Chunker | undefined;
+    return this._withFreshKasKeys(async () => {
+      const tdf = await this._createDecryptTDF(eo, signal);
+      await this._addKeyAccess(tdf, policyObject, { metadata, offline });
+      chunker ??= await makeChunkable(source, signal);
+      return tdf.updatePolicy(chunker);
+    });
+  }
+
+  /**
+   * List the payloads in a TDF archive, such as one written by `encryptMany`. This reads only the
+   * central directory, so it does not contact the KAS.
+   *
+   * @param params
+   * @param params.source A data stream object, one of remote, buffer, etc. types.
+   * @return the payload entries, in index order
+   */
+  async listEntries({ source }: { source: DecryptSource }): Promise<ArchiveEntry[]> {
+    const chunker = await makeChunkable(source);
+    return TDF.listEntries(chunker);
+  }
+
+  /**
+   * Describe a ciphertext without decrypting it or contacting the KAS: its container, KAS urls,
+   * policy, sizes and algorithms. Reads zip and html TDFs, from their central directory and
+   * manifests, and nanoTDFs, from their header.
+   *
+   * @param params
+   * @param params.source A data stream object, one of remote, buffer, etc. types.
+   * @return a summary of the ciphertext, by container type
+   */
+  async inspect({ source }: { source: DecryptSource }): Promise<Inspection> {
+    const { initialChunker, buf } = await sourceChunker(source);
+    const magic = new TextDecoder().decode(await initialChunker(0, 2));
+    if (magic === 'PK') {
+      return inspectArchive(initialChunker, 'zip');
+    }
+    const bytes = buf || (await initialChunker());
+    if (magic === NANO_MAGIC) {
+      return inspectNano(bytes);
+    }
+    const { chunker, manifest } = await unwrapHtmlBuffer(bytes);
+    await TDF.verifyHtmlManifest(chunker, manifest);
+    return inspectArchive(chunker, 'html');
+  }
+
+  /**
+   * Check that a zip or html TDF is intact, for callers that may not read it: its zip structure,
+   * manifest schema, segment sizes and, when they are GMAC tags, segment hashes. Makes no KAS
+   * requests, so cannot check the root signature or HS256 segment hashes.
+   *
+   * @param params
+   * @param params.source A data stream object, one of remote, buffer, etc. types.
+   * @return every problem found, by entry; `valid` when there are none
+   */
+  async verify({ source }: { source: DecryptSource }): Promise<VerificationReport> {
+    const { initialChunker, buf } = await sourceChunker(source);
+    if ((await getFirstTwoBytes(initialChunker)) === 'PK') {
+      return verifyArchive(initialChunker, 'zip');
+    }
+    const { chunker, manifest } = await unwrapHtmlBuffer(buf || (await initialChunker()));
+    return verifyArchive(chunker, 'html', manifest);
+  }
+
   /**
    * Get the unique policyId associated with TDF ciphertext. Useful for managing authorization policies of encrypted data.
    * <br/><br/>
@@ -464,6 +773,196 @@ export class Client {
     return JSON.parse(policyJson).uuid;
   }
 
+  /*
+   * Create a TDF instance for an encrypt operation, with its policy and key access. The caller
+   * adds the content.
+   */
+  async _createEncryptTDF(
+    policyObject: Policy,
+    {
+      metadata,
+      offline,
+      windowSize = DEFAULT_SEGMENT_SIZE,
+      eo,
+      cipher,
+      kasKeyAlgorithm,
+      threshold,
+      compression,
+      concurrency,
+      signal,
+    }: Pick<
+      EncryptParams,
+      | 'metadata'
+      | 'offline'
+      | 'windowSize'
+      | 'eo'
+      | 'cipher'
+      | 'kasKeyAlgorithm'
+      | 'threshold'
+      | 'compression'
+      | 'concurrency'
+      | 'signal'
+    >
+  ): Promise<TDF> {
+    signal?.throwIfAborted();
+    const sessionKeys = await this.sessionKeys;
+
+    // TODO: Refactor underlying builder to remove some of this unnecessary config.
+
+    const tdf = TDF.create()
+      .setPrivateKey(sessionKeys.keypair.privateKey)
+      .setPublicKey(sessionKeys.keypair.publicKey)
+      .setDefaultSegmentSize(windowSize)
+      // set root sig and segment types
+      .setIntegrityAlgorithm('hs256', 'gmac')
+      .setAuthProvider(this.authProvider)
+      .setSignal(signal)
+      .setRetryPolicy(this.clientConfig.retryPolicy)
+      .setFetch(this.clientConfig.fetch)
+      .setCompression(compression);
+    if (eo) {
+      tdf.setEntity(eo);
+    }
+    if (concurrency) {
+      tdf.setConcurrency(concurrency);
+    }
+    await this._addKeyAccess(tdf, policyObject, {
+      metadata,
+      offline,
+      cipher,
+      kasKeyAlgorithm,
+      threshold,
+    });
+    return tdf;
+  }
+
+  /*
+   * Wrap a key for the KASes of a policy, and upsert it. If a KAS no longer holds the key it was
+   * wrapped with, because KAS rotated its key after it was cached, the cached key has been dropped,
+   * so try once more with the current one. The sources are not read until the upserts succeed.
+   */
+  async _withFreshKasKeys<T>(wrap: () => Promise<T>): Promise<T> {
+    try {
+      return await wrap();
+    } catch (e) {
+      if (!(e instanceof KasKeyRotatedError)) {
+        throw e;
+      }
+      return wrap();
+    }
+  }
+
+  /*
+   * Set the policy of a TDF instance, and split its key across the KASes of the policy's
+   * attributes, so that each of them, or any `threshold` of them, must grant access.
+   */
+  async _addKeyAccess(
+    tdf: TDF,
+    policyObject: Policy,
+    {
+      metadata,
+      offline,
+      cipher = 'aes-256-gcm',
+      kasKeyAlgorithm = 'rsa:2048',
+      threshold,
+    }: Pick<EncryptParams, 'metadata' | 'offline' | 'cipher' | 'kasKeyAlgorithm' | 'threshold'>
+  ) {
+    const kasPublicKeys = await this._getKasPublicKeys(
+      policyObject.body?.dataAttributes || [],
+      kasKeyAlgorithm
+    );
+    if (threshold !== undefined && threshold > kasPublicKeys.size) {
+      throw new IllegalArgumentError(
+        `Threshold [${threshold}] is more than the [${kasPublicKeys.size}] KASes of the policy`
+      );
+    }
+    tdf
+      .setEncryption({
+        type: 'split',
+        cipher,
+        threshold,
+      })
+      .setPolicy(policyObject);
+    for (const [url, { publicKey, kid }] of kasPublicKeys) {
+      await tdf.addKeyAccess({
+        type: kasKeyAlgorithm === 'ec:secp256r1' ? 'ec-wrapped' : offline ? 'wrapped' : 'remote',
+        url,
+        publicKey,
+        kid,
+        metadata,
+      });
+    }
+  }
+
+  /*
+   * Group attributes by KAS, and get the validated public key of each one. Attributes without a
+   * KAS of their own are gated by the client's KAS, which is also used when there are none. The
+   * configured and attribute keys are RSA, so EC keys are always fetched.
+   */
+  async _getKasPublicKeys(
+    attributes: AttributeObject[],
+    algorithm: KasPublicKeyAlgorithm = 'rsa:2048'
+  ): Promise<Map<string, Pick<KasPublicKeyInfo, 'publicKey' | 'kid'>>> {
+    const groups = new Map<string, AttributeObject[]>();
+    for (const attribute of attributes) {
+      const kasUrl = attribute.kasUrl?.replace(/\/$/, '') || this.kasEndpoint;
+      groups.set(kasUrl, [...(groups.get(kasUrl) || []), attribute]);
+    }
+    if (!groups.size) {
+      groups.set(this.kasEndpoint, []);
+    }
+    const { kasPublicKey, retryPolicy, fetch } = this.clientConfig;
+    const entries = await Promise.all(
+      [...groups].map(async ([kasUrl, group]) => {
+        let key: Pick<KasPublicKeyInfo, 'publicKey' | 'kid'>;
+        if (algorithm !== 'rsa:2048') {
+          key = await fetchKasPublicKey(kasUrl, retryPolicy, fetch, algorithm);
+        } else if (kasUrl === this.kasEndpoint && kasPublicKey) {
+          key = { publicKey: kasPublicKey };
+        } else if (kasUrl === this.kasEndpoint) {
+          // Through the cache, which refreshes the key once it expires or KAS has rotated it
+          key = await fetchKasPublicKey(kasUrl, retryPolicy, fetch);
+        } else {
+          const withKey = group.find(({ pubKey }) => pubKey);
+          key = withKey?.pubKey
+            ? { publicKey: withKey.pubKey, kid: withKey.kid }
+            : await fetchKasPublicKey(kasUrl, retryPolicy, fetch);
+        }
+        const publicKey = await validateKasPubKey(kasUrl, key.publicKey, algorithm);
+        return [kasUrl, { ...key, publicKey }] as const;
+      })
+    );
+    return new Map(entries);
+  }
+
+  /*
+   * Create a TDF instance for a decrypt operation, configured with the session keys, the
+   * entity object, if any, and the signal that cancels it.
+   */
+  async _createDecryptTDF(eo?: EntityObject, signal?: AbortSignal): Promise<TDF> {
+    signal?.throwIfAborted();
+    const sessionKeys = await this.sessionKeys;
+    let entityObject;
+    if (eo && eo.publicKey == sessionKeys.keypair.publicKey) {
+      entityObject = eo;
+    } else if (this.eas) {
+      entityObject = await this.eas.fetchEntityObject({
+        publicKey: sessionKeys.keypair.publicKey,
+      });
+    }
+    const tdf = TDF.create()
+      .setPrivateKey(sessionKeys.keypair.privateKey)
+      .setPublicKey(sessionKeys.keypair.publicKey)
+      .setAuthProvider(this.authProvider)
+      .setSignal(signal)
+      .setRetryPolicy(this.clientConfig.retryPolicy)
+      .setFetch(this.clientConfig.fetch);
+    if (entityObject) {
+      tdf.setEntity(entityObject);
+    }
+    return tdf;
+  }
+
   /*
    * Create a policy object for an encrypt operation.
    */
@@ -484,11 +983,15 @@ export class Client {
 }
 
 export {
+  ArchiveEntry,
   AuthProvider,
   AppIdAuthProvider,
   DecryptParamsBuilder,
+  DecryptRangeParams,
   DecryptSource,
+  EncryptManyParams,
   EncryptParamsBuilder,
   HttpRequest,
+  UpdatePolicyParams,
   fromDataSource,
 };
@@ -1,5 +1,7 @@
 export class TdfError extends Error {
   override name = 'TdfError';
+  // The index of the payload segment that failed, for errors raised while reading one
+  segmentIndex?: number;
 
   constructor(message: string) {
     super(message);
@@ -19,6 +21,11 @@ export class KasUpsertError extends TdfError {
   override name = 'KasUpsertError';
 }
 
+// KAS does not hold the key that the upserted key was wrapped with, usually after a key rotation
+export class KasKeyRotatedError extends KasUpsertError {
+  override name = 'KasKeyRotatedError';
+}
+
 export class KeyAccessError extends TdfError {
   override name = 'KeyAccessError';
 }
@@ -0,0 +1,182 @@
+import { base64 } from '../../src/encodings/index.js';
+import { NanoTDF } from '../../src/nanotdf/index.js';
+import CipherEnum from '../../src/nanotdf/enum/CipherEnum.js';
+import CurveNameEnum from '../../src/nanotdf/enum/CurveNameEnum.js';
+import PolicyTypeEnum from '../../src/nanotdf/enum/PolicyTypeEnum.js';
+import EmbeddedPolicy from '../../src/nanotdf/models/Policy/EmbeddedPolicy.js';
+import RemotePolicy from '../../src/nanotdf/models/Policy/RemotePolicy.js';
+import { DEFAULT_SEGMENT_SIZE } from './client/builders.js';
+import { type KeyAccessObject, type Manifest, type Policy } from './models/index.js';
+import { type ArchiveEntry, TDF } from './tdf.js';
+import { type Chunker, ZipReader } from './utils/index.js';
+import { type CompressionCodec } from './utils/compression.js';
+
+/**
+ * What a ciphertext says about its policy without asking KAS. The attributes and dissem list are
+ * only known when the policy is stored in the clear; remote TDF3 policies keep just the uuid.
+ */
+export type PolicySummary = {
+  uuid?: string;
+  dataAttributes?: string[];
+  dissem?: string[];
+};
+
+export type TdfEntryInspection = {
+  index: number;
+  payloadName: string;
+  specVersion?: string;
+  mimeType?: string;
+  // The codec the plaintext was compressed with before it was encrypted
+  compression?: CompressionCodec;
+  kasUrls: string[];
+  keyAccess: Pick<KeyAccessObject, 'type' | 'url' | 'kid'>[];
+  // Number of key shares needed to read the payload, for threshold splits
+  threshold?: number;
+  policy: PolicySummary;
+  cipher: string;
+  segmentCount: number;
+  // The compressed size, for compressed payloads
+  plaintextSize: number;
+  encryptedSize: number;
+  rootSignatureAlgorithm: string;
+  segmentHashAlgorithm: string;
+};
+
+export type TdfInspection = {
+  container: 'zip' | 'html';
+  // One for each payload of the archive, in index order
+  entries: TdfEntryInspection[];
+};
+
+export type NanoTdfInspection = {
+  container: 'nano';
+  // The magic number and version, e.g. `L1L`
+  specVersion: string;
+  kasUrl: string;
+  policyType: 'remote' | 'embeddedText' | 'embeddedEncrypted' | 'embeddedEncryptedPKA';
+  // The url of a remote policy
+  policyUrl?: string;
+  policy: PolicySummary;
+  ecdsaBinding: boolean;
+  ephemeralCurve: string;
+  hasSignature: boolean;
+  signatureCurve?: string;
+  cipher: string;
+  // In bits
+  authTagLength: number;
+  headerSize: number;
+  plaintextSize: number;
+  encryptedSize: number;
+};
+
+export type Inspection = TdfInspection | NanoTdfInspection;
+
+const CURVE_NAMES: Record<CurveNameEnum, string> = {
+  [CurveNameEnum.SECP256R1]: 'secp256r1',
+  [CurveNameEnum.SECP384R1]: 'secp384r1',
+  [CurveNameEnum.SECP521R1]: 'secp521r1',
+};
+
+const CIPHER_NAMES: Record<CipherEnum, string> = {
+  [CipherEnum.AES_256_GCM_64]: 'aes-256-gcm-64',
+  [CipherEnum.AES_256_GCM_96]: 'aes-256-gcm-96',
+  [CipherEnum.AES_256_GCM_104]: 'aes-256-gcm-104',
+  [CipherEnum.AES_256_GCM_112]: 'aes-256-gcm-112',
+  [CipherEnum.AES_256_GCM_120]: 'aes-256-gcm-120',
+  [CipherEnum.AES_256_GCM_128]: 'aes-256-gcm-128',
+};
+
+const POLICY_TYPES: Record<PolicyTypeEnum, NanoTdfInspection['policyType']> = {
+  [PolicyTypeEnum.Remote]: 'remote',
+  [PolicyTypeEnum.EmbeddedText]: 'embeddedText',
+  [PolicyTypeEnum.EmbeddedEncrypted]: 'embeddedEncrypted',
+  [PolicyTypeEnum.EmbeddedEncryptedPKA]: 'embeddedEncryptedPKA',
+};
+
+function summarizePolicy(json: string): PolicySummary {
+  const { uuid, body }: Policy = JSON.parse(json);
+  return {
+    ...(uuid && { uuid }),
+    ...(body && {
+      dataAttributes: body.dataAttributes.map(({ attribute }) => attribute),
+      dissem: body.dissem,
+    }),
+  };
+}
+
+function inspectEntry(
+  { index, payloadName, encryptedSize }: ArchiveEntry,
+  { payload, encryptionInformation }: Manifest
+): TdfEntryInspection {
+  const { keyAccess, splitScheme, integrityInformation, method, policy } = encryptionInformation;
+  const { segments, segmentSizeDefault = DEFAULT_SEGMENT_SIZE } = integrityInformation;
+  return {
+    index,
+    payloadName,
+    ...(payload.schemaVersion && { specVersion: payload.schemaVersion }),
+    ...(payload.mimeType && { mimeType: payload.mimeType }),
+    ...(payload.compression && { compression: payload.compression }),
+    kasUrls: [...new Set(keyAccess.map(({ url }) => url))],
+    keyAccess: keyAccess.map(({ type, url, kid }) => ({ type, url, ...(kid && { kid }) })),
+    ...(splitScheme && { threshold: splitScheme.threshold }),
+    policy: summarizePolicy(base64.decode(policy)),
+    cipher: method.algorithm,
+    segmentCount: segments.length,
+    plaintextSize: segments.reduce(
+      (size, { segmentSize }) => size + (segmentSize ?? segmentSizeDefault),
+      0
+    ),
+    encryptedSize,
+    rootSignatureAlgorithm: integrityInformation.rootSignature.alg,
+    segmentHashAlgorithm: integrityInformation.segmentHashAlg,
+  };
+}
+
+/**
+ * Summarize a zip TDF from its central directory and manifests, without reading its payloads.
+ * @param chunker the zip archive, unwrapped from its html wrapper if it had one
+ * @param container the container the archive came in
+ */
+export async function inspectArchive(
+  chunker: Chunker,
+  container: TdfInspection['container']
+): Promise<TdfInspection> {
+  const zipReader = new ZipReader(chunker);
+  const centralDirectory = await zipReader.getCentralDirectory();
+  const archiveEntries = await TDF.listEntries(chunker);
+  const entries = await Promise.all(
+    archiveEntries.map(async (entry) =>
+      inspectEntry(entry, await zipReader.getManifest(centralDirectory, entry.manifestName))
+    )
+  );
+  return { container, entries };
+}
+
+/**
+ * Summarize a nanoTDF from its header.
+ */
+export function inspectNano(ciphertext: Uint8Array): NanoTdfInspection {
+  const { header, payload } = NanoTDF.from(ciphertext);
+  const policyType = POLICY_TYPES[header.policy.type as PolicyTypeEnum];
+  let policy: PolicySummary = {};
+  if (policyType === 'embeddedText') {
+    policy = summarizePolicy(new TextDecoder().decode((header.policy as EmbeddedPolicy).content));
+  }
+  return {
+    container: 'nano',
+    specVersion: new TextDecoder().decode(header.magicNumberVersion),
+    kasUrl: header.kas.url,
+    policyType,
+    ...(policyType === 'remote' && { policyUrl: (header.policy as RemotePolicy).remotePolicy.url }),
+    policy,
+    ecdsaBinding: header.useECDSABinding,
+    ephemeralCurve: CURVE_NAMES[header.ephemeralCurveName],
+    hasSignature: header.hasSignature,
+    ...(header.hasSignature && { signatureCurve: CURVE_NAMES[header.signatureCurveName] }),
+    cipher: CIPHER_NAMES[header.symmetricCipher],
+    authTagLength: header.authTagLength,
+    headerSize: header.length,
+    plaintextSize: payload.ciphertext.length,
+    encryptedSize: ciphertext.length,
+  };
+}
@@ -7,6 +7,8 @@ export type AttributeObject = {
   attribute: string;
   kasUrl?: string;
   pubKey?: string;
+  // The id KAS gives `pubKey`, recorded in the key access objects it wraps keys for
+  kid?: string;
   displayName?: string;
   isDefault?: boolean;
   jwt?: string;
@@ -20,6 +22,7 @@ const ATTRIBUTE_OBJECT_SCHEMA = {
     displayName: { type: 'string' },
     isDefault: { type: 'boolean' },
     pubKey: { type: 'string' },
+    kid: { type: 'string' },
     kasUrl: { type: 'string' },
     jwt: { type: 'string' },
   },
@@ -1,4 +1,4 @@
-import { keySplit } from '../utils/index.js';
+import { keySplit, shamirSplit } from '../utils/index.js';
 import { base64, hex } from '../../../src/encodings/index.js';
 import { Binary } from '../binary.js';
 import { SymmetricCipher } from '../ciphers/symmetric-cipher-base.js';
@@ -19,9 +19,21 @@ export type Segment = {
   readonly encryptedSegmentSize?: number;
 };
 
+/**
+ * How the key is split across key access objects, if not by XOR, which needs all of them.
+ */
+export type SplitScheme = {
+  readonly type: 'shamir';
+  // Number of key access objects that must be unwrapped to recover the key
+  readonly threshold: number;
+  // The share id of each key access object, in the same order
+  readonly shareIds: number[];
+};
+
 export type EncryptionInformation = {
   readonly type: string;
   readonly keyAccess: KeyAccessObject[];
+  readonly splitScheme?: SplitScheme;
   readonly integrityInformation: {
     readonly rootSignature: {
       alg: string;
@@ -44,10 +56,29 @@ export type EncryptionInformation = {
 export class SplitKey {
   keyAccess: KeyAccess[];
 
-  constructor(public readonly cipher: SymmetricCipher) {
+  /**
+   * @param cipher the payload cipher
+   * @param threshold if set, split the key with Shamir's scheme so that any `threshold` of the
+   * key access objects recover it, instead of requiring all of them
+   */
+  constructor(
+    public readonly cipher: SymmetricCipher,
+    public readonly threshold?: number
+  ) {
     this.keyAccess = [];
   }
 
+  getSplitScheme(): SplitScheme | undefined {
+    if (!this.threshold) {
+      return undefined;
+    }
+    return {
+      type: 'shamir',
+      threshold: this.threshold,
+      shareIds: this.keyAccess.map((_, i) => i + 1),
+    };
+  }
+
   async generateKey(): Promise<KeyInfo> {
     const unwrappedKey = this.cipher.generateKey();
     const unwrappedKeyBinary = Binary.fromString(hex.decode(unwrappedKey));
@@ -69,10 +100,13 @@ export class SplitKey {
   }
 
   async getKeyAccessObjects(policy: Policy, keyInfo: KeyInfo): Promise<KeyAccessObject[]> {
-    const unwrappedKeySplitBuffers = keySplit(
-      keyInfo.unwrappedKeyBinary.asBuffer(),
-      this.keyAccess.length
-    );
+    const unwrappedKeySplitBuffers = this.threshold
+      ? shamirSplit(
+          keyInfo.unwrappedKeyBinary.asBuffer(),
+          this.keyAccess.length,
+          this.threshold
+        ).map(({ share }) => share)
+      : keySplit(keyInfo.unwrappedKeyBinary.asBuffer(), this.keyAccess.length);
 
     const keyAccessObjects = [];
     for (let i = 0; i < this.keyAccess.length; i++) {
@@ -127,6 +161,7 @@ export class SplitKey {
       throw new Error('Uninitialized cipher type');
     }
     const keyAccessObjects = await this.getKeyAccessObjects(policy, keyInfo);
+    const splitScheme = this.getSplitScheme();
 
     // For now we're only concerned with a single (first) key access object
     const policyForManifest = base64.encode(JSON.stringify(policy));
@@ -134,6 +169,7 @@ export class SplitKey {
     return {
       type: 'split',
       keyAccess: keyAccessObjects,
+      ...(splitScheme && { splitScheme }),
       method: {
         algorithm,
         isStreamable: false,
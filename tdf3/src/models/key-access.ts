@@ -1,9 +1,59 @@
 import { Binary } from '../binary.js';
 import { base64, hex } from '../../../src/encodings/index.js';
+import {
+  cryptoPublicToPem,
+  decrypt,
+  encrypt,
+  generateKeyPair,
+  kasPublicKeyToCrypto,
+  keyAgreement,
+} from '../../../src/nanotdf-crypto/index.js';
+import getHkdfSalt from '../../../src/nanotdf/helpers/getHkdfSalt.js';
 import * as cryptoService from '../crypto/index.js';
 import { Policy } from './policy.js';
 
-export type KeyAccessType = 'remote' | 'wrapped';
+export type KeyAccessType = 'remote' | 'wrapped' | 'ec-wrapped';
+
+// Length of the IV that precedes a key wrapped with an agreed key
+const EC_WRAP_IV_LENGTH = 12;
+
+// Agree an AES-GCM key by ECDH and HKDF, salted with the digest of `TDF` as nanoTDF salts with
+// its magic number
+async function ecWrappingKey(privateKey: CryptoKey, publicKey: CryptoKey): Promise<CryptoKey> {
+  return keyAgreement(privateKey, publicKey, await getHkdfSalt(new TextEncoder().encode('TDF')));
+}
+
+/**
+ * Wrap a key with AES-GCM, under a key agreed between the given keys.
+ * @returns the IV followed by the encrypted key and its tag
+ */
+export async function ecWrapKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  key: Uint8Array
+): Promise<Uint8Array> {
+  const wrappingKey = await ecWrappingKey(privateKey, publicKey);
+  const iv = cryptoService.randomBytes(EC_WRAP_IV_LENGTH);
+  const wrapped = new Uint8Array(await encrypt(wrappingKey, key, iv));
+  const result = new Uint8Array(iv.length + wrapped.length);
+  result.set(iv);
+  result.set(wrapped, iv.length);
+  return result;
+}
+
+/**
+ * Unwrap a key wrapped by `ecWrapKey`, with the private key of either side of the agreement and
+ * the public key of the other.
+ */
+export async function ecUnwrapKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  wrapped: Uint8Array
+): Promise<Uint8Array> {
+  const wrappingKey = await ecWrappingKey(privateKey, publicKey);
+  const iv = wrapped.subarray(0, EC_WRAP_IV_LENGTH);
+  return new Uint8Array(await decrypt(wrappingKey, wrapped.subarray(EC_WRAP_IV_LENGTH), iv));
+}
 
 export function isRemote(keyAccessJSON: KeyAccess | KeyAccessObject): boolean {
   return keyAccessJSON.type === 'remote';
@@ -16,7 +66,8 @@ export class Wrapped {
   constructor(
     public readonly url: string,
     public readonly publicKey: string,
-    public readonly metadata: unknown
+    public readonly metadata: unknown,
+    public readonly kid?: string
   ) {}
 
   async write(
@@ -44,6 +95,9 @@ export class Wrapped {
       encryptedMetadata: base64.encode(encryptedMetadataStr),
       policyBinding: base64.encode(policyBinding),
     };
+    if (this.kid) {
+      this.keyAccessObject.kid = this.kid;
+    }
 
     return this.keyAccessObject;
   }
@@ -58,7 +112,8 @@ export class Remote {
   constructor(
     public readonly url: string,
     public readonly publicKey: string,
-    public readonly metadata: unknown
+    public readonly metadata: unknown,
+    public readonly kid?: string
   ) {}
 
   async write(
@@ -88,17 +143,74 @@ export class Remote {
       encryptedMetadata: base64.encode(encryptedMetadataStr),
       policyBinding: base64.encode(policyBinding),
     };
+    if (this.kid) {
+      this.keyAccessObject.kid = this.kid;
+    }
+    return this.keyAccessObject;
+  }
+}
+
+/**
+ * Wraps the key for a KAS EC key, under a key agreed with a new ephemeral key, whose public key
+ * goes in the key access object so that KAS can agree the same key.
+ */
+export class ECWrapped {
+  readonly type = 'ec-wrapped';
+  keyAccessObject?: KeyAccessObject;
+
+  constructor(
+    public readonly url: string,
+    public readonly publicKey: string,
+    public readonly metadata: unknown,
+    public readonly kid?: string
+  ) {}
+
+  async write(
+    policy: Policy,
+    keyBuffer: Uint8Array,
+    encryptedMetadataStr: string
+  ): Promise<KeyAccessObject> {
+    const policyStr = JSON.stringify(policy);
+    const ephemeralKeyPair = await generateKeyPair();
+    const wrappedKey = await ecWrapKey(
+      ephemeralKeyPair.privateKey,
+      await kasPublicKeyToCrypto(this.publicKey),
+      keyBuffer
+    );
+
+    const policyBinding = await cryptoService.hmac(
+      hex.encodeArrayBuffer(keyBuffer),
+      base64.encode(policyStr)
+    );
+
+    this.keyAccessObject = {
+      type: 'ec-wrapped',
+      url: this.url,
+      protocol: 'kas',
+      wrappedKey: base64.encodeArrayBuffer(wrappedKey.buffer),
+      ephemeralPublicKey: await cryptoPublicToPem(ephemeralKeyPair.publicKey),
+      encryptedMetadata: base64.encode(encryptedMetadataStr),
+      policyBinding: base64.encode(policyBinding),
+    };
+    if (this.kid) {
+      this.keyAccessObject.kid = this.kid;
+    }
+
     return this.keyAccessObject;
   }
 }
 
-export type KeyAccess = Remote | Wrapped;
+export type KeyAccess = Remote | Wrapped | ECWrapped;
 
 export type KeyAccessObject = {
   type: KeyAccessType;
   url: string;
   protocol: 'kas';
+  // The id of the KAS key that wrapped the key, if KAS gave one
+  kid?: string;
   wrappedKey?: string;
+  // PEM of the ephemeral public key that an `ec-wrapped` key was wrapped with
+  ephemeralPublicKey?: string;
   policyBinding?: string;
   encryptedMetadata?: string;
 };
@@ -1,3 +1,6 @@
+import Ajv from 'ajv';
+import { TdfCorruptError } from '../errors.js';
+import { COMPRESSION_CODECS } from '../utils/compression.js';
 import { type Payload } from './payload.js';
 import { type EncryptionInformation } from './encryption-information.js';
 
@@ -5,3 +8,150 @@ export type Manifest = {
   payload: Payload;
   encryptionInformation: EncryptionInformation;
 };
+
+const SEGMENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    hash: { type: 'string' },
+    segmentSize: { type: 'integer', minimum: 0 },
+    encryptedSegmentSize: { type: 'integer', minimum: 0 },
+  },
+  required: ['hash'],
+};
+
+const KEY_ACCESS_OBJECT_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { enum: ['remote', 'wrapped', 'ec-wrapped'] },
+    url: { type: 'string' },
+    protocol: { const: 'kas' },
+    kid: { type: 'string' },
+    wrappedKey: { type: 'string' },
+    ephemeralPublicKey: { type: 'string' },
+    policyBinding: { type: 'string' },
+    encryptedMetadata: { type: 'string' },
+  },
+  required: ['type', 'url', 'protocol'],
+  allOf: [
+    // Only remote key access objects leave their key with KAS
+    {
+      if: { properties: { type: { enum: ['wrapped', 'ec-wrapped'] } } },
+      then: { required: ['wrappedKey', 'policyBinding'] },
+    },
+    {
+      if: { properties: { type: { const: 'ec-wrapped' } } },
+      then: { required: ['ephemeralPublicKey'] },
+    },
+  ],
+};
+
+const ENCRYPTION_INFORMATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    keyAccess: { type: 'array', items: KEY_ACCESS_OBJECT_SCHEMA, minItems: 1 },
+    splitScheme: {
+      type: 'object',
+      properties: {
+        type: { const: 'shamir' },
+        threshold: { type: 'integer', minimum: 1 },
+        shareIds: {
+          type: 'array',
+          items: { type: 'integer', minimum: 1, maximum: 255 },
+          uniqueItems: true,
+        },
+      },
+      required: ['type', 'threshold', 'shareIds'],
+    },
+    integrityInformation: {
+      type: 'object',
+      properties: {
+        rootSignature: {
+          type: 'object',
+          properties: { alg: { type: 'string' }, sig: { type: 'string' } },
+          required: ['alg', 'sig'],
+        },
+        segmentHashAlg: { type: 'string' },
+        segments: { type: 'array', items: SEGMENT_SCHEMA },
+        segmentSizeDefault: { type: 'integer', minimum: 0 },
+        encryptedSegmentSizeDefault: { type: 'integer', minimum: 0 },
+      },
+      required: ['rootSignature', 'segmentHashAlg', 'segments'],
+    },
+    method: {
+      type: 'object',
+      properties: {
+        algorithm: { type: 'string' },
+        isStreamable: { type: 'boolean' },
+        iv: { type: 'string' },
+      },
+      required: ['algorithm', 'iv'],
+    },
+    policy: { type: 'string' },
+  },
+  required: ['type', 'keyAccess', 'integrityInformation', 'method', 'policy'],
+};
+
+const MANIFEST_SCHEMA = {
+  $id: '/Manifest',
+  type: 'object',
+  properties: {
+    payload: {
+      type: 'object',
+      properties: {
+        type: { type: 'string' },
+        url: { type: 'string' },
+        protocol: { type: 'string' },
+        isEncrypted: { type: 'boolean' },
+        schemaVersion: { type: 'string' },
+        mimeType: { type: 'string' },
+        compression: { enum: COMPRESSION_CODECS },
+      },
+      required: ['type', 'url', 'protocol', 'isEncrypted'],
+    },
+    encryptionInformation: ENCRYPTION_INFORMATION_SCHEMA,
+  },
+  required: ['payload', 'encryptionInformation'],
+};
+
+const validator = new Ajv().compile(MANIFEST_SCHEMA);
+
+/**
+ * Parse and validate a manifest, so that a malformed TDF fails before any KAS request.
+ * @param json the manifest JSON
+ * @throws TdfCorruptError naming the JSON path of the first invalid value
+ */
+export function parseManifest(json: string): Manifest {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(json);
+  } catch (e) {
+    const reason = `manifest is not JSON: ${(e as Error).message}`;
+    throw new TdfCorruptError(`Invalid TDF manifest: ${reason}`, e as Error, reason);
+  }
+  if (!validator(manifest)) {
+    const [{ dataPath, keyword, params, message }] = validator.errors ?? [];
+    // Ajv reports missing properties at their parent
+    const missing = (params as { missingProperty?: string }).missingProperty?.replace(/^\./, '');
+    const reason =
+      keyword === 'required'
+        ? `[manifest${dataPath}.${missing}] is missing`
+        : `[manifest${dataPath}] ${message}`;
+    throw new TdfCorruptError(`Invalid TDF manifest: ${reason}`, new Error(reason), reason);
+  }
+  const { keyAccess, splitScheme } = (manifest as Manifest).encryptionInformation;
+  if (splitScheme) {
+    // A share for each key access object, enough of them to meet the threshold
+    const { threshold, shareIds } = splitScheme;
+    let reason;
+    if (shareIds.length !== keyAccess.length) {
+      reason = `[manifest.encryptionInformation.splitScheme.shareIds] has [${shareIds.length}] ids for [${keyAccess.length}] key access objects`;
+    } else if (threshold > keyAccess.length) {
+      reason = `[manifest.encryptionInformation.splitScheme.threshold] is more than the [${keyAccess.length}] key access objects`;
+    }
+    if (reason) {
+      throw new TdfCorruptError(`Invalid TDF manifest: ${reason}`, new Error(reason), reason);
+    }
+  }
+  return manifest as Manifest;
+}
@@ -1,6 +1,12 @@
+import { type CompressionCodec } from '../utils/compression.js';
+
 export type Payload = {
   type: string; // "reference";
   url: string; // "0.payload"
   protocol: string; // "zip"
   isEncrypted: boolean; // true
+  schemaVersion?: string; // "3.0.0"
+  mimeType?: string;
+  // The codec the plaintext was compressed with before it was encrypted
+  compression?: CompressionCodec;
 };
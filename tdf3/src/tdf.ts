@@ -7,44 +7,59 @@ import { EntityObject } from '../../src/tdf/index.js';
 
 import {
   AttributeSet,
+  ECWrapped as KeyAccessECWrapped,
+  ecUnwrapKey,
   isRemote as isRemoteKeyAccess,
+  KeyAccessObject,
   KeyAccessType,
   KeyInfo,
   Manifest,
+  parseManifest,
   Policy,
   Remote as KeyAccessRemote,
   SplitKey,
   UpsertResponse,
   Wrapped as KeyAccessWrapped,
 } from './models/index.js';
-import { base64 } from '../../src/encodings/index.js';
+import { base64, hex } from '../../src/encodings/index.js';
 import * as cryptoService from './crypto/index.js';
 import {
   base64ToBuffer,
   Chunker,
+  crc32,
   fromUrl,
   isAppIdProviderCheck,
   keyMerge,
+  shamirMerge,
   ZipReader,
+  ZipStreamReader,
   ZipWriter,
 } from './utils/index.js';
 import { Binary } from './binary.js';
 import {
   IllegalArgumentError,
   KasDecryptError,
+  KasKeyRotatedError,
   KasUpsertError,
   KeyAccessError,
   KeySyncError,
   ManifestIntegrityError,
   PolicyIntegrityError,
+  TdfCorruptError,
+  TdfError,
   TdfDecryptError,
   TdfPayloadExtractionError,
 } from './errors.js';
-import { htmlWrapperTemplate } from './templates/index.js';
+import { htmlWrapperPrefix, htmlWrapperSuffix, htmlWrapperTemplate } from './templates/index.js';
 
 // configurable
 // TODO: remove dependencies from ciphers so that we can open-source instead of relying on other Virtru libs
-import { AesGcmCipher } from './ciphers/index.js';
+import {
+  getCipher,
+  registerCipher,
+  SymmetricCipher,
+  type SymmetricCipherConstructor,
+} from './ciphers/index.js';
 import {
   AppIdAuthProvider,
   AuthProvider,
@@ -53,11 +68,39 @@ import {
   reqSignature,
 } from '../../src/auth/auth.js';
 import PolicyObject from '../../src/tdf/PolicyObject.js';
+import { type RetryPolicy, withRetry } from '../../src/retry.js';
+import {
+  isUnknownKeyResponse,
+  type KasPublicKeyAlgorithm,
+  type KasPublicKeyInfo,
+  kasKeyCache,
+  parseKasPublicKey,
+} from '../../src/kas-key-cache.js';
+import {
+  cryptoPublicToPem,
+  generateKeyPair,
+  pemPublicToCrypto,
+} from '../../src/nanotdf-crypto/index.js';
+import { fetchAdapter } from './utils/fetch-adapter.js';
 import { DecryptResult } from './crypto/declarations.js';
 import { CentralDirectory } from './utils/zip-reader.js';
+import { type LocalFileHeader } from './utils/zip-stream-reader.js';
+import { type CompressionCodec, compressStream, decompressStream } from './utils/compression.js';
 
-// TODO: input validation on manifest JSON
 const DEFAULT_SEGMENT_SIZE = 1024 * 1024;
+// Number of segments to encrypt at once
+const DEFAULT_CONCURRENCY = 4;
+// Number of segments to fetch with each range request when decrypting
+const DEFAULT_BATCH_SIZE = 32;
+// Number of range requests in flight when decrypting
+const DEFAULT_FETCH_CONCURRENCY = 3;
+// Number of fetched bytes to hold for the consumer of a decrypt stream before pausing. Fits
+// every batch in flight, at the default batch size and concurrency, of default size segments.
+const DEFAULT_MAX_BUFFERED_BYTES = 128 * 1024 * 1024;
+// Number of bytes of encrypted payload to collect before appending them to the spool
+const SPOOL_BATCH_SIZE = 1024 * 1024;
+// Number of bytes of an unchanged entry to copy at a time when rewriting an archive
+const COPY_CHUNK_SIZE = 1024 * 1024;
 
 /**
  * Configuration for TDF3
@@ -67,8 +110,13 @@ export type EncryptionOptions = {
    * Defaults to `split`, the currently only implmented key wrap algorithm.
    */
   type?: string;
-  // Defaults to AES-256-GCM for the encryption.
+  // A registered cipher name, such as `aes-256-cbc-hs256`. Defaults to AES-256-GCM.
   cipher?: string;
+  /**
+   * Number of key access objects needed to recover the key. When set, the key is split with
+   * Shamir's scheme rather than XOR, so the rest of the KASes may be unavailable.
+   */
+  threshold?: number;
 };
 
 export type RcaParams = {
@@ -87,10 +135,31 @@ export type Metadata = {
   policyObject?: PolicyObject;
 };
 
+/**
+ * Why the metadata encrypted into a key access object could not be read, with the url of its KAS.
+ */
+export type KeyAccessMetadataError = {
+  url: string;
+  error: Error;
+};
+
+/**
+ * A payload in a TDF archive, as listed in its central directory.
+ */
+export type ArchiveEntry = {
+  index: number;
+  payloadName: string;
+  manifestName: string;
+  // Size of the encrypted payload, in bytes
+  encryptedSize: number;
+};
+
 export type AddKeyAccess = {
   type: KeyAccessType;
   url?: string;
   publicKey: string;
+  // The id KAS gave the public key, recorded in the key access object
+  kid?: string;
   attributeUrl?: string;
   metadata?: Metadata;
 };
@@ -102,18 +171,277 @@ type EntryInfo = {
   fileByteCount?: number;
 };
 
+/**
+ * Runs `count` of the tasks at a time, starting the next one whenever one fails, until `count`
+ * have succeeded.
+ * @returns the results of the tasks that succeeded
+ * @throws KasDecryptError, with the last failure, once too few tasks remain to succeed
+ */
+async function firstSuccesses<T>(tasks: (() => Promise<T>)[], count: number): Promise<T[]> {
+  const results: T[] = [];
+  let next = 0;
+  let lastError: unknown;
+  // Each worker moves on to the next task only when its current one fails
+  const worker = async () => {
+    while (next < tasks.length) {
+      const task = tasks[next++];
+      try {
+        results.push(await task());
+        return;
+      } catch (e) {
+        lastError = e;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: count }, worker));
+  if (results.length < count) {
+    throw new KasDecryptError(
+      `Unable to unwrap ${count} of ${tasks.length} key shares: [${lastError}]`
+    );
+  }
+  return results;
+}
+
+// Accepts an entry index, or the name of its payload or manifest, such as `1.payload`
+function parseEntryIndex(entry: number | string): number {
+  const match = typeof entry === 'string' && /^(\d+)\.(payload|manifest\.json)$/.exec(entry);
+  const index = match ? Number(match[1]) : entry;
+  if (typeof index !== 'number' || !Number.isSafeInteger(index) || index < 0) {
+    throw new IllegalArgumentError(`Invalid entry [${entry}]`);
+  }
+  return index;
+}
+
+async function readEntryText(zipStreamReader: ZipStreamReader, entry: LocalFileHeader) {
+  const chunks: Buffer[] = [];
+  await zipStreamReader.readEntry(entry, (chunk) => {
+    chunks.push(Buffer.from(chunk));
+  });
+  return Buffer.concat(chunks).toString();
+}
+
+// Checks the manifest from an html wrapper, if any, against the one in the archive
+async function matchWrapperManifest(manifest: Manifest, wrapperManifest?: Promise<string>) {
+  if (!wrapperManifest) {
+    return;
+  }
+  let outerManifest;
+  try {
+    outerManifest = JSON.parse(await wrapperManifest);
+  } catch (e) {
+    throw new TdfPayloadExtractionError('There was a problem extracting the html manifest');
+  }
+  if (JSON.stringify(outerManifest) !== JSON.stringify(manifest)) {
+    throw new ManifestIntegrityError('The html manifest does not match the TDF manifest');
+  }
+}
+
+// The payload and manifest pairs in a central directory, in index order
+function archiveEntries(centralDirectory: CentralDirectory[]): ArchiveEntry[] {
+  const fileNames = new Set(centralDirectory.map(({ fileName }) => fileName));
+  const entries: ArchiveEntry[] = [];
+  for (const { fileName, uncompressedSize } of centralDirectory) {
+    const match = /^(\d+)\.payload$/.exec(fileName);
+    const manifestName = match && `${match[1]}.manifest.json`;
+    if (manifestName && fileNames.has(manifestName)) {
+      entries.push({
+        index: Number(match[1]),
+        payloadName: fileName,
+        manifestName,
+        encryptedSize: uncompressedSize,
+      });
+    }
+  }
+  return entries.sort((a, b) => a.index - b.index);
+}
+
+type EncryptedSegment = {
+  plaintextSize: number;
+  payload: Buffer;
+  hash: string;
+};
+
+type ContentSource = {
+  contentStream: ReadableStream<Uint8Array>;
+  mimeType?: string;
+};
+
 type Chunk = {
+  // Position of the segment in the payload
+  index: number;
   hash: string;
   encryptedOffset: number;
-  encryptedSegmentSize?: number;
-  decryptedChunk: null | DecryptResult;
-  _resolve?: (value: unknown) => void;
+  encryptedSegmentSize: number;
+};
+
+// The segments listed in a manifest, with their offsets in the encrypted payload
+function manifestChunks(manifest: Manifest): Chunk[] {
+  const { segments, encryptedSegmentSizeDefault } =
+    manifest.encryptionInformation.integrityInformation;
+  const cipherSegmentSizeDefault = encryptedSegmentSizeDefault || DEFAULT_SEGMENT_SIZE;
+  const chunks: Chunk[] = [];
+  let encryptedOffset = 0;
+  for (const [
+    index,
+    { hash, encryptedSegmentSize = cipherSegmentSizeDefault },
+  ] of segments.entries()) {
+    chunks.push({ index, hash, encryptedOffset, encryptedSegmentSize });
+    encryptedOffset += encryptedSegmentSize;
+  }
+  return chunks;
+}
+
+/**
+ * How far ahead of the consumer of a decrypt stream segments are fetched and decrypted.
+ */
+export type DecryptScheduling = {
+  // Number of consecutive segments to fetch with each range request. Defaults to 32
+  batchSize?: number;
+  // Number of range requests in flight. Defaults to 3
+  concurrency?: number;
+  // Number of bytes held for the batches in flight, at which fetching pauses: the ciphertext of a
+  // batch until it has been decrypted, then its plaintext until the consumer has read all of it.
+  // A batch is fetched regardless when nothing is buffered. Also the most encrypted payload of a
+  // stream source to hold until its manifest arrives. Defaults to 128MiB
+  maxBufferedBytes?: number;
 };
 
+function checkMaxBufferedBytes(maxBufferedBytes: number) {
+  if (!Number.isFinite(maxBufferedBytes) || maxBufferedBytes <= 0) {
+    throw new IllegalArgumentError(`Invalid buffer size [${maxBufferedBytes}]`);
+  }
+}
+
+/**
+ * Tags an error raised while reading a segment with its index. Errors that are not already typed
+ * are wrapped in `Fallback`.
+ */
+function segmentFailure(
+  error: unknown,
+  segmentIndex: number,
+  Fallback: new (message: string) => TdfError
+): TdfError {
+  const failure =
+    error instanceof TdfError ? error : new Fallback(`${(error as Error)?.message ?? error}`);
+  failure.message = `Segment [${segmentIndex}]: ${failure.message}`;
+  failure.segmentIndex = segmentIndex;
+  return failure;
+}
+
+/**
+ * Fetches and decrypts segments ahead of the consumer of a stream, in batches of consecutive
+ * segments, each fetched with one range request. Fetching happens only when the stream pulls, so
+ * it respects backpressure, and stops `concurrency` batches or `maxBufferedBytes` ahead. A
+ * segment is forgotten as soon as it is returned, and the bytes of a batch are counted until all
+ * of its segments have been. Failures are raised when the failed segment is read, as a
+ * `TdfPayloadExtractionError` if it couldn't be fetched, and otherwise as the typed error from
+ * `decrypt`, or a `TdfDecryptError`, with the index of the segment.
+ * @param chunks the segments to decrypt, in order
+ * @param fetch reads the given bytes of the encrypted payload
+ * @param decrypt checks and decrypts one segment
+ * @returns a function that resolves to each segment and its plaintext in turn, then undefined
+ */
+function scheduleSegments<T extends Chunk>(
+  chunks: T[],
+  fetch: (offset: number, size: number) => Promise<Buffer>,
+  decrypt: (encryptedChunk: Buffer, chunk: T) => Promise<DecryptResult>,
+  {
+    batchSize = DEFAULT_BATCH_SIZE,
+    concurrency = DEFAULT_FETCH_CONCURRENCY,
+    maxBufferedBytes = DEFAULT_MAX_BUFFERED_BYTES,
+  }: DecryptScheduling = {}
+): () => Promise<{ chunk: T; decrypted: DecryptResult } | undefined> {
+  if (!Number.isSafeInteger(batchSize) || batchSize < 1) {
+    throw new IllegalArgumentError(`Invalid batch size [${batchSize}]`);
+  }
+  if (!Number.isSafeInteger(concurrency) || concurrency < 1) {
+    throw new IllegalArgumentError(`Invalid concurrency [${concurrency}]`);
+  }
+  checkMaxBufferedBytes(maxBufferedBytes);
+  let next = 0;
+  let bufferedBytes = 0;
+  // The segments of each batch in flight that the consumer has yet to read, and the bytes the
+  // batch holds: its ciphertext until every segment is decrypted, then their plaintext
+  const batches: {
+    segments: { chunk: T; decrypted: Promise<DecryptResult> }[];
+    bytes: number;
+    released: boolean;
+  }[] = [];
+
+  const schedule = () => {
+    while (next < chunks.length && batches.length < concurrency) {
+      const slice = chunks.slice(next, next + batchSize);
+      const [{ encryptedOffset }] = slice;
+      const size = slice.reduce((total, chunk) => total + chunk.encryptedSegmentSize, 0);
+      if (batches.length && bufferedBytes + size > maxBufferedBytes) {
+        return;
+      }
+      next += slice.length;
+      bufferedBytes += size;
+      const encryptedBatch = fetch(encryptedOffset, size);
+      const batch = {
+        segments: slice.map((chunk) => {
+          const start = chunk.encryptedOffset - encryptedOffset;
+          const decrypted = encryptedBatch.then(
+            (buffer) =>
+              decrypt(buffer.subarray(start, start + chunk.encryptedSegmentSize), chunk).catch(
+                (e) => {
+                  throw segmentFailure(e, chunk.index, TdfDecryptError);
+                }
+              ),
+            (e) => {
+              throw segmentFailure(e, chunk.index, TdfPayloadExtractionError);
+            }
+          );
+          // Failures are raised in order, when the segment is read
+          decrypted.catch(() => undefined);
+          return { chunk, decrypted };
+        }),
+        bytes: size,
+        released: false,
+      };
+      batches.push(batch);
+      Promise.all(batch.segments.map(({ decrypted }) => decrypted)).then(
+        (results) => {
+          if (!batch.released) {
+            const plaintextSize = results.reduce(
+              (total, { payload }) => total + payload.length(),
+              0
+            );
+            bufferedBytes += plaintextSize - batch.bytes;
+            batch.bytes = plaintextSize;
+          }
+        },
+        () => undefined
+      );
+    }
+  };
+
+  return async () => {
+    schedule();
+    const batch = batches[0];
+    if (!batch) {
+      return undefined;
+    }
+    const { chunk, decrypted } = batch.segments.shift() as (typeof batch.segments)[number];
+    if (!batch.segments.length) {
+      batches.shift();
+    }
+    const result = { chunk, decrypted: await decrypted };
+    if (!batch.segments.length && !batch.released) {
+      batch.released = true;
+      bufferedBytes -= batch.bytes;
+    }
+    return result;
+  };
+}
+
 export class TDF extends EventEmitter {
   policy?: Policy;
   mimeType?: string;
   contentStream?: ReadableStream<Uint8Array>;
+  additionalContent: ContentSource[] = [];
+  entryIndex = 0;
   manifest?: Manifest;
   entity?: EntityObject;
   encryptionInformation?: SplitKey;
@@ -125,7 +453,13 @@ export class TDF extends EventEmitter {
   privateKey: string;
   attributeSet: AttributeSet;
   segmentSizeDefault: number;
-  chunkMap: Map<string, Chunk>;
+  concurrency: number;
+  compression?: CompressionCodec;
+  signal?: AbortSignal;
+  retryPolicy?: RetryPolicy;
+  fetch?: typeof globalThis.fetch;
+  // The key pair KAS rewraps `ec-wrapped` keys for, made when first needed
+  ecKeyPair?: Promise<CryptoKeyPair>;
 
   constructor() {
     super();
@@ -136,7 +470,7 @@ export class TDF extends EventEmitter {
     this.integrityAlgorithm = 'HS256';
     this.segmentIntegrityAlgorithm = this.integrityAlgorithm;
     this.segmentSizeDefault = DEFAULT_SEGMENT_SIZE;
-    this.chunkMap = new Map<string, Chunk>();
+    this.concurrency = DEFAULT_CONCURRENCY;
   }
 
   // factory
@@ -144,11 +478,26 @@ export class TDF extends EventEmitter {
     return new TDF();
   }
 
-  static createCipher(type: string) {
-    if (type === 'aes-256-gcm') {
-      return new AesGcmCipher(cryptoService);
+  /**
+   * Create a registered cipher, such as `aes-256-gcm` or `aes-256-cbc-hs256`.
+   * @param type the algorithm name, as written to the manifest, in any case
+   */
+  static createCipher(type: string): SymmetricCipher {
+    const Cipher = getCipher(type);
+    if (!Cipher) {
+      throw new Error(`Unsupported cipher [${type}]`);
     }
-    throw new Error(`Unsupported cipher [${type}]`);
+    return new Cipher(cryptoService);
+  }
+
+  /**
+   * Register a cipher for encrypting with `setEncryption`, and for decrypting TDFs whose
+   * manifest `method.algorithm` names it.
+   * @param algorithm the name the cipher writes to the manifest
+   * @param cipher the SymmetricCipher subclass
+   */
+  static registerCipher(algorithm: string, cipher: SymmetricCipherConstructor) {
+    registerCipher(algorithm, cipher);
   }
 
   static async generatePolicyUuid() {
@@ -177,6 +526,61 @@ export class TDF extends EventEmitter {
     return Buffer.from(fullHtmlString);
   }
 
+  /**
+   * Streaming variant of `wrapHtml`. The payload is base64 encoded as it is read, so the zip is
+   * never held in memory.
+   *
+   * @param payload - The zip archive
+   * @param manifest - This is the manifest. It is serialized once the payload has been read, so it
+   * may be the manifest of a TDF that is still being written
+   * @param transferUrl
+   */
+  static wrapHtmlStream(
+    payload: ReadableStream<Uint8Array>,
+    manifest: Manifest | string,
+    transferUrl: string
+  ): DecoratedReadableStream {
+    const { origin } = new URL(transferUrl);
+    const reader = payload.getReader();
+    // base64 encodes 3 byte groups, so carry any remainder over to the next chunk
+    let remainder = Buffer.alloc(0);
+    let started = false;
+
+    return new DecoratedReadableStream({
+      async pull(controller: ReadableStreamDefaultController) {
+        if (!started) {
+          started = true;
+          controller.enqueue(Buffer.from(htmlWrapperPrefix));
+          return;
+        }
+        const { value, done } = await reader.read();
+        if (done) {
+          const exportManifest: string =
+            typeof manifest === 'string' ? manifest : JSON.stringify(manifest);
+          controller.enqueue(
+            Buffer.from(
+              remainder.toString('base64') +
+                htmlWrapperSuffix({
+                  transferUrl,
+                  transferBaseUrl: origin,
+                  manifest: base64.encode(exportManifest),
+                })
+            )
+          );
+          controller.close();
+          return;
+        }
+        const bytes = Buffer.concat([remainder, value]);
+        const encodable = bytes.length - (bytes.length % 3);
+        remainder = bytes.subarray(encodable);
+        controller.enqueue(Buffer.from(bytes.subarray(0, encodable).toString('base64')));
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    });
+  }
+
   static unwrapHtml(htmlPayload: ArrayBuffer | Uint8Array | Binary | string) {
     let html;
     if (htmlPayload instanceof ArrayBuffer || ArrayBuffer.isView(htmlPayload)) {
@@ -197,8 +601,188 @@ export class TDF extends EventEmitter {
     }
   }
 
+  /**
+   * Streaming variant of `unwrapHtml`. The `data-input` value is base64 decoded as it is read.
+   *
+   * @param html - An html TDF, as written by `wrapHtml` or `wrapHtmlStream`
+   * @return the zip archive, and the content of the `data-manifest` element. The manifest may be
+   * before or after the payload, so it resolves just before the payload stream closes
+   */
+  static unwrapHtmlStream(html: ReadableStream<Uint8Array>): {
+    payload: ReadableStream<Uint8Array>;
+    manifest: Promise<string>;
+  } {
+    const payloadRe = /<input id=['"]?data-input['"]?[^>]*value=['"]?/;
+    const manifestRe = /<input id=['"]?data-manifest['"]?[^>]*value=['"]?([a-zA-Z0-9+/=]+)['"\s>]/;
+    const isBase64Char = (c: number) =>
+      (c >= 0x41 && c <= 0x5a) || // A-Z
+      (c >= 0x61 && c <= 0x7a) || // a-z
+      (c >= 0x30 && c <= 0x39) || // 0-9
+      c === 0x2b || // +
+      c === 0x2f || // /
+      c === 0x3d; // =
+
+    const reader = html.getReader();
+    let resolveManifest: (manifest: string) => void;
+    let rejectManifest: (reason: unknown) => void;
+    const manifest = new Promise<string>((resolve, reject) => {
+      resolveManifest = resolve;
+      rejectManifest = reject;
+    });
+    // Rejections are also reported by the payload stream
+    manifest.catch(() => undefined);
+
+    // html before and after the payload, which is ascii
+    let text = '';
+    // html before the payload, once it has been found
+    let prefix = '';
+    // base64 characters that don't yet form a complete 4 character group
+    let carry = '';
+    let inPrefix = true;
+
+    const read = async () => {
+      const { value, done } = await reader.read();
+      return done ? null : Buffer.from(value);
+    };
+
+    const findManifest = async () => {
+      let match = manifestRe.exec(prefix) ?? manifestRe.exec(text);
+      while (!match) {
+        const chunk = await read();
+        if (!chunk) {
+          throw new TdfPayloadExtractionError('Manifest is missing');
+        }
+        text += chunk.toString('latin1');
+        match = manifestRe.exec(text);
+      }
+      return base64.decode(match[1]);
+    };
+
+    const payload = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          if (inPrefix) {
+            let match = payloadRe.exec(text);
+            // The value must have started; a trailing `value=` may still be followed by a quote
+            while (!match || match.index + match[0].length >= text.length) {
+              const chunk = await read();
+              if (!chunk) {
+                throw new TdfPayloadExtractionError('Payload is missing');
+              }
+              text += chunk.toString('latin1');
+              match = payloadRe.exec(text);
+            }
+            carry = text.substring(match.index + match[0].length);
+            prefix = text.substring(0, match.index);
+            text = '';
+            inPrefix = false;
+          }
+
+          for (;;) {
+            let end = 0;
+            while (end < carry.length && isBase64Char(carry.charCodeAt(end))) {
+              end++;
+            }
+            if (end < carry.length) {
+              // Found the end of the value
+              text = carry.substring(end);
+              if (end) {
+                controller.enqueue(base64ToBuffer(carry.substring(0, end)));
+              }
+              carry = '';
+              resolveManifest(await findManifest());
+              await reader.cancel();
+              controller.close();
+              return;
+            }
+            const encodable = end - (end % 4);
+            if (encodable) {
+              controller.enqueue(base64ToBuffer(carry.substring(0, encodable)));
+              carry = carry.substring(encodable);
+              return;
+            }
+            const chunk = await read();
+            if (!chunk) {
+              throw new TdfPayloadExtractionError(
+                'There was a problem extracting the TDF3 payload'
+              );
+            }
+            carry += chunk.toString('latin1');
+          }
+        } catch (e) {
+          rejectManifest(e);
+          await reader.cancel(e).catch(() => undefined);
+          controller.error(e);
+        }
+      },
+      cancel(reason) {
+        rejectManifest(reason);
+        return reader.cancel(reason);
+      },
+    });
+
+    return { payload, manifest };
+  }
+
+  /**
+   * Checks the zip container of a TDF without decrypting it: the end of central directory and
+   * ZIP64 records, each local file header and data descriptor, and the CRC-32 and size of each
+   * entry, against the central directory.
+   *
+   * @param chunker - A function object for getting data in a series of typed array objects
+   * @throws TdfCorruptError if the container is invalid
+   */
+  static async verifyContainer(chunker: Chunker): Promise<void> {
+    try {
+      const zipReader = new ZipReader(chunker);
+      const centralDirectory = await zipReader.getCentralDirectory();
+      await zipReader.verify(centralDirectory);
+    } catch (e) {
+      const reason = (e as Error).message;
+      throw new TdfCorruptError(`Invalid TDF container: ${reason}`, e as Error, reason);
+    }
+  }
+
+  /**
+   * Checks the `data-manifest` of an html TDF against the manifest of the archive it wraps.
+   *
+   * @param chunker - The zip archive, unwrapped from the html
+   * @param htmlManifest - The content of the `data-manifest` element
+   * @throws ManifestIntegrityError if the manifests do not match
+   */
+  static async verifyHtmlManifest(chunker: Chunker, htmlManifest: Promise<string>): Promise<void> {
+    const zipReader = new ZipReader(chunker);
+    const centralDirectory = await zipReader.getCentralDirectory();
+    const manifest = await zipReader.getManifest(centralDirectory, '0.manifest.json');
+    await matchWrapperManifest(manifest, htmlManifest);
+  }
+
+  /**
+   * Lists the payloads in a TDF archive from its central directory, without reading any of them.
+   *
+   * @param chunker - A function object for getting data in a series of typed array objects
+   */
+  static async listEntries(chunker: Chunker): Promise<ArchiveEntry[]> {
+    const zipReader = new ZipReader(chunker);
+    return archiveEntries(await zipReader.getCentralDirectory());
+  }
+
   // return a PEM-encoded string from the provided KAS server
-  static async getPublicKeyFromKeyAccessServer(url: string): Promise<string> {
+  static async getPublicKeyFromKeyAccessServer(
+    url: string,
+    retryPolicy?: RetryPolicy,
+    fetch?: typeof globalThis.fetch
+  ): Promise<string> {
+    return (await TDF.getPublicKeyInfoFromKeyAccessServer(url, retryPolicy, fetch)).publicKey;
+  }
+
+  // return the PEM-encoded key of the provided KAS server, with its id if KAS gives one
+  static async getPublicKeyInfoFromKeyAccessServer(
+    url: string,
+    retryPolicy?: RetryPolicy,
+    fetch?: typeof globalThis.fetch,
+    algorithm: KasPublicKeyAlgorithm = 'rsa:2048'
+  ): Promise<KasPublicKeyInfo> {
     const httpsRegex = /^https:/;
     if (url.startsWith('http://localhost') || url.startsWith('http://127.0.0.1')) {
       console.warn(`Development KAS URL detected: [${url}]`);
@@ -212,17 +796,33 @@ export class TDF extends EventEmitter {
         `Public key must be requested over a secure channel. Are you running in a secure environment? [${url}]`
       );
     }
-    const kasPublicKeyRequest: { data: string } = await axios.get(`${url}/kas_public_key`);
-    return TDF.extractPemFromKeyString(kasPublicKeyRequest.data);
+    const publicKeyUrl = `${url}/kas_public_key${
+      algorithm === 'rsa:2048' ? '' : `?algorithm=${algorithm}`
+    }`;
+    const kasPublicKeyRequest: { data: unknown } = await withRetry(
+      () => axios.get(publicKeyUrl, { adapter: fetch && fetchAdapter(fetch) }),
+      { url: publicKeyUrl, method: 'GET' },
+      retryPolicy
+    );
+    const { publicKey, kid } = parseKasPublicKey(kasPublicKeyRequest.data);
+    return {
+      url,
+      algorithm,
+      publicKey: await TDF.extractPemFromKeyString(
+        publicKey,
+        algorithm === 'rsa:2048' ? 'RS256' : 'ES256'
+      ),
+      ...(kid && { kid }),
+    };
   }
 
-  static async extractPemFromKeyString(keyString: string): Promise<string> {
+  static async extractPemFromKeyString(keyString: string, alg = 'RS256'): Promise<string> {
     let pem: string = keyString;
 
     // Skip the public key extraction if we find that the KAS url provides a
     // PEM-encoded key instead of certificate
     if (keyString.includes('CERTIFICATE')) {
-      const cert = await importX509(keyString, 'RS256', { extractable: true });
+      const cert = await importX509(keyString, alg, { extractable: true });
       pem = await exportSPKI(cert);
     }
 
@@ -271,11 +871,20 @@ export class TDF extends EventEmitter {
    * @returns
    */
   setEncryption(opts: EncryptionOptions) {
+    const { threshold } = opts;
+    if (threshold !== undefined && (!Number.isSafeInteger(threshold) || threshold < 1)) {
+      throw new IllegalArgumentError(`Invalid threshold [${threshold}]`);
+    }
     switch (opts.type) {
+      case undefined:
       case 'split':
-      default:
-        this.encryptionInformation = new SplitKey(TDF.createCipher(opts.cipher || 'aes-256-gcm'));
+        this.encryptionInformation = new SplitKey(
+          TDF.createCipher(opts.cipher || 'aes-256-gcm'),
+          opts.threshold
+        );
         break;
+      default:
+        throw new IllegalArgumentError(`Unsupported key wrap type [${opts.type}]`);
     }
     return this;
   }
@@ -293,7 +902,7 @@ export class TDF extends EventEmitter {
    * @param  {String? Object?} options.metadata - Metadata. Appears to be dead code.
    * @return {<TDF>}- this instance
    */
-  async addKeyAccess({ type, url, publicKey, attributeUrl, metadata }: AddKeyAccess) {
+  async addKeyAccess({ type, url, publicKey, kid, attributeUrl, metadata }: AddKeyAccess) {
     // TODO - run down metadata parameter. Clean it out if it isn't used this way anymore.
 
     /** Internal function to keep it DRY */
@@ -301,13 +910,16 @@ export class TDF extends EventEmitter {
       type: KeyAccessType,
       kasUrl: string,
       pubKey: string,
-      metadata?: Metadata
+      metadata?: Metadata,
+      kid?: string
     ) {
       switch (type) {
         case 'wrapped':
-          return new KeyAccessWrapped(kasUrl, pubKey, metadata);
+          return new KeyAccessWrapped(kasUrl, pubKey, metadata, kid);
         case 'remote':
-          return new KeyAccessRemote(kasUrl, pubKey, metadata);
+          return new KeyAccessRemote(kasUrl, pubKey, metadata, kid);
+        case 'ec-wrapped':
+          return new KeyAccessECWrapped(kasUrl, pubKey, metadata, kid);
         default:
           throw new KeyAccessError(`TDF.addKeyAccess: Key access type ${type} is unknown`);
       }
@@ -316,7 +928,7 @@ export class TDF extends EventEmitter {
     /** Another internal function to keep it dry */
     function loadKeyAccess(
       encryptionInformation: SplitKey | undefined,
-      keyAccess: KeyAccessWrapped | KeyAccessRemote
+      keyAccess: KeyAccessWrapped | KeyAccessRemote | KeyAccessECWrapped
     ) {
       if (!encryptionInformation) {
         throw new KeyAccessError('TDF.addKeyAccess: Encryption Information not set');
@@ -324,13 +936,15 @@ export class TDF extends EventEmitter {
       encryptionInformation.keyAccess.push(keyAccess);
     }
 
+    const keyAlg = type === 'ec-wrapped' ? 'ES256' : 'RS256';
+
     // If an attributeUrl is provided try to load with that first.
     if (attributeUrl) {
       const attr = this.attributeSet.get(attributeUrl);
       if (attr && attr.kasUrl && attr.pubKey) {
         loadKeyAccess(
           this.encryptionInformation,
-          createKeyAccess(type, attr.kasUrl, attr.pubKey, metadata)
+          createKeyAccess(type, attr.kasUrl, attr.pubKey, metadata, attr.kid ?? kid)
         );
         return this;
       }
@@ -340,7 +954,13 @@ export class TDF extends EventEmitter {
     if (url && publicKey) {
       loadKeyAccess(
         this.encryptionInformation,
-        createKeyAccess(type, url, await TDF.extractPemFromKeyString(publicKey), metadata)
+        createKeyAccess(
+          type,
+          url,
+          await TDF.extractPemFromKeyString(publicKey, keyAlg),
+          metadata,
+          kid
+        )
       );
       return this;
     }
@@ -352,7 +972,13 @@ export class TDF extends EventEmitter {
       if (pubKey && kasUrl) {
         loadKeyAccess(
           this.encryptionInformation,
-          createKeyAccess(type, kasUrl, await TDF.extractPemFromKeyString(pubKey), metadata)
+          createKeyAccess(
+            type,
+            kasUrl,
+            await TDF.extractPemFromKeyString(pubKey, keyAlg),
+            metadata,
+            defaultAttr.kid ?? kid
+          )
         );
         return this;
       }
@@ -397,6 +1023,26 @@ export class TDF extends EventEmitter {
     return this;
   }
 
+  /**
+   * Sets the number of segments to encrypt at once.
+   */
+  setConcurrency(concurrency: number) {
+    if (!Number.isSafeInteger(concurrency) || concurrency < 1) {
+      throw new IllegalArgumentError(`Invalid concurrency [${concurrency}]`);
+    }
+    this.concurrency = concurrency;
+    return this;
+  }
+
+  /**
+   * Compress each payload with this codec before it is encrypted, and note it in the manifest so
+   * that reads decompress it.
+   */
+  setCompression(compression?: CompressionCodec) {
+    this.compression = compression;
+    return this;
+  }
+
   setIntegrityAlgorithm(integrityAlgorithm: string, segmentIntegrityAlgorithm: string) {
     this.integrityAlgorithm = integrityAlgorithm.toUpperCase();
     this.segmentIntegrityAlgorithm = (
@@ -411,6 +1057,56 @@ export class TDF extends EventEmitter {
     return this;
   }
 
+  /**
+   * Add a payload to write after the one from `addContentStream`, as `N.payload` with its own
+   * `N.manifest.json`. All payloads in the archive share the same key and policy.
+   */
+  addAdditionalContentStream(contentStream: ReadableStream<Uint8Array>, mimeType?: string) {
+    this.additionalContent.push({ contentStream, mimeType });
+    return this;
+  }
+
+  /**
+   * Select the payload of a multi-payload archive to read, by its index or by the name of its
+   * `N.payload` or `N.manifest.json` entry. Defaults to the first.
+   */
+  setEntry(entry: number | string) {
+    this.entryIndex = parseEntryIndex(entry);
+    return this;
+  }
+
+  /**
+   * Cancel KAS requests, payload fetches and streams when the signal aborts. Cancelled operations
+   * fail with the abort reason, which is an `AbortError` unless the caller gave another.
+   */
+  setSignal(signal?: AbortSignal) {
+    this.signal = signal;
+    return this;
+  }
+
+  /**
+   * Sets how KAS requests are retried after transient failures. Each retry is also emitted as a
+   * `retry` event.
+   */
+  setRetryPolicy(retryPolicy?: RetryPolicy) {
+    this.retryPolicy = retryPolicy;
+    return this;
+  }
+
+  /**
+   * Sends KAS requests with this `fetch` instead of the default HTTP client, for instance to
+   * answer them in-process in tests.
+   */
+  setFetch(fetch?: typeof globalThis.fetch) {
+    this.fetch = fetch;
+    return this;
+  }
+
+  getEcKeyPair(): Promise<CryptoKeyPair> {
+    this.ecKeyPair ??= generateKeyPair();
+    return this.ecKeyPair;
+  }
+
   validatePolicyObject(policy: Policy) {
     const missingFields: string[] = [];
 
@@ -434,6 +1130,7 @@ export class TDF extends EventEmitter {
       isEncrypted: true,
       schemaVersion: '3.0.0',
       ...(this.mimeType && { mimeType: this.mimeType }),
+      ...(this.compression && { compression: this.compression }),
     };
 
     if (!this.policy) {
@@ -488,6 +1185,42 @@ export class TDF extends EventEmitter {
     };
   }
 
+  // POST to a KAS with the retry policy, signing the request again for each attempt
+  async postToKas(url: string, body: unknown, idempotent: boolean) {
+    const { authProvider, retryPolicy, signal, fetch } = this;
+    if (authProvider === undefined) {
+      throw new Error('KAS requests cannot be made without an auth provider');
+    }
+    return withRetry(
+      async () => {
+        const httpReq = await authProvider.withCreds(this.buildRequest('POST', url, body));
+        return axios.post(httpReq.url, httpReq.body, {
+          headers: httpReq.headers,
+          signal,
+          adapter: fetch && fetchAdapter(fetch),
+        });
+      },
+      { url, method: 'POST', idempotent, signal },
+      {
+        ...retryPolicy,
+        onRetry: (event) => {
+          retryPolicy?.onRetry?.(event);
+          this.emit('retry', event);
+        },
+      }
+    );
+  }
+
+  // Forget the cached public key of a KAS that reports it does not hold the key of a request,
+  // so that the next encrypt fetches its current key
+  async forgetUnknownKasKey(e: unknown, { type, url, kid }: KeyAccessObject): Promise<boolean> {
+    if (!axios.isAxiosError(e) || !isUnknownKeyResponse(e.response?.status, e.response?.data)) {
+      return false;
+    }
+    await kasKeyCache.invalidate(url, type === 'ec-wrapped' ? 'ec:secp256r1' : 'rsa:2048', kid);
+    return true;
+  }
+
   // Provide an upsert of key information via each KAS
   // ignoreType if true skips the key access type check when syncing
   async upsert(unsavedManifest: Manifest, ignoreType = false): Promise<UpsertResponse> {
@@ -522,12 +1255,10 @@ export class TDF extends EventEmitter {
         } else {
           body.clientPayloadSignature = await reqSignature(body, pkKeyLike);
         }
-        const httpReq = await this.authProvider.withCreds(this.buildRequest('POST', url, body));
 
         try {
-          const response = await axios.post(httpReq.url, httpReq.body, {
-            headers: httpReq.headers,
-          });
+          // A repeated upsert may store the policy twice, so it is only retried when KAS ignored it
+          const response = await this.postToKas(url, body, false);
 
           // Remove additional properties which were needed to sync, but not that we want to save to
           // the manifest
@@ -544,6 +1275,12 @@ export class TDF extends EventEmitter {
           }
           return response.data;
         } catch (e) {
+          this.signal?.throwIfAborted();
+          if (await this.forgetUnknownKasKey(e, keyAccessObject)) {
+            throw new KasKeyRotatedError(
+              `KAS [${keyAccessObject.url}] does not hold the key the upsert was wrapped with`
+            );
+          }
           throw new KasUpsertError(
             `Unable to perform upsert operation on the KAS: [${e}: ${e}], response: [${e}]`
           );
@@ -565,22 +1302,26 @@ export class TDF extends EventEmitter {
       throw new IllegalArgumentError('No encryption type specified');
     }
     const encryptionInformation = this.encryptionInformation;
+    const { threshold, keyAccess } = encryptionInformation;
+    if (threshold && threshold > keyAccess.length) {
+      throw new IllegalArgumentError(
+        `Threshold [${threshold}] is more than the [${keyAccess.length}] key access objects`
+      );
+    }
     // eslint-disable-next-line @typescript-eslint/no-this-alias
     const self = this;
     if (!byteLimit) {
       byteLimit = Number.MAX_SAFE_INTEGER;
     }
 
-    const entryInfos: EntryInfo[] = [
-      {
-        filename: '0.payload',
-      },
-      {
-        filename: '0.manifest.json',
-      },
+    const contents: ContentSource[] = [
+      { contentStream: this.contentStream, mimeType: this.mimeType },
+      ...this.additionalContent,
     ];
-
-    let currentBuffer = Buffer.alloc(0);
+    const entryInfos: EntryInfo[] = contents.flatMap((_, i) => [
+      { filename: `${i}.payload` },
+      { filename: `${i}.manifest.json` },
+    ]);
 
     let totalByteCount = 0;
     let bytesProcessed = 0;
@@ -615,6 +1356,17 @@ export class TDF extends EventEmitter {
     }
     const upsertResponse = await this.upsert(this.manifest);
 
+    // Every payload shares the key access and policy, but has its own integrity information
+    const manifests = contents.map(({ mimeType }, i) => {
+      if (i === 0) {
+        return manifest;
+      }
+      const entryManifest: Manifest = JSON.parse(JSON.stringify(manifest));
+      entryManifest.payload.url = `${i}.payload`;
+      entryManifest.payload.mimeType = mimeType;
+      return entryManifest;
+    });
+
     // determine default segment size by writing empty buffer
     const { segmentSizeDefault } = this;
     const encryptedBlargh = await this.encryptionInformation.encrypt(
@@ -625,9 +1377,26 @@ export class TDF extends EventEmitter {
     const encryptedSegmentSizeDefault = payloadBuffer.length;
 
     // start writing the content
-    entryInfos[0].filename = '0.payload';
-    entryInfos[0].offset = totalByteCount;
-    const sourceReader = this.contentStream.getReader();
+    let entryIndex = 0;
+    let entryManifest = manifests[0];
+    // Sources are only read, or piped into a compressor, once the upsert has succeeded, so that
+    // a write retried after a rotated KAS key reads them from the start. Segments, and so their
+    // sizes in the manifest, hold the compressed bytes
+    const { compression } = this;
+    const openSource = ({ contentStream }: ContentSource) =>
+      (compression ? compressStream(contentStream, compression) : contentStream).getReader();
+    let sourceReader = openSource(contents[0]);
+    let isSourceDone = false;
+    // The part of the last chunk read from the source that is not yet in a segment
+    let leftover = new Uint8Array(0);
+
+    // Segments are read into a ring of preallocated buffers, one per segment in flight. A buffer is
+    // only read into when fewer segments are in flight, so its previous segment has been enqueued.
+    const { concurrency } = this;
+    const ring = Array.from({ length: concurrency }, () => Buffer.alloc(segmentSizeDefault));
+    let ringIndex = 0;
+    // Segments being encrypted, in payload order
+    const inFlight: Promise<EncryptedSegment>[] = [];
 
     /*
     TODO: Code duplication should be addressed
@@ -638,59 +1407,46 @@ export class TDF extends EventEmitter {
       have been defined, thus not requiring the handlers to be wrapped in a promise.
     */
     const underlingSource = {
+      signal: this.signal,
+
       start: (controller: ReadableStreamDefaultController) => {
-        controller.enqueue(getHeader(entryInfos[0].filename));
-        _countChunk(getHeader(entryInfos[0].filename));
-        crcCounter = 0;
-        fileByteCount = 0;
+        _startEntry(controller, entryInfos[0]);
       },
 
-      pull: async (controller: ReadableStreamDefaultController) => {
-        let isDone;
+      cancel: async (reason: unknown) => {
+        await sourceReader.cancel(reason);
+      },
 
-        while (currentBuffer.length < segmentSizeDefault && !isDone) {
-          const { value, done } = await sourceReader.read();
-          isDone = done;
-          if (value) {
-            currentBuffer = Buffer.concat([currentBuffer, value]);
+      pull: async (controller: ReadableStreamDefaultController) => {
+        while (inFlight.length < concurrency && !isSourceDone) {
+          const segment = await _readSegment();
+          if (segment.length) {
+            const encrypting = _encryptSegment(segment);
+            // Failures are raised in order, when the segment is dequeued
+            encrypting.catch(() => undefined);
+            inFlight.push(encrypting);
           }
         }
 
-        while (
-          currentBuffer.length >= segmentSizeDefault &&
-          !!controller.desiredSize &&
-          controller.desiredSize > 0
-        ) {
-          const segment = currentBuffer.slice(0, segmentSizeDefault);
-          const encryptedSegment = await _encryptAndCountSegment(segment);
-          controller.enqueue(encryptedSegment);
-
-          currentBuffer = currentBuffer.slice(segmentSizeDefault);
-        }
-
-        const isFinalChunkLeft = isDone && currentBuffer.length;
-
-        if (isFinalChunkLeft) {
-          const encryptedSegment = await _encryptAndCountSegment(currentBuffer);
+        const encrypting = inFlight.shift();
+        if (encrypting) {
+          const encryptedSegment = _countSegment(await encrypting);
           controller.enqueue(encryptedSegment);
-          currentBuffer = Buffer.alloc(0);
+          return;
         }
 
-        if (isDone && currentBuffer.length === 0) {
-          entryInfos[0].crcCounter = crcCounter;
-          entryInfos[0].fileByteCount = fileByteCount;
+        if (isSourceDone) {
+          const payloadEntry = entryInfos[2 * entryIndex];
+          const manifestEntry = entryInfos[2 * entryIndex + 1];
+          payloadEntry.crcCounter = crcCounter;
+          payloadEntry.fileByteCount = fileByteCount;
           const payloadDataDescriptor = zipWriter.writeDataDescriptor(crcCounter, fileByteCount);
 
           controller.enqueue(payloadDataDescriptor);
           _countChunk(payloadDataDescriptor);
 
           // prepare the manifest
-          entryInfos[1].filename = '0.manifest.json';
-          entryInfos[1].offset = totalByteCount;
-          controller.enqueue(getHeader(entryInfos[1].filename));
-          _countChunk(getHeader(entryInfos[1].filename));
-          crcCounter = 0;
-          fileByteCount = 0;
+          _startEntry(controller, manifestEntry);
 
           // hash the concat of all hashes
           const payloadSigStr = await self.getSignature(
@@ -698,31 +1454,41 @@ export class TDF extends EventEmitter {
             Binary.fromString(aggregateHash),
             self.integrityAlgorithm
           );
-          manifest.encryptionInformation.integrityInformation.rootSignature.sig =
+          entryManifest.encryptionInformation.integrityInformation.rootSignature.sig =
             base64.encode(payloadSigStr);
-          manifest.encryptionInformation.integrityInformation.rootSignature.alg =
+          entryManifest.encryptionInformation.integrityInformation.rootSignature.alg =
             self.integrityAlgorithm;
 
-          manifest.encryptionInformation.integrityInformation.segmentSizeDefault =
+          entryManifest.encryptionInformation.integrityInformation.segmentSizeDefault =
             segmentSizeDefault;
-          manifest.encryptionInformation.integrityInformation.encryptedSegmentSizeDefault =
+          entryManifest.encryptionInformation.integrityInformation.encryptedSegmentSizeDefault =
             encryptedSegmentSizeDefault;
-          manifest.encryptionInformation.integrityInformation.segmentHashAlg =
+          entryManifest.encryptionInformation.integrityInformation.segmentHashAlg =
             self.segmentIntegrityAlgorithm;
-          manifest.encryptionInformation.integrityInformation.segments = [];
 
-          manifest.encryptionInformation.method.isStreamable = true;
+          entryManifest.encryptionInformation.method.isStreamable = true;
 
           // write the manifest
-          const manifestBuffer = Buffer.from(JSON.stringify(manifest));
+          const manifestBuffer = Buffer.from(JSON.stringify(entryManifest));
           controller.enqueue(manifestBuffer);
           _countChunk(manifestBuffer);
-          entryInfos[1].crcCounter = crcCounter;
-          entryInfos[1].fileByteCount = fileByteCount;
+          manifestEntry.crcCounter = crcCounter;
+          manifestEntry.fileByteCount = fileByteCount;
           const manifestDataDescriptor = zipWriter.writeDataDescriptor(crcCounter, fileByteCount);
           controller.enqueue(manifestDataDescriptor);
           _countChunk(manifestDataDescriptor);
 
+          // move on to the next payload, if any
+          entryIndex += 1;
+          if (entryIndex < contents.length) {
+            aggregateHash = '';
+            entryManifest = manifests[entryIndex];
+            sourceReader = openSource(contents[entryIndex]);
+            isSourceDone = false;
+            _startEntry(controller, entryInfos[2 * entryIndex]);
+            return;
+          }
+
           // write the central directory out
           const centralDirectoryByteCount = totalByteCount;
           for (let i = 0; i < entryInfos.length; i++) {
@@ -763,8 +1529,13 @@ export class TDF extends EventEmitter {
     return plaintextStream;
 
     // nested helper fn's
-    function getHeader(filename: string) {
-      return zipWriter.getLocalFileHeader(filename, 0, 0, 0);
+    function _startEntry(controller: ReadableStreamDefaultController, entryInfo: EntryInfo) {
+      entryInfo.offset = totalByteCount;
+      const header = zipWriter.getLocalFileHeader(entryInfo.filename, 0, 0, 0);
+      controller.enqueue(header);
+      _countChunk(header);
+      crcCounter = 0;
+      fileByteCount = 0;
     }
 
     function _countChunk(chunk: string | Buffer) {
@@ -772,12 +1543,33 @@ export class TDF extends EventEmitter {
       if (totalByteCount > byteLimit) {
         throw new Error(`Safe byte limit (${byteLimit}) exceeded`);
       }
-      // FIXME buffer-crc32
-      // crcCounter = crc32.unsigned(chunk, crcCounter);
+      crcCounter = crc32(typeof chunk === 'string' ? Buffer.from(chunk) : chunk, crcCounter);
       fileByteCount += chunk.length;
     }
 
-    async function _encryptAndCountSegment(chunk: Buffer) {
+    // Fill the next buffer of the ring from the source, up to a segment
+    async function _readSegment(): Promise<Buffer> {
+      const buffer = ring[ringIndex];
+      ringIndex = (ringIndex + 1) % ring.length;
+      let length = 0;
+      while (length < segmentSizeDefault) {
+        if (!leftover.length) {
+          const { value, done } = await sourceReader.read();
+          if (done) {
+            isSourceDone = true;
+            break;
+          }
+          leftover = value;
+        }
+        const copied = Math.min(leftover.length, segmentSizeDefault - length);
+        buffer.set(leftover.subarray(0, copied), length);
+        leftover = leftover.subarray(copied);
+        length += copied;
+      }
+      return buffer.subarray(0, length);
+    }
+
+    async function _encryptSegment(chunk: Buffer): Promise<EncryptedSegment> {
       bytesProcessed += chunk.length;
       if (progressHandler) {
         progressHandler(bytesProcessed);
@@ -787,26 +1579,28 @@ export class TDF extends EventEmitter {
         Binary.fromBuffer(chunk),
         payloadKey || keyInfo.unwrappedKeyBinary
       );
-      const payloadBuffer = encryptedResult.payload.asBuffer();
-      const payloadSigStr = await self.getSignature(
+      const hash = await self.getSignature(
         payloadKey || keyInfo.unwrappedKeyBinary,
         encryptedResult.payload,
         self.segmentIntegrityAlgorithm
       );
+      return { plaintextSize: chunk.length, payload: encryptedResult.payload.asBuffer(), hash };
+    }
 
+    // Record an encrypted segment in the manifest, in payload order
+    function _countSegment({ plaintextSize, payload, hash }: EncryptedSegment) {
       // combined string of all hashes for root signature
-      aggregateHash += payloadSigStr;
+      aggregateHash += hash;
 
-      manifest.encryptionInformation.integrityInformation.segments.push({
-        hash: base64.encode(payloadSigStr),
-        segmentSize: chunk.length === segmentSizeDefault ? undefined : chunk.length,
+      entryManifest.encryptionInformation.integrityInformation.segments.push({
+        hash: base64.encode(hash),
+        segmentSize: plaintextSize === segmentSizeDefault ? undefined : plaintextSize,
         encryptedSegmentSize:
-          payloadBuffer.length === encryptedSegmentSizeDefault ? undefined : payloadBuffer.length,
+          payload.length === encryptedSegmentSizeDefault ? undefined : payload.length,
       });
-      const result = encryptedResult.payload.asBuffer();
-      _countChunk(result);
+      _countChunk(payload);
 
-      return result;
+      return payload;
     }
   }
 
@@ -814,91 +1608,403 @@ export class TDF extends EventEmitter {
   async loadTDFStream(chunker: Chunker) {
     const zipReader = new ZipReader(chunker);
     const centralDirectory = await zipReader.getCentralDirectory();
+    const payloadName = `${this.entryIndex}.payload`;
+    if (!centralDirectory.some(({ fileName }) => fileName === payloadName)) {
+      throw new TdfPayloadExtractionError(`Payload [${payloadName}] is missing`);
+    }
 
-    this.manifest = await zipReader.getManifest(centralDirectory, '0.manifest.json');
-    return { zipReader, centralDirectory };
+    this.manifest = await zipReader.getManifest(
+      centralDirectory,
+      `${this.entryIndex}.manifest.json`
+    );
+    return { zipReader, centralDirectory, payloadName };
   }
 
-  async unwrapKey(manifest: Manifest) {
-    const { keyAccess } = manifest.encryptionInformation;
-    let responseMetadata;
-    const isAppIdProvider = this.authProvider && isAppIdProviderCheck(this.authProvider);
-    // Get key access information to know the KAS URLS
-    // TODO: logic that runs on multiple KAS's
+  /**
+   * updatePolicy
+   *
+   * Rewrites a zip TDF under the policy and key access set on this instance, without
+   * re-encrypting it. The payload key is unwrapped from the current manifest and wrapped again
+   * with policy bindings for the new policy. The payloads are copied as they are, and only the
+   * manifests and central directory are rewritten. Every payload of a multi-payload archive
+   * must share the key, as those written by `encryptMany` do.
+   *
+   * @param chunker - A function object for getting data in a series of typed array objects
+   * @return a stream containing the rewritten TDF
+   */
+  async updatePolicy(chunker: Chunker): Promise<DecoratedReadableStream> {
+    if (!this.policy) {
+      throw new Error(`No policy provided`);
+    }
+    if (!this.encryptionInformation) {
+      throw new IllegalArgumentError('No encryption type specified');
+    }
+    const zipReader = new ZipReader(chunker);
+    const centralDirectory = await zipReader.getCentralDirectory();
+    const manifestNames = archiveEntries(centralDirectory).map(({ manifestName }) => manifestName);
+    if (!manifestNames.length) {
+      throw new TdfPayloadExtractionError('Manifest is missing');
+    }
+    const manifests = await Promise.all(
+      manifestNames.map((name) => zipReader.getManifest(centralDirectory, name))
+    );
 
-    const rewrappedKeys = await Promise.all(
-      keyAccess.map(async (keySplitInfo) => {
-        if (this.authProvider === undefined) {
-          throw new Error('Upsert can be done without auth provider');
-        }
-        const url = `${keySplitInfo.url}/${isAppIdProvider ? '' : 'v2'}/rewrap`;
+    const { reconstructedKeyBinary } = await this.unwrapKey(manifests[0]);
+    for (const manifest of manifests) {
+      await this.validateRootSignature(manifest, reconstructedKeyBinary);
+    }
 
-        const requestBodyStr = JSON.stringify({
-          algorithm: 'RS256',
-          keyAccess: keySplitInfo,
-          policy: manifest.encryptionInformation.policy,
-          clientPublicKey: this.publicKey,
-        });
+    // The key access metadata is encrypted with a share of the key, so with the payload cipher
+    const { keyAccess: newKeyAccess, threshold } = this.encryptionInformation;
+    this.encryptionInformation = new SplitKey(
+      TDF.createCipher(manifests[0].encryptionInformation.method.algorithm),
+      threshold
+    );
+    this.encryptionInformation.keyAccess = newKeyAccess;
+    const keyAccess = await this.encryptionInformation.getKeyAccessObjects(this.policy, {
+      unwrappedKeyBinary: reconstructedKeyBinary,
+      unwrappedKeyIvBinary: await this.encryptionInformation.generateIvBinary(),
+    });
+    const policy = base64.encode(JSON.stringify(this.policy));
+    const updatedManifests = manifests.map((manifest) => ({
+      ...manifest,
+      encryptionInformation: {
+        ...manifest.encryptionInformation,
+        keyAccess,
+        splitScheme: this.encryptionInformation?.getSplitScheme(),
+        policy,
+      },
+    }));
+    this.manifest = updatedManifests[0];
+    const upsertResponse = await this.upsert(this.manifest);
+    // The key access objects are shared, but the upsert may also have shortened the policy
+    for (const manifest of updatedManifests) {
+      manifest.encryptionInformation.policy = this.manifest.encryptionInformation.policy;
+    }
+    const manifestBuffers = new Map(
+      manifestNames.map((name, i) => [name, Buffer.from(JSON.stringify(updatedManifests[i]))])
+    );
 
-        const jwtPayload = { requestBody: requestBodyStr };
-        const pkKeyLike = await importPKCS8(this.privateKey, 'RS256');
-        const signedRequestToken = await reqSignature(isAppIdProvider ? {} : jwtPayload, pkKeyLike);
-
-        let requestBody;
-        if (isAppIdProvider) {
-          requestBody = {
-            keyAccess: keySplitInfo,
-            policy: manifest.encryptionInformation.policy,
-            entity: {
-              ...this.entity,
-              publicKey: this.publicKey,
-            },
-            authToken: signedRequestToken,
-          };
-        } else {
-          requestBody = {
-            signedRequestToken,
-          };
+    const zipWriter = new ZipWriter();
+    const entryInfos: EntryInfo[] = [];
+    let totalByteCount = 0;
+    // The entry whose data is being copied, if any
+    let current: { cdObj: CentralDirectory; entryInfo: EntryInfo; copied: number } | undefined;
+
+    const underlyingSource = {
+      signal: this.signal,
+      pull: async (controller: ReadableStreamDefaultController) => {
+        if (current) {
+          const { cdObj, entryInfo, copied } = current;
+          if (copied < cdObj.uncompressedSize) {
+            const chunk = await zipReader.getPayloadSegment(
+              centralDirectory,
+              cdObj.fileName,
+              copied,
+              Math.min(COPY_CHUNK_SIZE, cdObj.uncompressedSize - copied)
+            );
+            current.copied += chunk.length;
+            _appendData(controller, entryInfo, chunk);
+            return;
+          }
+          _enqueue(
+            controller,
+            zipWriter.writeDataDescriptor(entryInfo.crcCounter || 0, entryInfo.fileByteCount || 0)
+          );
+          current = undefined;
+          return;
+        }
+
+        const cdObj = centralDirectory[entryInfos.length];
+        if (cdObj) {
+          const entryInfo = { filename: cdObj.fileName, offset: totalByteCount };
+          entryInfos.push(entryInfo);
+          _enqueue(controller, zipWriter.getLocalFileHeader(cdObj.fileName, 0, 0, 0));
+          current = { cdObj, entryInfo, copied: 0 };
+          const manifestBuffer = manifestBuffers.get(cdObj.fileName);
+          if (manifestBuffer) {
+            _appendData(controller, entryInfo, manifestBuffer);
+            current.copied = cdObj.uncompressedSize;
+          }
+          return;
         }
 
-        // Create a PoP token by signing the body so KAS knows we actually have a private key
-        // Expires in 60 seconds
-        const httpReq = await this.authProvider.withCreds(
-          this.buildRequest('POST', url, requestBody)
+        // write the central directory out
+        const centralDirectoryByteCount = totalByteCount;
+        for (const entryInfo of entryInfos) {
+          _enqueue(
+            controller,
+            zipWriter.writeCentralDirectoryRecord(
+              entryInfo.fileByteCount || 0,
+              entryInfo.filename,
+              entryInfo.offset || 0,
+              entryInfo.crcCounter || 0,
+              2175008768
+            )
+          );
+        }
+        _enqueue(
+          controller,
+          zipWriter.writeEndOfCentralDirectoryRecord(
+            entryInfos.length,
+            totalByteCount - centralDirectoryByteCount,
+            centralDirectoryByteCount
+          )
         );
+        controller.close();
+      },
+    };
 
-        try {
-          // The response from KAS on a rewrap
-          const {
-            data: { entityWrappedKey, metadata },
-          } = await axios.post(httpReq.url, httpReq.body, { headers: httpReq.headers });
-          responseMetadata = metadata;
+    const outputStream = new DecoratedReadableStream(underlyingSource);
+    outputStream.manifest = this.manifest;
+    if (upsertResponse) {
+      outputStream.upsertResponse = upsertResponse;
+    }
+    return outputStream;
+
+    // nested helper fn's
+    function _enqueue(controller: ReadableStreamDefaultController, chunk: Buffer) {
+      controller.enqueue(chunk);
+      totalByteCount += chunk.length;
+    }
+
+    function _appendData(
+      controller: ReadableStreamDefaultController,
+      entryInfo: EntryInfo,
+      chunk: Buffer
+    ) {
+      _enqueue(controller, chunk);
+      entryInfo.crcCounter = crc32(chunk, entryInfo.crcCounter);
+      entryInfo.fileByteCount = (entryInfo.fileByteCount || 0) + chunk.length;
+    }
+  }
+
+  async unwrapKey(manifest: Manifest) {
+    const { keyAccess, splitScheme } = manifest.encryptionInformation;
+    let responseMetadata;
+    const isAppIdProvider = this.authProvider && isAppIdProviderCheck(this.authProvider);
+    // Get key access information to know the KAS URLS
+
+    const rewrap = async (keySplitInfo: KeyAccessObject) => {
+      this.signal?.throwIfAborted();
+      if (this.authProvider === undefined) {
+        throw new Error('Upsert can be done without auth provider');
+      }
+      const url = `${keySplitInfo.url}/${isAppIdProvider ? '' : 'v2'}/rewrap`;
+      // KAS rewraps EC wrapped keys for an EC key, as it does for nanoTDF
+      const ecKeyPair = keySplitInfo.type === 'ec-wrapped' && (await this.getEcKeyPair());
+      const clientPublicKey = ecKeyPair
+        ? await cryptoPublicToPem(ecKeyPair.publicKey)
+        : this.publicKey;
+
+      const requestBodyStr = JSON.stringify({
+        algorithm: ecKeyPair ? 'ec:secp256r1' : 'RS256',
+        keyAccess: keySplitInfo,
+        policy: manifest.encryptionInformation.policy,
+        clientPublicKey,
+      });
+
+      const jwtPayload = { requestBody: requestBodyStr };
+      const pkKeyLike = await importPKCS8(this.privateKey, 'RS256');
+      const signedRequestToken = await reqSignature(isAppIdProvider ? {} : jwtPayload, pkKeyLike);
+
+      let requestBody;
+      if (isAppIdProvider) {
+        requestBody = {
+          keyAccess: keySplitInfo,
+          policy: manifest.encryptionInformation.policy,
+          entity: {
+            ...this.entity,
+            publicKey: clientPublicKey,
+          },
+          authToken: signedRequestToken,
+        };
+      } else {
+        requestBody = {
+          signedRequestToken,
+        };
+      }
+
+      try {
+        // The response from KAS on a rewrap. The request is signed with a PoP token, so KAS knows
+        // we actually have a private key; rewraps change nothing on KAS, so are safe to retry
+        const {
+          data: { entityWrappedKey, sessionPublicKey, metadata },
+        } = await this.postToKas(url, requestBody, true);
+        responseMetadata = metadata;
+        let decryptedKey: Buffer;
+        if (ecKeyPair) {
+          const unwrapped = await ecUnwrapKey(
+            ecKeyPair.privateKey,
+            await pemPublicToCrypto(sessionPublicKey),
+            new Uint8Array(base64.decodeArrayBuffer(entityWrappedKey))
+          );
+          decryptedKey = Buffer.from(unwrapped);
+        } else {
           const key = Binary.fromString(base64.decode(entityWrappedKey));
           const decryptedKeyBinary = await cryptoService.decryptWithPrivateKey(
             key,
             this.privateKey
           );
-          this.emit('rewrap', metadata);
-          return decryptedKeyBinary.asBuffer();
-        } catch (e) {
-          throw new KasDecryptError(
-            `Unable to decrypt the response from KAS: [${e}: ${e}], response: [${e}]`
-          );
+          decryptedKey = decryptedKeyBinary.asBuffer();
         }
-      })
-    );
+        this.emit('rewrap', metadata);
+        return decryptedKey;
+      } catch (e) {
+        this.signal?.throwIfAborted();
+        await this.forgetUnknownKasKey(e, keySplitInfo);
+        throw new KasDecryptError(
+          `Unable to decrypt the response from KAS: [${e}: ${e}], response: [${e}]`
+        );
+      }
+    };
 
-    // Merge the unwrapped keys from each KAS
-    const reconstructedKey = keyMerge(rewrappedKeys);
+    this.signal?.throwIfAborted();
+    let reconstructedKey;
+    // In key access order, for the splits that were unwrapped
+    const keyAccessMetadata: unknown[] = keyAccess.map(() => undefined);
+    // Nothing read this metadata before, so metadata that other writers encrypted some other way
+    // doesn't fail the decrypt. It is left undefined, and its error reported separately.
+    const keyAccessMetadataErrors: KeyAccessMetadataError[] = [];
+    const readMetadata = (keySplitInfo: KeyAccessObject, split: Uint8Array) =>
+      this.decryptKeyAccessMetadata(manifest, keySplitInfo, split).catch((e) => {
+        keyAccessMetadataErrors.push({ url: keySplitInfo.url, error: e as Error });
+        return undefined;
+      });
+    if (splitScheme) {
+      // Any `threshold` shares will do, so only ask another KAS when one fails
+      const { threshold, shareIds } = splitScheme;
+      const shares = await firstSuccesses(
+        keyAccess.map((keySplitInfo, i) => async () => ({
+          id: shareIds[i],
+          share: await rewrap(keySplitInfo),
+          keySplitInfo,
+        })),
+        threshold
+      ).catch((e) => {
+        // Don't report the shares that were abandoned as failures
+        this.signal?.throwIfAborted();
+        throw e;
+      });
+      for (const { share, keySplitInfo } of shares) {
+        await this.validatePolicyBinding(manifest, keySplitInfo, share);
+        keyAccessMetadata[keyAccess.indexOf(keySplitInfo)] = await readMetadata(
+          keySplitInfo,
+          share
+        );
+      }
+      reconstructedKey = shamirMerge(shares);
+    } else {
+      // Merge the unwrapped keys from each KAS
+      const splits = await Promise.all(keyAccess.map(rewrap));
+      for (const [i, split] of splits.entries()) {
+        await this.validatePolicyBinding(manifest, keyAccess[i], split);
+        keyAccessMetadata[i] = await readMetadata(keyAccess[i], split);
+      }
+      reconstructedKey = keyMerge(splits);
+    }
     const reconstructedKeyBinary = Binary.fromArrayBuffer(reconstructedKey);
 
     return {
       reconstructedKeyBinary,
       metadata: responseMetadata,
+      keyAccessMetadata,
+      keyAccessMetadataErrors,
     };
   }
 
-  async decryptChunk(encryptedChunk: Buffer, reconstructedKeyBinary: Binary, hash: string) {
+  /**
+   * Check that a key split was bound to the policy of the manifest, so that a policy swapped
+   * after encrypt is caught even if KAS released the split. Remote key access objects leave
+   * their binding with KAS, so are not checked.
+   * @param manifest the manifest containing the policy
+   * @param keyAccessObject the key access object the split was unwrapped from
+   * @param split the unwrapped key split
+   */
+  async validatePolicyBinding(
+    manifest: Manifest,
+    { url, policyBinding }: KeyAccessObject,
+    split: Uint8Array
+  ) {
+    if (!policyBinding) {
+      return;
+    }
+    const binding = await cryptoService.hmac(
+      hex.encodeArrayBuffer(split),
+      manifest.encryptionInformation.policy
+    );
+    if (policyBinding !== base64.encode(binding)) {
+      throw new PolicyIntegrityError(`Policy binding mismatch for the key split of [${url}]`);
+    }
+  }
+
+  /**
+   * Decrypt the metadata that the writer of a key access object encrypted with its key split,
+   * which KAS cannot read. Metadata that is not JSON is returned as it was written.
+   * @param manifest the manifest, for the cipher of the metadata
+   * @param keyAccessObject the key access object the split was unwrapped from
+   * @param split the unwrapped key split
+   * @return the metadata, or undefined if there is none
+   */
+  async decryptKeyAccessMetadata(
+    manifest: Manifest,
+    { url, encryptedMetadata }: KeyAccessObject,
+    split: Uint8Array
+  ): Promise<unknown> {
+    if (!encryptedMetadata) {
+      return undefined;
+    }
+    const cipher = TDF.createCipher(manifest.encryptionInformation.method.algorithm.toLowerCase());
+    let metadataStr: string;
+    try {
+      const { ciphertext } = JSON.parse(base64.decode(encryptedMetadata));
+      const { payload } = await cipher.decrypt(
+        Binary.fromString(base64.decode(ciphertext)).asBuffer(),
+        Binary.fromBuffer(Buffer.from(split))
+      );
+      metadataStr = new TextDecoder().decode(payload.asArrayBuffer());
+    } catch (e) {
+      throw new ManifestIntegrityError(`Failed to decrypt the key access metadata of [${url}]`);
+    }
+    if (!metadataStr) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(metadataStr);
+    } catch (e) {
+      return metadataStr;
+    }
+  }
+
+  /**
+   * Check the root signature, an integrity hash over the concatenated segment hashes.
+   * @param manifest the manifest containing the segment list and signature
+   * @param reconstructedKeyBinary the payload key
+   */
+  async validateRootSignature(manifest: Manifest, reconstructedKeyBinary: Binary) {
+    const { rootSignature, segments } = manifest.encryptionInformation.integrityInformation;
+    const payloadSigStr = await this.getSignature(
+      reconstructedKeyBinary,
+      Binary.fromString(segments.map((segment) => base64.decode(segment.hash)).join('')),
+      rootSignature.alg
+    );
+
+    if (rootSignature.sig !== base64.encode(payloadSigStr)) {
+      throw new ManifestIntegrityError('Failed integrity check on root signature');
+    }
+  }
+
+  /**
+   * Check the hash of a single encrypted segment and decrypt it.
+   * @param encryptedChunk the encrypted segment, including its iv and auth tag
+   * @param reconstructedKeyBinary the payload key
+   * @param hash the expected segment hash, as stored in the manifest
+   */
+  async decryptSegment(
+    encryptedChunk: Buffer,
+    reconstructedKeyBinary: Binary,
+    hash: string
+  ): Promise<DecryptResult> {
     if (!this.manifest) {
       throw new Error('Missing manifest information');
     }
@@ -918,69 +2024,7 @@ export class TDF extends EventEmitter {
     if (hash !== base64.encode(segmentHashStr)) {
       throw new ManifestIntegrityError('Failed integrity check on segment hash');
     }
-    const decryptedChunk = await cipher.decrypt(encryptedChunk, reconstructedKeyBinary);
-    const chunkMapElement = this.chunkMap.get(hash);
-    if (chunkMapElement) {
-      chunkMapElement.decryptedChunk = decryptedChunk;
-    }
-  }
-
-  async updateChunkQueue(
-    chunkMap: Chunk[],
-    centralDirectory: CentralDirectory[],
-    zipReader: ZipReader,
-    reconstructedKeyBinary: Binary
-  ) {
-    const requestsInParallelCount = 100;
-    let requests = [];
-    const maxLength = 3;
-
-    for (let i = 0; i < chunkMap.length; i += requestsInParallelCount) {
-      if (requests.length === maxLength) {
-        await Promise.all(requests);
-        requests = [];
-      }
-      requests.push(
-        (async () => {
-          try {
-            const slice = chunkMap.slice(i, i + requestsInParallelCount);
-            const bufferSize = slice.reduce(
-              (currentVal, { encryptedSegmentSize }) =>
-                currentVal + (encryptedSegmentSize as number),
-              0
-            );
-            let buffer: Buffer | null = await zipReader.getPayloadSegment(
-              centralDirectory,
-              '0.payload',
-              slice[0].encryptedOffset,
-              bufferSize
-            );
-            slice.forEach(({ encryptedOffset, encryptedSegmentSize }, index) => {
-              const offset =
-                slice[0].encryptedOffset === 0
-                  ? encryptedOffset
-                  : encryptedOffset % slice[0].encryptedOffset;
-              const encryptedChunk = (buffer as Buffer).subarray(
-                offset,
-                offset + (encryptedSegmentSize as number)
-              );
-              this.decryptChunk(encryptedChunk, reconstructedKeyBinary, slice[index]['hash']).catch(
-                () => {
-                  throw new TdfDecryptError(
-                    'Error decrypting payload. This suggests the key used to decrypt the payload is not correct.'
-                  );
-                }
-              );
-            });
-            buffer = null;
-          } catch (e) {
-            throw new TdfDecryptError(
-              'Error decrypting payload. This suggests the key used to decrypt the payload is not correct.'
-            );
-          }
-        })()
-      );
-    }
+    return cipher.decrypt(encryptedChunk, reconstructedKeyBinary);
   }
 
   /**
@@ -990,14 +2034,16 @@ export class TDF extends EventEmitter {
    * @param {Object} rcaParams - Optional field to specify if file is stored on S3
    * @param progressHandler
    * @param fileStreamServiceWorker
+   * @param scheduling - How far ahead of the consumer to fetch and decrypt segments
    */
   async readStream(
     chunker: Chunker,
     rcaParams?: RcaParams,
     progressHandler?: (bytesProcessed: number) => void,
-    fileStreamServiceWorker?: string
+    fileStreamServiceWorker?: string,
+    scheduling?: DecryptScheduling
   ) {
-    const { zipReader, centralDirectory } = await this.loadTDFStream(chunker);
+    const { zipReader, centralDirectory, payloadName } = await this.loadTDFStream(chunker);
     if (!this.manifest) {
       throw new Error('Missing manifest data');
     }
@@ -1005,7 +2051,7 @@ export class TDF extends EventEmitter {
     const { segments } = this.manifest.encryptionInformation.integrityInformation;
     const unwrapResult = await this.unwrapKey(this.manifest);
     let { reconstructedKeyBinary } = unwrapResult;
-    const { metadata } = unwrapResult;
+    const { metadata, keyAccessMetadata, keyAccessMetadataErrors } = unwrapResult;
 
     const defaultSegmentSize =
       this.manifest?.encryptionInformation?.integrityInformation?.encryptedSegmentSizeDefault;
@@ -1023,96 +2069,52 @@ export class TDF extends EventEmitter {
     }
 
     // check the combined string of hashes
-    const integrityAlgorithmType =
-      this.manifest.encryptionInformation.integrityInformation.rootSignature.alg;
-    const payloadSigStr = await this.getSignature(
-      reconstructedKeyBinary,
-      Binary.fromString(segments.map((segment) => base64.decode(segment.hash)).join('')),
-      integrityAlgorithmType
-    );
-
-    if (
-      this.manifest.encryptionInformation.integrityInformation.rootSignature.sig !==
-      base64.encode(payloadSigStr)
-    ) {
-      throw new ManifestIntegrityError('Failed integrity check on root signature');
+    await this.validateRootSignature(this.manifest, reconstructedKeyBinary);
+
+    const chunks: Chunk[] = [];
+    let encryptedOffset = 0;
+    for (const [
+      index,
+      { hash, encryptedSegmentSize = encryptedSegmentSizeDefault },
+    ] of segments.entries()) {
+      chunks.push({ index, hash, encryptedOffset, encryptedSegmentSize });
+      encryptedOffset += encryptedSegmentSize;
     }
-
-    let mapOfRequestsOffset = 0;
-    this.chunkMap = new Map(
-      segments.map(({ hash, encryptedSegmentSize = encryptedSegmentSizeDefault }) => {
-        const result = new Proxy(
-          {
-            hash,
-            encryptedOffset: mapOfRequestsOffset,
-            encryptedSegmentSize,
-            decryptedChunk: null,
-          },
-          {
-            set: function (
-              obj: Chunk,
-              prop: keyof Chunk,
-              value: (value: unknown) => void | null | DecryptResult
-            ) {
-              if (prop === 'decryptedChunk' && obj._resolve) {
-                obj._resolve(value);
-              }
-              return Reflect.set(obj, prop, value);
-            },
-            get: function (obj: Chunk, prop) {
-              if (prop === 'decryptedChunk') {
-                return new Promise((resolve) => {
-                  if (obj.decryptedChunk) {
-                    resolve(obj.decryptedChunk);
-                  } else {
-                    obj._resolve = resolve;
-                  }
-                });
-              }
-              return obj[prop as keyof Chunk];
-            },
-          }
-        );
-        mapOfRequestsOffset += encryptedSegmentSize || encryptedSegmentSizeDefault;
-        return [hash, result];
-      })
+    const nextSegment = scheduleSegments(
+      chunks,
+      (offset, size) => zipReader.getPayloadSegment(centralDirectory, payloadName, offset, size),
+      (encryptedChunk, { hash }) =>
+        this.decryptSegment(encryptedChunk, reconstructedKeyBinary, hash),
+      scheduling
     );
 
-    this.updateChunkQueue(
-      Array.from(this.chunkMap.values()),
-      centralDirectory,
-      zipReader,
-      reconstructedKeyBinary
-    ).catch((e) => {
-      throw new Error(e);
-    });
-
     let progress = 0;
     const underlyingSource = {
+      signal: this.signal,
       pull: async (controller: ReadableStreamDefaultController) => {
-        if (this.chunkMap.size === 0) {
+        const segment = await nextSegment();
+        if (!segment) {
           controller.close();
           return;
         }
 
-        const [hash, chunk] = this.chunkMap.entries().next().value;
-        const decryptedSegment = await chunk.decryptedChunk;
-
-        controller.enqueue(decryptedSegment.payload.asBuffer());
-        progress += chunk.encryptedSegmentSize;
+        controller.enqueue(segment.decrypted.payload.asBuffer());
+        progress += segment.chunk.encryptedSegmentSize;
         if (progressHandler) {
           progressHandler(progress);
         }
-
-        this.chunkMap.delete(hash);
       },
       ...(fileStreamServiceWorker && { fileStreamServiceWorker }),
     };
 
     const outputStream = new DecoratedReadableStream(underlyingSource);
+    const { compression } = this.manifest.payload;
+    if (compression) {
+      outputStream.stream = decompressStream(outputStream.stream, compression);
+    }
 
     if (rcaParams && rcaParams.wu) {
-      const res = await axios.head(rcaParams.wu);
+      const res = await axios.head(rcaParams.wu, { signal: this.signal });
 
       const length = parseInt(res?.headers?.['content-length'] as string, 10);
 
@@ -1128,6 +2130,8 @@ export class TDF extends EventEmitter {
       outputStream.emit('manifest', this.manifest);
     }
     outputStream.metadata = metadata;
+    outputStream.keyAccessMetadata = keyAccessMetadata;
+    outputStream.keyAccessMetadataErrors = keyAccessMetadataErrors;
 
     // If the output stream can emit events, then emit the rewrap response.
     if (outputStream.emit) {
@@ -1135,4 +2139,478 @@ export class TDF extends EventEmitter {
     }
     return outputStream;
   }
+
+  /**
+   * readRange
+   *
+   * Decrypts only the plaintext bytes in the range [start, end), fetching just the segments
+   * that overlap it. The root signature and the hash of every fetched segment are still checked.
+   *
+   * Offsets into a compressed payload can't be mapped to segments, so ranges of compressed
+   * payloads are rejected; decrypt those with `readStream`.
+   *
+   * @param chunker - A function object for getting data in a series of typed array objects
+   * @param start - First plaintext byte to return
+   * @param end - Index after the last plaintext byte to return. Defaults to the end of the payload
+   * @param progressHandler
+   * @param scheduling - How far ahead of the consumer to fetch and decrypt segments
+   */
+  async readRange(
+    chunker: Chunker,
+    start: number,
+    end?: number,
+    progressHandler?: (bytesProcessed: number) => void,
+    scheduling?: DecryptScheduling
+  ) {
+    const { zipReader, centralDirectory, payloadName } = await this.loadTDFStream(chunker);
+    if (!this.manifest) {
+      throw new Error('Missing manifest data');
+    }
+
+    const { segments, segmentSizeDefault, encryptedSegmentSizeDefault } =
+      this.manifest.encryptionInformation.integrityInformation;
+    const plaintextSegmentSizeDefault = segmentSizeDefault || DEFAULT_SEGMENT_SIZE;
+    const cipherSegmentSizeDefault = encryptedSegmentSizeDefault || DEFAULT_SEGMENT_SIZE;
+    const plaintextSize = segments.reduce(
+      (total, { segmentSize = plaintextSegmentSizeDefault }) => total + segmentSize,
+      0
+    );
+
+    if (!Number.isSafeInteger(start) || start < 0) {
+      throw new IllegalArgumentError(`Invalid range start [${start}]`);
+    }
+    const { compression } = this.manifest.payload;
+    if (compression) {
+      throw new IllegalArgumentError(
+        `Ranges of compressed payloads can't be decrypted [${compression}]; decrypt the whole payload instead`
+      );
+    }
+    if (end === undefined || end > plaintextSize) {
+      end = plaintextSize;
+    }
+    if (!Number.isSafeInteger(end) || end < start) {
+      throw new IllegalArgumentError(`Invalid range [${start}, ${end})`);
+    }
+
+    // Select the segments overlapping [start, end)
+    const rangeEnd = end;
+    const selected: (Chunk & { plaintextOffset: number; segmentSize: number })[] = [];
+    let plaintextOffset = 0;
+    let encryptedOffset = 0;
+    for (const [
+      index,
+      {
+        hash,
+        segmentSize = plaintextSegmentSizeDefault,
+        encryptedSegmentSize = cipherSegmentSizeDefault,
+      },
+    ] of segments.entries()) {
+      if (plaintextOffset < rangeEnd && plaintextOffset + segmentSize > start) {
+        selected.push({
+          index,
+          hash,
+          encryptedOffset,
+          encryptedSegmentSize,
+          plaintextOffset,
+          segmentSize,
+        });
+      }
+      plaintextOffset += segmentSize;
+      encryptedOffset += encryptedSegmentSize;
+    }
+
+    const { reconstructedKeyBinary, metadata, keyAccessMetadata, keyAccessMetadataErrors } =
+      await this.unwrapKey(this.manifest);
+    await this.validateRootSignature(this.manifest, reconstructedKeyBinary);
+
+    const nextSegment = scheduleSegments(
+      selected,
+      (offset, size) => zipReader.getPayloadSegment(centralDirectory, payloadName, offset, size),
+      (encryptedChunk, { hash }) =>
+        this.decryptSegment(encryptedChunk, reconstructedKeyBinary, hash),
+      scheduling
+    );
+
+    let progress = 0;
+    const underlyingSource = {
+      signal: this.signal,
+      pull: async (controller: ReadableStreamDefaultController) => {
+        const next = await nextSegment();
+        if (!next) {
+          controller.close();
+          return;
+        }
+
+        const { chunk: segment } = next;
+        const plaintext = next.decrypted.payload.asBuffer();
+        controller.enqueue(
+          plaintext.subarray(
+            Math.max(start - segment.plaintextOffset, 0),
+            Math.min(rangeEnd - segment.plaintextOffset, segment.segmentSize)
+          )
+        );
+        progress += segment.encryptedSegmentSize;
+        if (progressHandler) {
+          progressHandler(progress);
+        }
+      },
+    };
+
+    const outputStream = new DecoratedReadableStream(underlyingSource);
+    outputStream.contentLength = rangeEnd - start;
+    outputStream.manifest = this.manifest;
+    outputStream.emit('manifest', this.manifest);
+    outputStream.metadata = metadata;
+    outputStream.keyAccessMetadata = keyAccessMetadata;
+    outputStream.keyAccessMetadataErrors = keyAccessMetadataErrors;
+    outputStream.emit('rewrap', metadata);
+    return outputStream;
+  }
+
+  /**
+   * readForwardStream
+   *
+   * Decrypts a zip TDF from a stream that can only be read front to back, such as a piped
+   * upload. The local file headers written by `ZipWriter` are parsed as the bytes arrive, so the
+   * archive is never collected into a single buffer.
+   *
+   * When the manifest comes before the payload, the key is unwrapped and the root signature
+   * checked first, and each segment is checked and decrypted as it arrives. `ZipWriter` writes the
+   * manifest after the payload, and nothing can be decrypted without its key access, so the
+   * encrypted payload is held until the manifest arrives, up to `maxBufferedBytes`. Larger
+   * payloads fail with a `TdfPayloadExtractionError` rather than filling memory.
+   *
+   * @param stream - The TDF3 zip archive
+   * @param progressHandler
+   * @param fileStreamServiceWorker
+   * @param wrapperManifest - The manifest from an html wrapper around the archive, which must
+   * match the one inside it
+   * @param maxBufferedBytes - The most encrypted payload to hold until its manifest arrives.
+   * Defaults to 128MiB
+   */
+  async readForwardStream(
+    stream: ReadableStream<Uint8Array>,
+    progressHandler?: (bytesProcessed: number) => void,
+    fileStreamServiceWorker?: string,
+    wrapperManifest?: Promise<string>,
+    maxBufferedBytes = DEFAULT_MAX_BUFFERED_BYTES
+  ) {
+    checkMaxBufferedBytes(maxBufferedBytes);
+    const zipStreamReader = new ZipStreamReader(stream);
+    const payloadName = `${this.entryIndex}.payload`;
+    const manifestName = `${this.entryIndex}.manifest.json`;
+    let manifest: Manifest | undefined;
+    let entry: LocalFileHeader | null;
+    try {
+      // Skip to the payload, reading its manifest if that comes first
+      for (;;) {
+        this.signal?.throwIfAborted();
+        entry = await zipStreamReader.nextEntry();
+        if (!entry || entry.fileName === payloadName) {
+          break;
+        }
+        if (entry.fileName === manifestName) {
+          manifest = parseManifest(await readEntryText(zipStreamReader, entry));
+        } else {
+          await zipStreamReader.readEntry(entry, () => undefined);
+        }
+      }
+      if (!entry) {
+        throw new TdfPayloadExtractionError('Payload is missing');
+      }
+    } catch (e) {
+      await zipStreamReader.cancel(e).catch(() => undefined);
+      this.signal?.throwIfAborted();
+      if (e instanceof TdfError) {
+        throw e;
+      }
+      throw new TdfPayloadExtractionError(
+        `There was a problem extracting the TDF3 payload: ${(e as Error).message}`
+      );
+    }
+    if (manifest) {
+      return this.decryptForwardStream(
+        zipStreamReader,
+        entry,
+        manifest,
+        progressHandler,
+        fileStreamServiceWorker,
+        wrapperManifest
+      );
+    }
+    return this.spoolForwardStream(
+      zipStreamReader,
+      entry,
+      maxBufferedBytes,
+      progressHandler,
+      fileStreamServiceWorker,
+      wrapperManifest
+    );
+  }
+
+  /**
+   * Decrypts the payload of a forward stream as it arrives, with the manifest read before it. If
+   * a segment does not match its hash, or the payload does not match the segment list, the stream
+   * errors after the plaintext read so far.
+   *
+   * @param zipStreamReader - The archive, just after the local file header of the payload
+   * @param payloadEntry - The local file header of the payload
+   * @param manifest - The manifest of the payload
+   */
+  async decryptForwardStream(
+    zipStreamReader: ZipStreamReader,
+    payloadEntry: LocalFileHeader,
+    manifest: Manifest,
+    progressHandler?: (bytesProcessed: number) => void,
+    fileStreamServiceWorker?: string,
+    wrapperManifest?: Promise<string>
+  ) {
+    this.manifest = manifest;
+    const chunks = manifestChunks(manifest);
+    let unwrapResult;
+    try {
+      unwrapResult = await this.unwrapKey(manifest);
+      await this.validateRootSignature(manifest, unwrapResult.reconstructedKeyBinary);
+    } catch (e) {
+      await zipStreamReader.cancel(e).catch(() => undefined);
+      throw e;
+    }
+    const { reconstructedKeyBinary, metadata, keyAccessMetadata, keyAccessMetadataErrors } =
+      unwrapResult;
+    const expectedSize = chunks.reduce((total, chunk) => total + chunk.encryptedSegmentSize, 0);
+    let progress = 0;
+
+    const decrypt = async (encryptedChunk: Buffer, chunk: Chunk) => {
+      const decryptedSegment = await this.decryptSegment(
+        encryptedChunk,
+        reconstructedKeyBinary,
+        chunk.hash
+      ).catch((e) => {
+        throw segmentFailure(e, chunk.index, TdfDecryptError);
+      });
+      progress += chunk.encryptedSegmentSize;
+      if (progressHandler) {
+        progressHandler(progress);
+      }
+      return decryptedSegment.payload.asBuffer();
+    };
+
+    // Reads the rest of the archive, which is only checked against the html wrapper, if any
+    const finish = async () => {
+      for (
+        let entry = await zipStreamReader.nextEntry();
+        entry;
+        entry = await zipStreamReader.nextEntry()
+      ) {
+        await zipStreamReader.readEntry(entry, () => undefined);
+      }
+      await zipStreamReader.drain();
+      await matchWrapperManifest(manifest, wrapperManifest);
+    };
+
+    async function* plaintext(): AsyncGenerator<Buffer> {
+      let pending: Buffer[] = [];
+      let pendingSize = 0;
+      let payloadSize = 0;
+      let next = 0;
+      try {
+        for await (const data of zipStreamReader.entryChunks(payloadEntry)) {
+          pending.push(data);
+          pendingSize += data.length;
+          payloadSize += data.length;
+          while (next < chunks.length && pendingSize >= chunks[next].encryptedSegmentSize) {
+            const chunk = chunks[next++];
+            const bytes = Buffer.concat(pending);
+            pending = [bytes.subarray(chunk.encryptedSegmentSize)];
+            pendingSize = bytes.length - chunk.encryptedSegmentSize;
+            yield await decrypt(bytes.subarray(0, chunk.encryptedSegmentSize), chunk);
+          }
+        }
+        if (payloadSize !== expectedSize) {
+          throw new ManifestIntegrityError(
+            `Payload size [${payloadSize}] does not match the manifest segments [${expectedSize}]`
+          );
+        }
+        await finish();
+      } catch (e) {
+        if (e instanceof TdfError) {
+          throw e;
+        }
+        throw new TdfPayloadExtractionError(
+          `There was a problem extracting the TDF3 payload: ${(e as Error).message}`
+        );
+      }
+    }
+
+    const segments = plaintext();
+    const underlyingSource = {
+      signal: this.signal,
+      pull: async (controller: ReadableStreamDefaultController) => {
+        try {
+          const { value, done } = await segments.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (e) {
+          await zipStreamReader.cancel(e).catch(() => undefined);
+          throw e;
+        }
+      },
+      cancel: (reason: unknown) => zipStreamReader.cancel(reason),
+      ...(fileStreamServiceWorker && { fileStreamServiceWorker }),
+    };
+
+    const outputStream = new DecoratedReadableStream(underlyingSource);
+    const { compression } = manifest.payload;
+    if (compression) {
+      outputStream.stream = decompressStream(outputStream.stream, compression);
+    }
+    outputStream.manifest = manifest;
+    outputStream.emit('manifest', manifest);
+    outputStream.metadata = metadata;
+    outputStream.keyAccessMetadata = keyAccessMetadata;
+    outputStream.keyAccessMetadataErrors = keyAccessMetadataErrors;
+    outputStream.emit('rewrap', metadata);
+    return outputStream;
+  }
+
+  /**
+   * Holds the payload of a forward stream until its manifest, which follows it, has been read, and
+   * then decrypts it. Fails once more than `maxBufferedBytes` of the payload have arrived.
+   *
+   * @param zipStreamReader - The archive, just after the local file header of the payload
+   * @param payloadEntry - The local file header of the payload
+   * @param maxBufferedBytes - The most encrypted payload to hold
+   */
+  async spoolForwardStream(
+    zipStreamReader: ZipStreamReader,
+    payloadEntry: LocalFileHeader,
+    maxBufferedBytes: number,
+    progressHandler?: (bytesProcessed: number) => void,
+    fileStreamServiceWorker?: string,
+    wrapperManifest?: Promise<string>
+  ) {
+    const tooLarge = () =>
+      new TdfPayloadExtractionError(
+        `The payload comes before its manifest and is larger than maxBufferedBytes [${maxBufferedBytes}]; decrypt it from a buffer, file or url source instead`
+      );
+    let spool = new Blob([]);
+    let batch: Uint8Array[] = [];
+    let batchSize = 0;
+    const flush = () => {
+      spool = new Blob([spool, ...batch]);
+      batch = [];
+      batchSize = 0;
+    };
+    let payloadSize = 0;
+    let manifestJson: string | undefined;
+    const manifestName = `${this.entryIndex}.manifest.json`;
+
+    try {
+      if ((payloadEntry.compressedSize ?? 0) > maxBufferedBytes) {
+        throw tooLarge();
+      }
+      for await (const chunk of zipStreamReader.entryChunks(payloadEntry)) {
+        this.signal?.throwIfAborted();
+        payloadSize += chunk.length;
+        if (payloadSize > maxBufferedBytes) {
+          throw tooLarge();
+        }
+        // Copy, as the chunk may be a view of the reader's pending buffer
+        batch.push(Uint8Array.from(chunk));
+        batchSize += chunk.length;
+        if (batchSize >= SPOOL_BATCH_SIZE) {
+          flush();
+        }
+      }
+      flush();
+      for (
+        let entry = await zipStreamReader.nextEntry();
+        entry;
+        this.signal?.throwIfAborted(), entry = await zipStreamReader.nextEntry()
+      ) {
+        if (entry.fileName === manifestName) {
+          manifestJson = await readEntryText(zipStreamReader, entry);
+        } else {
+          await zipStreamReader.readEntry(entry, () => undefined);
+        }
+      }
+      // The central directory isn't needed, but let any wrapper around the archive finish
+      await zipStreamReader.drain();
+    } catch (e) {
+      await zipStreamReader.cancel(e).catch(() => undefined);
+      this.signal?.throwIfAborted();
+      if (e instanceof TdfError) {
+        throw e;
+      }
+      throw new TdfPayloadExtractionError(
+        `There was a problem extracting the TDF3 payload: ${(e as Error).message}`
+      );
+    }
+    if (manifestJson === undefined) {
+      throw new TdfPayloadExtractionError('Manifest is missing');
+    }
+    this.manifest = parseManifest(manifestJson);
+    await matchWrapperManifest(this.manifest, wrapperManifest);
+
+    const chunks = manifestChunks(this.manifest);
+    const encryptedSize = chunks.reduce((total, chunk) => total + chunk.encryptedSegmentSize, 0);
+    if (encryptedSize !== payloadSize) {
+      throw new ManifestIntegrityError(
+        `Payload size [${payloadSize}] does not match the manifest segments [${encryptedSize}]`
+      );
+    }
+
+    const { reconstructedKeyBinary, metadata, keyAccessMetadata, keyAccessMetadataErrors } =
+      await this.unwrapKey(this.manifest);
+    await this.validateRootSignature(this.manifest, reconstructedKeyBinary);
+
+    let progress = 0;
+    const underlyingSource = {
+      signal: this.signal,
+      pull: async (controller: ReadableStreamDefaultController) => {
+        const chunk = chunks.shift();
+        if (!chunk) {
+          controller.close();
+          return;
+        }
+
+        const { encryptedSegmentSize } = chunk;
+        const encryptedChunk = Buffer.from(
+          await spool
+            .slice(chunk.encryptedOffset, chunk.encryptedOffset + encryptedSegmentSize)
+            .arrayBuffer()
+        );
+        const decryptedSegment = await this.decryptSegment(
+          encryptedChunk,
+          reconstructedKeyBinary,
+          chunk.hash
+        ).catch((e) => {
+          throw segmentFailure(e, chunk.index, TdfDecryptError);
+        });
+
+        controller.enqueue(decryptedSegment.payload.asBuffer());
+        progress += encryptedSegmentSize;
+        if (progressHandler) {
+          progressHandler(progress);
+        }
+      },
+      ...(fileStreamServiceWorker && { fileStreamServiceWorker }),
+    };
+
+    const outputStream = new DecoratedReadableStream(underlyingSource);
+    const { compression } = this.manifest.payload;
+    if (compression) {
+      outputStream.stream = decompressStream(outputStream.stream, compression);
+    }
+    outputStream.manifest = this.manifest;
+    outputStream.emit('manifest', this.manifest);
+    outputStream.metadata = metadata;
+    outputStream.keyAccessMetadata = keyAccessMetadata;
+    outputStream.keyAccessMetadataErrors = keyAccessMetadataErrors;
+    outputStream.emit('rewrap', metadata);
+    return outputStream;
+  }
 }
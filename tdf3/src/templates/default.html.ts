@@ -1,20 +1,29 @@
 import { escHtml, escJavaScript } from './escaper.js';
-export default ({
-  manifest,
-  payload,
-  transferUrl,
-  transferBaseUrl,
-}: {
+
+type HtmlWrapperParams = {
   manifest: string;
-  payload: string;
   transferUrl: string;
   transferBaseUrl: string;
-}) => `<html>
+};
+
+/**
+ * Everything before the base64 encoded payload. Ends inside the `data-input` value attribute.
+ */
+export const htmlWrapperPrefix = `<html>
 <head>
     <meta charset="UTF-8">
   </head>
   <body style="font-family: Arial; color: #2D323B; overflow: hidden; margin: 0; height: 100%; background-color: white;">
-    <input id="data-input" type="hidden" value="${escHtml(payload)}">
+    <input id="data-input" type="hidden" value="`;
+
+/**
+ * Everything after the base64 encoded payload.
+ */
+export const htmlWrapperSuffix = ({
+  manifest,
+  transferUrl,
+  transferBaseUrl,
+}: HtmlWrapperParams) => `">
     <input id="data-manifest" type="hidden" value="${escHtml(manifest)}">
     <iframe style="width:0;height:0;border:0; border:none;" src="${escHtml(transferUrl)}"></iframe>
     <div role="banner" style="background-color: #092356; color: white; height: 55px;">
@@ -103,3 +112,15 @@ export default ({
     </script>
   </body>
 </html>`;
+
+export default ({
+  manifest,
+  payload,
+  transferUrl,
+  transferBaseUrl,
+}: HtmlWrapperParams & { payload: string }) =>
+  `${htmlWrapperPrefix}${escHtml(payload)}${htmlWrapperSuffix({
+    manifest,
+    transferUrl,
+    transferBaseUrl,
+  })}`;
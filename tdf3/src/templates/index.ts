@@ -1,2 +1,6 @@
 export { escHtml, escJavaScript } from './escaper.js';
-export { default as htmlWrapperTemplate } from './default.html.js';
+export {
+  default as htmlWrapperTemplate,
+  htmlWrapperPrefix,
+  htmlWrapperSuffix,
+} from './default.html.js';
@@ -103,6 +103,12 @@ export class Upload extends EventEmitter {
     this.totalBytes = byteLength(this.params.Body);
     this.bytesUploadedSoFar = 0;
     this.abortController = new AbortController();
+    if (options.abortSignal?.aborted) {
+      this.abortController.abort();
+    }
+    options.abortSignal?.addEventListener('abort', () => this.abortController.abort(), {
+      once: true,
+    });
   }
 
   async abort(): Promise<void> {
@@ -53,4 +53,9 @@ export interface Options extends Partial<Configuration> {
    * This the target where we upload data.
    */
   client: S3Client;
+
+  /**
+   * Aborts the upload, as `abort()` does.
+   */
+  abortSignal?: globalThis.AbortSignal;
 }
@@ -27,25 +27,42 @@ export const fromBuffer = (buffer: Uint8Array): Chunker => {
   };
 };
 
-async function getRemoteChunk(url: string, range?: string): Promise<Uint8Array> {
-  const res: AxiosResponse<Uint8Array> = await axiosRemoteChunk.get(url, {
-    ...(range && {
-      headers: {
-        Range: `bytes=${range}`,
-      },
-    }),
-    responseType: 'arraybuffer',
-  });
+async function getRemoteChunk(
+  url: string,
+  range?: string,
+  signal?: AbortSignal
+): Promise<Uint8Array> {
+  let res: AxiosResponse<Uint8Array>;
+  try {
+    res = await axiosRemoteChunk.get(url, {
+      ...(range && {
+        headers: {
+          Range: `bytes=${range}`,
+        },
+      }),
+      responseType: 'arraybuffer',
+      signal,
+    });
+  } catch (e) {
+    // Raise the abort reason rather than the axios cancellation
+    signal?.throwIfAborted();
+    throw e;
+  }
   if (!res.data) {
     throw new Error('Unexpected response type: Server should have responded with an ArrayBuffer.');
   }
   return res.data;
 }
 
-export const fromUrl = async (location: string): Promise<Chunker> => {
+/**
+ * Read from a url with range requests.
+ * @param location the url
+ * @param signal cancels requests in flight, and fails later ones, when it aborts
+ */
+export const fromUrl = async (location: string, signal?: AbortSignal): Promise<Chunker> => {
   return async (byteStart?: number, byteEnd?: number): Promise<Uint8Array> => {
     if (byteStart === undefined) {
-      return getRemoteChunk(location);
+      return getRemoteChunk(location, undefined, signal);
     }
     let rangeHeader = `${byteStart}`;
     if (byteEnd && byteEnd < 0) {
@@ -54,7 +71,7 @@ export const fromUrl = async (location: string): Promise<Chunker> => {
     } else if (byteEnd) {
       rangeHeader += `-${byteEnd - 1}`;
     }
-    return await getRemoteChunk(location, rangeHeader);
+    return await getRemoteChunk(location, rangeHeader, signal);
   };
 };
 
@@ -65,7 +82,7 @@ export type DataSource =
   | { type: 'remote'; location: string }
   | { type: 'stream'; location: DecoratedReadableStream };
 
-export const fromDataSource = async ({ type, location }: DataSource) => {
+export const fromDataSource = async ({ type, location }: DataSource, signal?: AbortSignal) => {
   switch (type) {
     case 'buffer':
       if (!(location instanceof Uint8Array)) {
@@ -86,7 +103,7 @@ export const fromDataSource = async ({ type, location }: DataSource) => {
       if (typeof location !== 'string') {
         throw new Error('Invalid data source; url not provided');
       }
-      return fromUrl(location);
+      return fromUrl(location, signal);
     case 'stream':
       if (!isDecoratedReadableStream(location)) {
         throw new Error('Invalid data source; must be DecoratedTdfStream');
@@ -0,0 +1,63 @@
+import { type Codec, Compressor, decompress } from './deflate.js';
+
+/**
+ * A codec the payload can be compressed with before it is encrypted, by its `CompressionStream`
+ * name: `deflate` is the zlib format.
+ */
+export type CompressionCodec = Codec;
+
+export const COMPRESSION_CODECS: readonly CompressionCodec[] = ['deflate', 'gzip'];
+
+export function isCompressionCodec(codec: unknown): codec is CompressionCodec {
+  return COMPRESSION_CODECS.includes(codec as CompressionCodec);
+}
+
+/**
+ * Compress a stream with `CompressionStream`, or in JavaScript where that is missing.
+ */
+export function compressStream(
+  stream: ReadableStream<Uint8Array>,
+  codec: CompressionCodec
+): ReadableStream<Uint8Array> {
+  if (typeof globalThis.CompressionStream === 'function') {
+    return stream.pipeThrough(new CompressionStream(codec));
+  }
+  const compressor = new Compressor(codec);
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        const compressed = compressor.push(chunk);
+        if (compressed.length) {
+          controller.enqueue(compressed);
+        }
+      },
+      flush(controller) {
+        controller.enqueue(compressor.finish());
+      },
+    })
+  );
+}
+
+/**
+ * Decompress a stream with `DecompressionStream`. Where that is missing, the stream is collected
+ * and decompressed in JavaScript once it ends.
+ */
+export function decompressStream(
+  stream: ReadableStream<Uint8Array>,
+  codec: CompressionCodec
+): ReadableStream<Uint8Array> {
+  if (typeof globalThis.DecompressionStream === 'function') {
+    return stream.pipeThrough(new DecompressionStream(codec));
+  }
+  const chunks: Uint8Array[] = [];
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk) {
+        chunks.push(chunk);
+      },
+      flush(controller) {
+        controller.enqueue(decompress(Buffer.concat(chunks), codec));
+      },
+    })
+  );
+}
@@ -0,0 +1,37 @@
+const CRC32_POLYNOMIAL = 0xedb88320;
+
+let table: Uint32Array | undefined;
+
+function getTable(): Uint32Array {
+  if (!table) {
+    table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        // eslint-disable-next-line no-bitwise
+        c = c & 1 ? CRC32_POLYNOMIAL ^ (c >>> 1) : c >>> 1;
+      }
+      table[n] = c;
+    }
+  }
+  return table;
+}
+
+/**
+ * Computes the CRC-32 used by zip files, continuing from a previous value so that
+ * it can be updated a chunk at a time.
+ * @param chunk the next bytes
+ * @param previous the CRC-32 of the bytes before `chunk`, or 0 to start
+ * @returns the unsigned CRC-32 of all bytes so far
+ */
+export function crc32(chunk: Uint8Array, previous = 0): number {
+  const t = getTable();
+  // eslint-disable-next-line no-bitwise
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < chunk.length; i++) {
+    // eslint-disable-next-line no-bitwise
+    crc = t[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8);
+  }
+  // eslint-disable-next-line no-bitwise
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,553 @@
+import { crc32 } from './crc32.js';
+
+/**
+ * DEFLATE (RFC 1951) with the zlib (RFC 1950) and gzip (RFC 1952) wrappers that
+ * `CompressionStream` writes, for runtimes that don't have it. Compression uses fixed Huffman
+ * codes, which suits the repetitive text this is for, and each chunk is written as its own block
+ * so output is produced as input arrives. Any valid stream can be decompressed.
+ */
+
+// Match lengths 3..258, as length codes 257..285
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131,
+  163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049,
+  3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+// The order in which dynamic blocks list the code lengths of their code length alphabet
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const END_OF_BLOCK = 256;
+const MAX_BITS = 15;
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const HASH_SIZE = 1 << 15;
+// Number of earlier positions tried for each match; more compresses better, but slower
+const MAX_CHAIN = 64;
+
+const ZLIB_HEADER = [0x78, 0x01];
+// Deflate, no flags, no modification time, no extra flags, unknown OS
+const GZIP_HEADER = [0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 0, 0xff];
+
+export type Codec = 'deflate' | 'gzip';
+
+/**
+ * Computes the Adler-32 checksum of the zlib format, continuing from a previous value.
+ * @param chunk the next bytes
+ * @param previous the Adler-32 of the bytes before `chunk`, or 1 to start
+ */
+export function adler32(chunk: Uint8Array, previous = 1): number {
+  let a = previous & 0xffff;
+  let b = previous >>> 16;
+  for (let i = 0; i < chunk.length; ) {
+    // Small enough that the sums can't overflow before they are reduced
+    const end = Math.min(i + 3800, chunk.length);
+    for (; i < end; i++) {
+      a += chunk[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+class ByteBuffer {
+  bytes = new Uint8Array(1024);
+  length = 0;
+
+  reserve(count: number) {
+    if (this.length + count > this.bytes.length) {
+      const bytes = new Uint8Array(Math.max(this.bytes.length * 2, this.length + count));
+      bytes.set(this.bytes.subarray(0, this.length));
+      this.bytes = bytes;
+    }
+  }
+
+  push(byte: number) {
+    this.reserve(1);
+    this.bytes[this.length++] = byte;
+  }
+
+  take(): Uint8Array {
+    const taken = this.bytes.slice(0, this.length);
+    this.length = 0;
+    return taken;
+  }
+}
+
+function reverseBits(code: number, length: number): number {
+  let reversed = 0;
+  for (let i = 0; i < length; i++) {
+    reversed = (reversed << 1) | ((code >>> i) & 1);
+  }
+  return reversed;
+}
+
+class BitWriter {
+  private out = new ByteBuffer();
+  private bits = 0;
+  private count = 0;
+
+  write(value: number, length: number) {
+    this.bits |= value << this.count;
+    this.count += length;
+    while (this.count >= 8) {
+      this.out.push(this.bits & 0xff);
+      this.bits >>>= 8;
+      this.count -= 8;
+    }
+  }
+
+  // Huffman codes are packed starting from their most significant bit
+  writeCode(code: number, length: number) {
+    this.write(reverseBits(code, length), length);
+  }
+
+  align() {
+    if (this.count) {
+      this.write(0, 8 - this.count);
+    }
+  }
+
+  // The complete bytes written so far; a partial last byte is kept for the next write
+  take(): Uint8Array {
+    return this.out.take();
+  }
+}
+
+function writeFixedLiteral(writer: BitWriter, symbol: number) {
+  if (symbol < 144) {
+    writer.writeCode(0x30 + symbol, 8);
+  } else if (symbol < 256) {
+    writer.writeCode(0x190 + symbol - 144, 9);
+  } else if (symbol < 280) {
+    writer.writeCode(symbol - 256, 7);
+  } else {
+    writer.writeCode(0xc0 + symbol - 280, 8);
+  }
+}
+
+function baseIndex(bases: number[], value: number): number {
+  let i = bases.length - 1;
+  while (bases[i] > value) {
+    i--;
+  }
+  return i;
+}
+
+/**
+ * Compresses a raw DEFLATE stream a chunk at a time, matching against the last 32KiB of earlier
+ * chunks.
+ */
+export class Deflater {
+  private writer = new BitWriter();
+  private history = new Uint8Array(0);
+
+  push(chunk: Uint8Array): Uint8Array {
+    if (!chunk.length) {
+      return new Uint8Array(0);
+    }
+    const { writer } = this;
+    const data = new Uint8Array(this.history.length + chunk.length);
+    data.set(this.history);
+    data.set(chunk, this.history.length);
+
+    const head = new Int32Array(HASH_SIZE).fill(-1);
+    const prev = new Int32Array(data.length);
+    const hash = (i: number) =>
+      ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & (HASH_SIZE - 1);
+    const insert = (i: number) => {
+      if (i + MIN_MATCH <= data.length) {
+        const h = hash(i);
+        prev[i] = head[h];
+        head[h] = i;
+      }
+    };
+    for (let i = 0; i < this.history.length; i++) {
+      insert(i);
+    }
+
+    // A block that isn't the last, with fixed Huffman codes
+    writer.write(0, 1);
+    writer.write(1, 2);
+    let i = this.history.length;
+    while (i < data.length) {
+      let bestLength = 0;
+      let bestDistance = 0;
+      if (i + MIN_MATCH <= data.length) {
+        const maxLength = Math.min(MAX_MATCH, data.length - i);
+        let candidate = head[hash(i)];
+        for (
+          let chain = MAX_CHAIN;
+          candidate >= 0 && i - candidate <= WINDOW_SIZE && chain > 0;
+          chain--, candidate = prev[candidate]
+        ) {
+          let length = 0;
+          while (length < maxLength && data[candidate + length] === data[i + length]) {
+            length++;
+          }
+          if (length > bestLength) {
+            bestLength = length;
+            bestDistance = i - candidate;
+            if (length === maxLength) {
+              break;
+            }
+          }
+        }
+      }
+      if (bestLength >= MIN_MATCH) {
+        const lengthIndex = baseIndex(LENGTH_BASE, bestLength);
+        writeFixedLiteral(writer, 257 + lengthIndex);
+        writer.write(bestLength - LENGTH_BASE[lengthIndex], LENGTH_EXTRA[lengthIndex]);
+        const distanceIndex = baseIndex(DISTANCE_BASE, bestDistance);
+        writer.writeCode(distanceIndex, 5);
+        writer.write(bestDistance - DISTANCE_BASE[distanceIndex], DISTANCE_EXTRA[distanceIndex]);
+        for (let j = 0; j < bestLength; j++) {
+          insert(i + j);
+        }
+        i += bestLength;
+      } else {
+        writeFixedLiteral(writer, data[i]);
+        insert(i);
+        i++;
+      }
+    }
+    writeFixedLiteral(writer, END_OF_BLOCK);
+    this.history = data.slice(Math.max(0, data.length - WINDOW_SIZE));
+    return writer.take();
+  }
+
+  finish(): Uint8Array {
+    // An empty last block
+    this.writer.write(1, 1);
+    this.writer.write(1, 2);
+    writeFixedLiteral(this.writer, END_OF_BLOCK);
+    this.writer.align();
+    return this.writer.take();
+  }
+}
+
+type Huffman = {
+  // Number of codes of each length
+  counts: Uint16Array;
+  // Symbols in canonical code order
+  symbols: Uint16Array;
+};
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    counts[lengths[symbol]]++;
+  }
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let length = 1; length < MAX_BITS; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol]) {
+      symbols[offsets[lengths[symbol]]++] = symbol;
+    }
+  }
+  counts[0] = 0;
+  return { counts, symbols };
+}
+
+let fixedCodes: { literals: Huffman; distances: Huffman } | undefined;
+
+function getFixedCodes() {
+  if (!fixedCodes) {
+    const lengths = new Uint8Array(288);
+    lengths.fill(8, 0, 144);
+    lengths.fill(9, 144, 256);
+    lengths.fill(7, 256, 280);
+    lengths.fill(8, 280, 288);
+    fixedCodes = {
+      literals: buildHuffman(lengths),
+      distances: buildHuffman(new Uint8Array(30).fill(5)),
+    };
+  }
+  return fixedCodes;
+}
+
+class BitReader {
+  position: number;
+  private bits = 0;
+  private count = 0;
+
+  constructor(
+    private data: Uint8Array,
+    offset: number
+  ) {
+    this.position = offset;
+  }
+
+  read(length: number): number {
+    while (this.count < length) {
+      if (this.position >= this.data.length) {
+        throw new Error('Compressed data ended unexpectedly');
+      }
+      this.bits |= this.data[this.position++] << this.count;
+      this.count += 8;
+    }
+    const value = this.bits & ((1 << length) - 1);
+    this.bits >>>= length;
+    this.count -= length;
+    return value;
+  }
+
+  // Drops the rest of the current byte
+  align() {
+    this.bits = 0;
+    this.count = 0;
+  }
+
+  decode({ counts, symbols }: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length <= MAX_BITS; length++) {
+      code |= this.read(1);
+      const count = counts[length];
+      if (code - count < first) {
+        return symbols[index + code - first];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code in compressed data');
+  }
+}
+
+function readDynamicCodes(reader: BitReader) {
+  const literalCount = reader.read(5) + 257;
+  const distanceCount = reader.read(5) + 1;
+  const codeLengthCount = reader.read(4) + 4;
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.read(3);
+  }
+  const codeLengths = buildHuffman(codeLengthLengths);
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  for (let i = 0; i < lengths.length; ) {
+    const symbol = reader.decode(codeLengths);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+    let repeated = 0;
+    let times: number;
+    if (symbol === 16) {
+      if (!i) {
+        throw new Error('Invalid code lengths in compressed data');
+      }
+      repeated = lengths[i - 1];
+      times = 3 + reader.read(2);
+    } else if (symbol === 17) {
+      times = 3 + reader.read(3);
+    } else {
+      times = 11 + reader.read(7);
+    }
+    if (i + times > lengths.length) {
+      throw new Error('Invalid code lengths in compressed data');
+    }
+    lengths.fill(repeated, i, i + times);
+    i += times;
+  }
+  return {
+    literals: buildHuffman(lengths.subarray(0, literalCount)),
+    distances: buildHuffman(lengths.subarray(literalCount)),
+  };
+}
+
+/**
+ * Decompresses a raw DEFLATE stream.
+ * @param data the compressed bytes
+ * @param offset where the stream starts in `data`
+ * @returns the decompressed bytes, and the offset of the first byte after the stream
+ */
+export function inflate(data: Uint8Array, offset = 0): { output: Uint8Array; end: number } {
+  const reader = new BitReader(data, offset);
+  const out = new ByteBuffer();
+  for (let isLast = false; !isLast; ) {
+    isLast = reader.read(1) === 1;
+    const type = reader.read(2);
+    if (type === 0) {
+      reader.align();
+      const { position } = reader;
+      if (position + 4 > data.length) {
+        throw new Error('Compressed data ended unexpectedly');
+      }
+      const length = data[position] | (data[position + 1] << 8);
+      const complement = data[position + 2] | (data[position + 3] << 8);
+      if ((length ^ 0xffff) !== complement) {
+        throw new Error('Invalid stored block length in compressed data');
+      }
+      if (position + 4 + length > data.length) {
+        throw new Error('Compressed data ended unexpectedly');
+      }
+      out.reserve(length);
+      out.bytes.set(data.subarray(position + 4, position + 4 + length), out.length);
+      out.length += length;
+      reader.position = position + 4 + length;
+      continue;
+    }
+    if (type === 3) {
+      throw new Error('Invalid block type in compressed data');
+    }
+    const { literals, distances } = type === 1 ? getFixedCodes() : readDynamicCodes(reader);
+    for (;;) {
+      const symbol = reader.decode(literals);
+      if (symbol < 256) {
+        out.push(symbol);
+        continue;
+      }
+      if (symbol === END_OF_BLOCK) {
+        break;
+      }
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) {
+        throw new Error('Invalid symbol in compressed data');
+      }
+      const length = LENGTH_BASE[lengthIndex] + reader.read(LENGTH_EXTRA[lengthIndex]);
+      const distanceIndex = reader.decode(distances);
+      if (distanceIndex >= DISTANCE_BASE.length) {
+        throw new Error('Invalid symbol in compressed data');
+      }
+      const distance = DISTANCE_BASE[distanceIndex] + reader.read(DISTANCE_EXTRA[distanceIndex]);
+      if (distance > out.length) {
+        throw new Error('Invalid distance in compressed data');
+      }
+      out.reserve(length);
+      // Byte by byte, as a match may overlap the bytes it copies
+      for (let i = 0; i < length; i++) {
+        out.bytes[out.length] = out.bytes[out.length - distance];
+        out.length++;
+      }
+    }
+  }
+  reader.align();
+  return { output: out.take(), end: reader.position };
+}
+
+function readUInt32(data: Uint8Array, offset: number, littleEndian: boolean): number {
+  if (offset + 4 > data.length) {
+    throw new Error('Compressed data ended unexpectedly');
+  }
+  return new DataView(data.buffer, data.byteOffset + offset, 4).getUint32(0, littleEndian);
+}
+
+/**
+ * Compresses a stream a chunk at a time in the zlib format, for `deflate`, or in gzip.
+ */
+export class Compressor {
+  private deflater = new Deflater();
+  private started = false;
+  private checksum: number;
+  private size = 0;
+
+  constructor(private codec: Codec) {
+    this.checksum = codec === 'gzip' ? 0 : 1;
+  }
+
+  private withHeader(body: Uint8Array): Uint8Array {
+    if (this.started) {
+      return body;
+    }
+    this.started = true;
+    const header = this.codec === 'gzip' ? GZIP_HEADER : ZLIB_HEADER;
+    const framed = new Uint8Array(header.length + body.length);
+    framed.set(header);
+    framed.set(body, header.length);
+    return framed;
+  }
+
+  push(chunk: Uint8Array): Uint8Array {
+    if (this.codec === 'gzip') {
+      this.checksum = crc32(chunk, this.checksum);
+    } else {
+      this.checksum = adler32(chunk, this.checksum);
+    }
+    this.size = (this.size + chunk.length) % 2 ** 32;
+    return this.withHeader(this.deflater.push(chunk));
+  }
+
+  finish(): Uint8Array {
+    const body = this.deflater.finish();
+    const framed = new Uint8Array(body.length + (this.codec === 'gzip' ? 8 : 4));
+    framed.set(body);
+    const trailer = new DataView(framed.buffer, body.length);
+    if (this.codec === 'gzip') {
+      trailer.setUint32(0, this.checksum, true);
+      trailer.setUint32(4, this.size, true);
+    } else {
+      trailer.setUint32(0, this.checksum);
+    }
+    return this.withHeader(framed);
+  }
+}
+
+function skipGzipHeader(data: Uint8Array): number {
+  if (data.length < 10 || data[0] !== 0x1f || data[1] !== 0x8b || data[2] !== 8) {
+    throw new Error('Invalid gzip header');
+  }
+  const flags = data[3];
+  let offset = 10;
+  // FEXTRA
+  if (flags & 4) {
+    offset += 2 + (data[offset] | (data[offset + 1] << 8));
+  }
+  // FNAME and FCOMMENT, each zero terminated
+  for (const flag of [8, 16]) {
+    if (flags & flag) {
+      offset = data.indexOf(0, offset) + 1;
+      if (!offset) {
+        throw new Error('Invalid gzip header');
+      }
+    }
+  }
+  // FHCRC
+  if (flags & 2) {
+    offset += 2;
+  }
+  return offset;
+}
+
+/**
+ * Decompresses a complete zlib (`deflate`) or gzip stream, checking its checksum.
+ */
+export function decompress(data: Uint8Array, codec: Codec): Uint8Array {
+  if (codec === 'gzip') {
+    const { output, end } = inflate(data, skipGzipHeader(data));
+    if (
+      readUInt32(data, end, true) !== crc32(output) ||
+      readUInt32(data, end + 4, true) !== output.length % 2 ** 32
+    ) {
+      throw new Error('Checksum mismatch in gzip data');
+    }
+    return output;
+  }
+  if (data.length < 2 || (data[0] & 0x0f) !== 8 || ((data[0] << 8) | data[1]) % 31) {
+    throw new Error('Invalid zlib header');
+  }
+  // FDICT
+  if (data[1] & 0x20) {
+    throw new Error('Unsupported preset dictionary in zlib data');
+  }
+  const { output, end } = inflate(data, 2);
+  if (readUInt32(data, end, false) !== adler32(output)) {
+    throw new Error('Checksum mismatch in zlib data');
+  }
+  return output;
+}
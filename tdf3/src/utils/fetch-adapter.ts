@@ -0,0 +1,54 @@
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+
+/**
+ * An axios adapter that sends requests with the given `fetch`, so that KAS requests can be
+ * answered by a service worker, a proxy, or an in-process stand-in instead of the network.
+ * Responses are settled as axios settles them, so failures reject with an `AxiosError` that
+ * carries the response.
+ */
+export function fetchAdapter(fetch: typeof globalThis.fetch): AxiosAdapter {
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const signal = config.signal as AbortSignal | undefined;
+    let response: Response;
+    try {
+      response = await fetch(config.url ?? '', {
+        method: (config.method ?? 'get').toUpperCase(),
+        headers: AxiosHeaders.from(config.headers).toJSON() as Record<string, string>,
+        body: config.data,
+        signal,
+      });
+    } catch (e) {
+      if (signal?.aborted) {
+        throw new axios.CanceledError(undefined, undefined, config);
+      }
+      throw new AxiosError(`${e}`, AxiosError.ERR_NETWORK, config);
+    }
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+    const axiosResponse: AxiosResponse = {
+      data: await response.text(),
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      config,
+    };
+    if (!config.validateStatus || config.validateStatus(response.status)) {
+      return axiosResponse;
+    }
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE,
+      config,
+      undefined,
+      axiosResponse
+    );
+  };
+}
@@ -1,9 +1,11 @@
 import { AppIdAuthProvider, AuthProvider } from '../../../src/auth/auth.js';
 
+export { crc32 } from './crc32.js';
 export { ZipReader, readUInt64LE } from './zip-reader.js';
 export { ZipWriter } from './zip-writer.js';
-export { keySplit, keyMerge } from './keysplit.js';
-export { streamToBuffer } from '../client/DecoratedReadableStream.js';
+export { keySplit, keyMerge, type KeyShare, shamirMerge, shamirSplit } from './keysplit.js';
+export { peekStream, streamToBuffer } from '../client/DecoratedReadableStream.js';
+export { ZipStreamReader } from './zip-stream-reader.js';
 export * from './chunkers.js';
 
 export function base64ToBuffer(b64: string): Buffer | Uint8Array {
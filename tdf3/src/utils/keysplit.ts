@@ -52,3 +52,101 @@ export function keyMerge(splits: Uint8Array[]): Uint8Array {
   }
   return currKey;
 }
+
+// Exponent and logarithm tables for GF(2^8), with the AES reduction polynomial
+// x^8 + x^4 + x^3 + x + 1 and generator 3. The exponents are doubled up to skip a modulo.
+const GF_EXP = new Uint8Array(510);
+const GF_LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  GF_EXP[i] = GF_EXP[i + 255] = x;
+  GF_LOG[x] = i;
+  x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+}
+
+function gfMul(a: number, b: number): number {
+  return a && b ? GF_EXP[GF_LOG[a] + GF_LOG[b]] : 0;
+}
+
+function gfDiv(a: number, b: number): number {
+  return a ? GF_EXP[GF_LOG[a] + 255 - GF_LOG[b]] : 0;
+}
+
+/**
+ * A share of a key split with `shamirSplit`.
+ */
+export type KeyShare = {
+  // The x coordinate of the share, from 1 to 255
+  id: number;
+  share: Uint8Array;
+};
+
+/**
+ * Splits `key` into `n` shares such that any `k` of them recover it, and any
+ * fewer contain no information about it. Each byte of the key is the constant
+ * term of a random polynomial of degree `k - 1` over GF(256), and the shares
+ * are its values at x = 1 to n.
+ * @param key The data to split
+ * @param n The number of shares to create, at most 255
+ * @param k The number of shares required to recover the key
+ * @returns `n` shares of `length(key)` size, with ids 1 to n
+ */
+export function shamirSplit(key: Uint8Array, n: number, k: number): KeyShare[] {
+  if (!(key instanceof Uint8Array)) {
+    throw Error('ERROR in shamirSplit - key is not an unsigned byte array');
+  }
+  if (!Number.isInteger(n) || n < 1 || n > 255) {
+    throw Error('ERROR in shamirSplit - n must be an integer from 1 to 255');
+  }
+  if (!Number.isInteger(k) || k < 1 || k > n) {
+    throw Error('ERROR in shamirSplit - k must be an integer from 1 to n');
+  }
+  const coefficients = randomBytes(key.length * (k - 1));
+  const shares: KeyShare[] = [];
+  for (let id = 1; id <= n; id++) {
+    const share = new Uint8Array(key.length);
+    for (let b = 0; b < key.length; b++) {
+      // Horner's method, from the highest degree coefficient down to the key byte
+      let y = 0;
+      for (let c = k - 2; c >= 0; c--) {
+        y = gfMul(y, id) ^ coefficients[b * (k - 1) + c];
+      }
+      share[b] = gfMul(y, id) ^ key[b];
+    }
+    shares.push({ id, share });
+  }
+  return shares;
+}
+
+/**
+ * Recovers a key from at least `k` shares, as generated by `shamirSplit`, by
+ * interpolating their polynomials at x = 0. As with `keyMerge`, this does no
+ * verification; too few shares give a wrong key.
+ * @param shares the shares, aggregated from KASen
+ * @returns the merged value.
+ */
+export function shamirMerge(shares: KeyShare[]): Uint8Array {
+  if (!Array.isArray(shares) || shares.length < 1) {
+    throw Error('ERROR in shamirMerge - shares must have at least one element');
+  }
+  const ids = shares.map(({ id }) => id);
+  if (ids.some((id) => !Number.isInteger(id) || id < 1 || id > 255)) {
+    throw Error('ERROR in shamirMerge - share ids must be integers from 1 to 255');
+  }
+  if (new Set(ids).size !== ids.length) {
+    throw Error('ERROR in shamirMerge - share ids must be distinct');
+  }
+  const key = new Uint8Array(shares[0].share.length);
+  for (const { id, share } of shares) {
+    // The Lagrange basis polynomial for this share, at x = 0
+    let basis = 1;
+    for (const other of ids) {
+      if (other !== id) {
+        basis = gfMul(basis, gfDiv(other, other ^ id));
+      }
+    }
+    for (let b = 0; b < key.length; b++) {
+      key[b] ^= gfMul(share[b], basis);
+    }
+  }
+  return key;
+}
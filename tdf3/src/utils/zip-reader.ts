@@ -1,5 +1,6 @@
-import { Manifest } from '../models/index.js';
+import { Manifest, parseManifest } from '../models/index.js';
 import { Chunker } from './chunkers.js';
+import { crc32 } from './crc32.js';
 
 // TODO: Better document what these constants are
 // TODO: Document each function please
@@ -7,6 +8,23 @@ const CD_SIGNATURE = 0x02014b50;
 const CENTRAL_DIRECTORY_RECORD_FIXED_SIZE = 46;
 const LOCAL_FILE_HEADER_FIXED_SIZE = 30;
 const VERSION_NEEDED_TO_EXTRACT_ZIP64 = 45;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const EOCDR_SIGNATURE = 0x06054b50;
+const ZIP64_EOCDR_SIGNATURE = 0x06064b50;
+const ZIP64_EOCDL_SIGNATURE = 0x07064b50;
+const END_OF_CENTRAL_DIRECTORY_RECORD_SIZE = 22;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_RECORD_SIZE = 56;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE = 20;
+const UNKNOWN_CRC32_AND_FILE_SIZES = 1 << 3;
+// Enough for the end of central directory records of an archive without a comment
+const INITIAL_EOCD_READ_SIZE = 1024;
+// The end of central directory record with the longest comment, plus the ZIP64 locator
+const MAX_EOCD_READ_SIZE =
+  END_OF_CENTRAL_DIRECTORY_RECORD_SIZE + 0xffff + ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE;
+const NO_COMPRESSION = 0;
+// Bytes to read at a time when computing CRC-32s
+const VERIFY_CHUNK_SIZE = 1024 * 1024;
 const cp437 =
   '\u0000☺☻♥♦♣♠•◘○◙♂♀♪♫☼►◄↕‼¶§▬↨↑↓→←∟↔▲▼ !"#$%&\'()*+,-./0123456789:;<=>?@ABCDEFGHIJKLMNOPQRSTUVWXYZ[\\]^_`abcdefghijklmnopqrstuvwxyz{|}~⌂ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■ ';
 
@@ -49,6 +67,17 @@ export type CentralDirectoryVariableLengthItems = {
   headerLength: number;
 };
 
+export type EndOfCentralDirectory = {
+  // Total number of central directory records
+  entryCount: number;
+  // Size of the central directory, in bytes
+  centralDirectorySize: number;
+  // Offset of the start of the central directory
+  centralDirectoryOffset: number;
+  // Offset of the ZIP64 end of central directory record, if there is one
+  zip64RecordOffset?: number;
+};
+
 /**
  *
  * ZipReader -
@@ -68,14 +97,36 @@ export class ZipReader {
    * @return {Object}             The central directory represented as an object
    */
   async getCentralDirectory(): Promise<CentralDirectory[]> {
-    const chunk = await this.getChunk(-1000);
-    // TODO: Does this need to be tuned??!?
-    // Full buffer for the file chunk
-    const chunkBuffer = Buffer.from(chunk);
-    // Slice off the EOCDR (End of Central Directory Record) part of the buffer so we can figure out the CD size
-    const cdBuffers = this.getCDBuffers(chunkBuffer);
-
-    const cdParsedBuffers = cdBuffers.map(parseCDBuffer);
+    const { entryCount, centralDirectorySize, centralDirectoryOffset } =
+      await this.getEndOfCentralDirectory();
+    const chunk = await this.getChunk(
+      centralDirectoryOffset,
+      centralDirectoryOffset + centralDirectorySize
+    );
+    const cdBuffer = Buffer.from(chunk);
+    if (cdBuffer.length !== centralDirectorySize) {
+      throw new Error('Central directory extends past the end of the archive');
+    }
+
+    const cdParsedBuffers: CentralDirectory[] = [];
+    let offset = 0;
+    while (offset < cdBuffer.length) {
+      if (offset + CENTRAL_DIRECTORY_RECORD_FIXED_SIZE > cdBuffer.length) {
+        throw new Error('Truncated central directory record');
+      }
+      const recordLength =
+        CENTRAL_DIRECTORY_RECORD_FIXED_SIZE +
+        cdBuffer.readUInt16LE(offset + 28) +
+        cdBuffer.readUInt16LE(offset + 30) +
+        cdBuffer.readUInt16LE(offset + 32);
+      cdParsedBuffers.push(parseCDBuffer(cdBuffer.subarray(offset, offset + recordLength)));
+      offset += recordLength;
+    }
+    if (cdParsedBuffers.length !== entryCount) {
+      throw new Error(
+        `End of central directory lists [${entryCount}] entries, found [${cdParsedBuffers.length}]`
+      );
+    }
     for (const buffer of cdParsedBuffers) {
       await this.adjustHeaders(buffer);
     }
@@ -96,20 +147,26 @@ export class ZipReader {
     const manifest = await this.getChunk(byteStart, byteEnd);
     const manifestBuffer = Buffer.from(manifest);
 
-    return JSON.parse(manifestBuffer.toString());
+    return parseManifest(manifestBuffer.toString());
   }
 
   async adjustHeaders(cdObj: CentralDirectory): Promise<void> {
     if (!cdObj) {
       throw new Error('Unable to retrieve CD adjust');
     }
-    // Calculate header length -- tdf3-js writes 0 in all the header fields
-    // and does not include extra field for zip64
+    // The local header's file name and extra field can differ in length from the central
+    // directory's, for example when only one of them has a ZIP64 extra field
     const headerChunk = await this.getChunk(
       cdObj.relativeOffsetOfLocalHeader,
-      cdObj.relativeOffsetOfLocalHeader + cdObj.headerLength
+      cdObj.relativeOffsetOfLocalHeader + LOCAL_FILE_HEADER_FIXED_SIZE
     );
     const headerBuffer = Buffer.from(headerChunk);
+    if (
+      headerBuffer.length < LOCAL_FILE_HEADER_FIXED_SIZE ||
+      headerBuffer.readUInt32LE(0) !== LOCAL_FILE_HEADER_SIGNATURE
+    ) {
+      throw new Error(`Invalid local file header for [${cdObj.fileName}]`);
+    }
     cdObj.headerLength = recalculateHeaderLength(headerBuffer);
   }
 
@@ -133,32 +190,211 @@ export class ZipReader {
   }
 
   /**
-   * Takes a portion of a ZIP (must be the last portion of a ZIP to work) and returns an array of Buffers
-   * that correspond to each central directory.
-   * @param  {Buffer} chunkBuffer The last portion of a zip file
-   * @returns {Array}             An array of buffers
+   * Reads the end of central directory record, preferring the values in the ZIP64 end of
+   * central directory record when there is one.
    */
-  getCDBuffers(chunkBuffer: Buffer): Buffer[] {
-    const cdBuffers = [];
-    let lastBufferOffset = chunkBuffer.length;
-    for (let i = chunkBuffer.length - 22; i >= 0; i -= 1) {
-      // If what we're locking at isn't the start of a central directory, skip it..
-      if (chunkBuffer.readUInt32LE(i) !== CD_SIGNATURE) {
-        // eslint-disable-next-line no-continue
-        continue;
+  async getEndOfCentralDirectory(): Promise<EndOfCentralDirectory> {
+    // Read backward until the record, and the ZIP64 locator that may precede it, are found
+    let readSize = INITIAL_EOCD_READ_SIZE;
+    let chunkBuffer: Buffer;
+    let i: number;
+    for (;;) {
+      chunkBuffer = Buffer.from(await this.getChunk(-readSize));
+      i = findEndOfCentralDirectoryRecord(chunkBuffer);
+      const isLastRead = chunkBuffer.length < readSize || readSize >= MAX_EOCD_READ_SIZE;
+      if (i >= ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE || (i >= 0 && isLastRead)) {
+        break;
       }
-      // Slice off that CD from it's start until the end of either the buffer, or whatever the start of the previously
-      // found CD was
-      cdBuffers.push(chunkBuffer.slice(i, lastBufferOffset));
-      // Store the last offset location so we know how to slice off hte next CD.
-      lastBufferOffset = i;
-      // We can skip over 22 iterations since we know the minimum size of a CD is 22.
-      i -= 22;
+      if (isLastRead) {
+        throw new Error('Unable to find the end of central directory record');
+      }
+      readSize = Math.min(readSize * 4, MAX_EOCD_READ_SIZE);
+    }
+    const eocd: EndOfCentralDirectory = {
+      entryCount: chunkBuffer.readUInt16LE(i + 10),
+      centralDirectorySize: chunkBuffer.readUInt32LE(i + 12),
+      centralDirectoryOffset: chunkBuffer.readUInt32LE(i + 16),
+    };
+
+    const locatorStart = i - ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE;
+    if (locatorStart < 0 || chunkBuffer.readUInt32LE(locatorStart) !== ZIP64_EOCDL_SIGNATURE) {
+      return eocd;
+    }
+    const zip64RecordOffset = readUInt64LE(chunkBuffer, locatorStart + 8);
+    const zip64Buffer = Buffer.from(
+      await this.getChunk(
+        zip64RecordOffset,
+        zip64RecordOffset + ZIP64_END_OF_CENTRAL_DIRECTORY_RECORD_SIZE
+      )
+    );
+    if (
+      zip64Buffer.length < ZIP64_END_OF_CENTRAL_DIRECTORY_RECORD_SIZE ||
+      zip64Buffer.readUInt32LE(0) !== ZIP64_EOCDR_SIGNATURE
+    ) {
+      throw new Error('Invalid ZIP64 end of central directory record');
+    }
+    const zip64Eocd: EndOfCentralDirectory = {
+      entryCount: readUInt64LE(zip64Buffer, 32),
+      centralDirectorySize: readUInt64LE(zip64Buffer, 40),
+      centralDirectoryOffset: readUInt64LE(zip64Buffer, 48),
+      zip64RecordOffset,
+    };
+    // Fields that fit are allowed to be copied into the standard record instead of masked
+    if (
+      (eocd.entryCount !== 0xffff && eocd.entryCount !== zip64Eocd.entryCount) ||
+      (eocd.centralDirectorySize !== 0xffffffff &&
+        eocd.centralDirectorySize !== zip64Eocd.centralDirectorySize) ||
+      (eocd.centralDirectoryOffset !== 0xffffffff &&
+        eocd.centralDirectoryOffset !== zip64Eocd.centralDirectoryOffset)
+    ) {
+      throw new Error('End of central directory records disagree');
+    }
+    return zip64Eocd;
+  }
+
+  /**
+   * Checks that the archive is consistent with its central directory: the end of central
+   * directory records, the local file headers, the data descriptors, and the CRC-32 and size
+   * of every entry. Entries must be contiguous, starting at the beginning of the archive.
+   * @param cdBuffers the central directory, from `getCentralDirectory`
+   * @throws Error describing the first problem found
+   */
+  async verify(cdBuffers: CentralDirectory[]): Promise<void> {
+    const eocd = await this.getEndOfCentralDirectory();
+    if (eocd.entryCount !== cdBuffers.length) {
+      throw new Error(
+        `End of central directory lists [${eocd.entryCount}] entries, found [${cdBuffers.length}]`
+      );
+    }
+    if (
+      eocd.zip64RecordOffset !== undefined &&
+      eocd.zip64RecordOffset !== eocd.centralDirectoryOffset + eocd.centralDirectorySize
+    ) {
+      throw new Error(
+        'ZIP64 end of central directory record does not follow the central directory'
+      );
+    }
+    const cdStart = Buffer.from(
+      await this.getChunk(eocd.centralDirectoryOffset, eocd.centralDirectoryOffset + 4)
+    );
+    if (cdStart.length < 4 || cdStart.readUInt32LE(0) !== CD_SIGNATURE) {
+      throw new Error(`No central directory at [${eocd.centralDirectoryOffset}]`);
     }
 
-    // They should be in the correct order. Since we iterate backwards, it's built backwards.
-    return cdBuffers.reverse();
+    const entries = [...cdBuffers].sort(
+      (a, b) => a.relativeOffsetOfLocalHeader - b.relativeOffsetOfLocalHeader
+    );
+    let offset = 0;
+    for (const cdObj of entries) {
+      if (cdObj.relativeOffsetOfLocalHeader !== offset) {
+        throw new Error(
+          `[${cdObj.fileName}] starts at [${cdObj.relativeOffsetOfLocalHeader}], expected [${offset}]`
+        );
+      }
+      offset = await this.verifyEntry(cdObj);
+    }
+    if (offset !== eocd.centralDirectoryOffset) {
+      throw new Error(
+        `Central directory starts at [${eocd.centralDirectoryOffset}], expected [${offset}]`
+      );
+    }
+  }
+
+  /**
+   * Checks a single entry against its central directory record.
+   * @returns the offset just past the entry and its data descriptor
+   */
+  async verifyEntry(cdObj: CentralDirectory): Promise<number> {
+    const { fileName, relativeOffsetOfLocalHeader, headerLength } = cdObj;
+    const headerBuffer = Buffer.from(
+      await this.getChunk(relativeOffsetOfLocalHeader, relativeOffsetOfLocalHeader + headerLength)
+    );
+    if (
+      headerBuffer.length < LOCAL_FILE_HEADER_FIXED_SIZE ||
+      headerBuffer.readUInt32LE(0) !== LOCAL_FILE_HEADER_SIGNATURE
+    ) {
+      throw new Error(`Invalid local file header for [${fileName}]`);
+    }
+    const fileNameLength = headerBuffer.readUInt16LE(26);
+    const localFileName = headerBuffer.toString(
+      'utf8',
+      LOCAL_FILE_HEADER_FIXED_SIZE,
+      LOCAL_FILE_HEADER_FIXED_SIZE + fileNameLength
+    );
+    if (localFileName !== fileName) {
+      throw new Error(`Local file header for [${fileName}] is named [${localFileName}]`);
+    }
+    if (cdObj.compressionMethod !== NO_COMPRESSION) {
+      throw new Error(`Unsupported compression method for [${fileName}]`);
+    }
+    if (cdObj.compressedSize !== cdObj.uncompressedSize) {
+      throw new Error(`Stored sizes for [${fileName}] differ`);
+    }
+
+    const dataStart = relativeOffsetOfLocalHeader + headerLength;
+    const dataEnd = dataStart + cdObj.compressedSize;
+    let crc = 0;
+    for (let i = dataStart; i < dataEnd; i += VERIFY_CHUNK_SIZE) {
+      const chunk = await this.getChunk(i, Math.min(i + VERIFY_CHUNK_SIZE, dataEnd));
+      if (!chunk.length) {
+        throw new Error(`Unexpected end of archive in [${fileName}]`);
+      }
+      crc = crc32(chunk, crc);
+    }
+    if (crc !== cdObj.crc32) {
+      throw new Error(`CRC-32 mismatch for [${fileName}]`);
+    }
+
+    // eslint-disable-next-line no-bitwise
+    if (!(cdObj.generalPurposeBitFlag & UNKNOWN_CRC32_AND_FILE_SIZES)) {
+      if (headerBuffer.readUInt32LE(14) !== cdObj.crc32) {
+        throw new Error(`Local file header CRC-32 mismatch for [${fileName}]`);
+      }
+      return dataEnd;
+    }
+
+    // A ZIP64 extra field in the local header means the data descriptor uses 8 byte sizes
+    const extraFieldStart = LOCAL_FILE_HEADER_FIXED_SIZE + fileNameLength;
+    const isZip64 =
+      headerBuffer.readUInt16LE(28) >= 4 && headerBuffer.readUInt16LE(extraFieldStart) === 0x0001;
+    const descriptorBuffer = Buffer.from(await this.getChunk(dataEnd, dataEnd + 24));
+    const signatureLength =
+      descriptorBuffer.length >= 4 && descriptorBuffer.readUInt32LE(0) === DATA_DESCRIPTOR_SIGNATURE
+        ? 4
+        : 0;
+    const descriptorLength = signatureLength + (isZip64 ? 20 : 12);
+    if (descriptorBuffer.length < descriptorLength) {
+      throw new Error(`Missing data descriptor for [${fileName}]`);
+    }
+    const descriptorCrc = descriptorBuffer.readUInt32LE(signatureLength);
+    const descriptorSize = isZip64
+      ? readUInt64LE(descriptorBuffer, signatureLength + 4)
+      : descriptorBuffer.readUInt32LE(signatureLength + 4);
+    if (descriptorCrc !== cdObj.crc32 || descriptorSize !== cdObj.compressedSize) {
+      throw new Error(`Data descriptor for [${fileName}] does not match the central directory`);
+    }
+    return dataEnd + descriptorLength;
+  }
+}
+
+/**
+ * Finds the end of central directory record in the last part of an archive. The record is
+ * accepted only if its comment runs exactly to the end of the buffer, so a signature that
+ * appears inside the comment or the data before it is skipped.
+ * @param chunkBuffer the last part of the archive
+ * @returns the offset of the record in the buffer, or -1
+ */
+function findEndOfCentralDirectoryRecord(chunkBuffer: Buffer): number {
+  for (let i = chunkBuffer.length - END_OF_CENTRAL_DIRECTORY_RECORD_SIZE; i >= 0; i--) {
+    if (
+      chunkBuffer.readUInt32LE(i) === EOCDR_SIGNATURE &&
+      i + END_OF_CENTRAL_DIRECTORY_RECORD_SIZE + chunkBuffer.readUInt16LE(i + 20) ===
+        chunkBuffer.length
+    ) {
+      return i;
+    }
   }
+  return -1;
 }
 
 function parseCentralDirectoryWithNoExtras(cdBuffer: Buffer): CentralDirectory {
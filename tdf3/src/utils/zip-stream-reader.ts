@@ -0,0 +1,232 @@
+import { readUInt64LE } from './zip-reader.js';
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CD_SIGNATURE = 0x02014b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const LOCAL_FILE_HEADER_FIXED_SIZE = 30;
+const DATA_DESCRIPTOR_SIZE = 16;
+const ZIP64_DATA_DESCRIPTOR_SIZE = 24;
+const UNKNOWN_CRC32_AND_FILE_SIZES = 1 << 3;
+const NO_COMPRESSION = 0;
+
+export type LocalFileHeader = {
+  // General purpose bit flag
+  generalPurposeBitFlag: number;
+  // Compression method
+  compressionMethod: number;
+  // CRC-32, or 0 if it is stored in the data descriptor
+  crc32: number;
+  // Compressed size, or undefined if it is stored in the data descriptor
+  compressedSize?: number;
+  // File name
+  fileName: string;
+  // If the entry has a zip64 extended information extra field
+  isZip64: boolean;
+};
+
+/**
+ * ZipStreamReader -
+ *
+ * Reads the entries of a zip archive front to back, as written by `ZipWriter`, without
+ * needing to seek. Only uncompressed (STORE) entries are supported. Entries with unknown
+ * sizes are delimited by finding a data descriptor whose recorded size matches the
+ * number of bytes read and which is followed by another zip record.
+ */
+export class ZipStreamReader {
+  reader: ReadableStreamDefaultReader<Uint8Array>;
+
+  pending: Buffer;
+
+  done: boolean;
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.reader = stream.getReader();
+    this.pending = Buffer.alloc(0);
+    this.done = false;
+  }
+
+  /**
+   * Read from the source until at least `byteCount` bytes are pending.
+   * @returns false if the stream ended first
+   */
+  async fill(byteCount: number): Promise<boolean> {
+    while (this.pending.length < byteCount && !this.done) {
+      const { value, done } = await this.reader.read();
+      if (done) {
+        this.done = true;
+      } else if (value) {
+        this.pending = Buffer.concat([this.pending, value]);
+      }
+    }
+    return this.pending.length >= byteCount;
+  }
+
+  consume(byteCount: number): Buffer {
+    const result = this.pending.subarray(0, byteCount);
+    this.pending = this.pending.subarray(byteCount);
+    return result;
+  }
+
+  /**
+   * Reads the next local file header.
+   * @returns the header, or null once the central directory (or the end of the stream) is reached
+   */
+  async nextEntry(): Promise<LocalFileHeader | null> {
+    if (!(await this.fill(4))) {
+      return null;
+    }
+    const signature = this.pending.readUInt32LE(0);
+    if (signature === CD_SIGNATURE) {
+      return null;
+    }
+    if (signature !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw new Error('Invalid local file header signature');
+    }
+    if (!(await this.fill(LOCAL_FILE_HEADER_FIXED_SIZE))) {
+      throw new Error('Unexpected end of stream in local file header');
+    }
+    const fileNameLength = this.pending.readUInt16LE(26);
+    const extraFieldLength = this.pending.readUInt16LE(28);
+    const headerLength = LOCAL_FILE_HEADER_FIXED_SIZE + fileNameLength + extraFieldLength;
+    if (!(await this.fill(headerLength))) {
+      throw new Error('Unexpected end of stream in local file header');
+    }
+    const headerBuffer = this.consume(headerLength);
+    const generalPurposeBitFlag = headerBuffer.readUInt16LE(6);
+    const compressionMethod = headerBuffer.readUInt16LE(8);
+    const crc32 = headerBuffer.readUInt32LE(14);
+    let compressedSize: number | undefined = headerBuffer.readUInt32LE(18);
+    const fileName = headerBuffer.toString(
+      'utf8',
+      LOCAL_FILE_HEADER_FIXED_SIZE,
+      LOCAL_FILE_HEADER_FIXED_SIZE + fileNameLength
+    );
+    const zip64Eief = findZip64ExtraField(
+      headerBuffer.subarray(LOCAL_FILE_HEADER_FIXED_SIZE + fileNameLength)
+    );
+    if (compressedSize === 0xffffffff && zip64Eief && zip64Eief.length >= 16) {
+      // The zip64 field holds the uncompressed size first, then the compressed size
+      compressedSize = readUInt64LE(zip64Eief, 8);
+    }
+    // eslint-disable-next-line no-bitwise
+    if (generalPurposeBitFlag & UNKNOWN_CRC32_AND_FILE_SIZES) {
+      compressedSize = undefined;
+    }
+    if (compressionMethod !== NO_COMPRESSION) {
+      throw new Error(`Unsupported compression method [${compressionMethod}] for [${fileName}]`);
+    }
+    return {
+      generalPurposeBitFlag,
+      compressionMethod,
+      crc32,
+      compressedSize,
+      fileName,
+      isZip64: !!zip64Eief,
+    };
+  }
+
+  /**
+   * Reads the content of the entry whose header was just read, passing it to `onData`
+   * in the order it arrives. Also consumes the trailing data descriptor, if any.
+   * @returns the number of bytes in the entry
+   */
+  async readEntry(
+    header: LocalFileHeader,
+    onData: (chunk: Buffer) => void | Promise<void>
+  ): Promise<number> {
+    let byteCount = 0;
+    for await (const chunk of this.entryChunks(header)) {
+      byteCount += chunk.length;
+      await onData(chunk);
+    }
+    return byteCount;
+  }
+
+  /**
+   * Reads the content of the entry whose header was just read, as it arrives, only reading
+   * more of the underlying stream when the next chunk is asked for. Also consumes the trailing
+   * data descriptor, if any.
+   */
+  async *entryChunks(header: LocalFileHeader): AsyncGenerator<Buffer> {
+    if (header.compressedSize !== undefined) {
+      let remaining = header.compressedSize;
+      while (remaining > 0) {
+        if (!this.pending.length && !(await this.fill(1))) {
+          throw new Error(`Unexpected end of stream in [${header.fileName}]`);
+        }
+        const chunk = this.consume(Math.min(remaining, this.pending.length));
+        remaining -= chunk.length;
+        yield chunk;
+      }
+      return;
+    }
+
+    const descriptorSize = header.isZip64 ? ZIP64_DATA_DESCRIPTOR_SIZE : DATA_DESCRIPTOR_SIZE;
+    // A descriptor candidate is only accepted if the next record signature follows it
+    const window = descriptorSize + 4;
+    let byteCount = 0;
+    for (;;) {
+      const hasWindow = await this.fill(window);
+      const limit = hasWindow ? this.pending.length - window : -1;
+      for (let i = 0; i <= limit; i++) {
+        if (this.pending.readUInt32LE(i) !== DATA_DESCRIPTOR_SIGNATURE) {
+          continue;
+        }
+        // Not readUInt64LE, which throws on the unsafe values random content may hold
+        const size = header.isZip64
+          ? this.pending.readUInt32LE(i + 8) + this.pending.readUInt32LE(i + 12) * 0x100000000
+          : this.pending.readUInt32LE(i + 8);
+        const next = this.pending.readUInt32LE(i + descriptorSize);
+        if (
+          size === byteCount + i &&
+          (next === LOCAL_FILE_HEADER_SIGNATURE || next === CD_SIGNATURE)
+        ) {
+          const chunk = this.consume(i);
+          this.consume(descriptorSize);
+          if (i) {
+            yield chunk;
+          }
+          return;
+        }
+      }
+      if (!hasWindow) {
+        throw new Error(`Unable to find the end of [${header.fileName}]`);
+      }
+      // Everything before the last possible descriptor start is entry content
+      const chunk = this.consume(limit + 1);
+      byteCount += chunk.length;
+      yield chunk;
+    }
+  }
+
+  /**
+   * Read and discard the rest of the underlying stream, such as the central directory.
+   */
+  async drain(): Promise<void> {
+    this.pending = Buffer.alloc(0);
+    while (!this.done) {
+      const { done } = await this.reader.read();
+      this.done = !!done;
+    }
+  }
+
+  /**
+   * Stop reading from the underlying stream.
+   */
+  async cancel(reason?: unknown): Promise<void> {
+    await this.reader.cancel(reason);
+  }
+}
+
+function findZip64ExtraField(extraFieldBuffer: Buffer): Buffer | undefined {
+  let i = 0;
+  while (i + 4 <= extraFieldBuffer.length) {
+    const headerId = extraFieldBuffer.readUInt16LE(i);
+    const dataSize = extraFieldBuffer.readUInt16LE(i + 2);
+    if (headerId === 0x0001) {
+      return extraFieldBuffer.subarray(i + 4, i + 4 + dataSize);
+    }
+    i += 4 + dataSize;
+  }
+  return undefined;
+}
@@ -0,0 +1,140 @@
+import { base64 } from '../../src/encodings/index.js';
+import { DEFAULT_SEGMENT_SIZE } from './client/builders.js';
+import { TdfCorruptError } from './errors.js';
+import { type Manifest } from './models/index.js';
+import { type ArchiveEntry, TDF } from './tdf.js';
+import { type Chunker, ZipReader } from './utils/index.js';
+import { type CentralDirectory } from './utils/zip-reader.js';
+
+// Length of the AES-GCM auth tag that ends each encrypted segment
+const GMAC_TAG_LENGTH = 16;
+
+export type EntryVerification = {
+  index: number;
+  payloadName: string;
+  segmentCount: number;
+  // Whether the segment hashes were checked; only GMAC hashes can be without the payload key
+  segmentHashesChecked: boolean;
+  // Problems found in the entry, empty when it is intact
+  issues: string[];
+};
+
+export type VerificationReport = {
+  // Whether no problems were found in the archive or any of its entries
+  valid: boolean;
+  container: 'zip' | 'html';
+  // Problems with the archive as a whole, such as a broken central directory
+  issues: string[];
+  entries: EntryVerification[];
+};
+
+function reasonOf(e: unknown): string {
+  return e instanceof TdfCorruptError ? e.reason : `${e}`;
+}
+
+async function verifyEntry(
+  zipReader: ZipReader,
+  centralDirectory: CentralDirectory[],
+  { index, payloadName, manifestName, encryptedSize }: ArchiveEntry
+): Promise<EntryVerification> {
+  const verification: EntryVerification = {
+    index,
+    payloadName,
+    segmentCount: 0,
+    segmentHashesChecked: false,
+    issues: [],
+  };
+  let manifest: Manifest;
+  try {
+    manifest = await zipReader.getManifest(centralDirectory, manifestName);
+  } catch (e) {
+    verification.issues.push(reasonOf(e));
+    return verification;
+  }
+
+  const { segments, segmentHashAlg, encryptedSegmentSizeDefault } =
+    manifest.encryptionInformation.integrityInformation;
+  const defaultSize = encryptedSegmentSizeDefault || DEFAULT_SEGMENT_SIZE;
+  verification.segmentCount = segments.length;
+  const sizes = segments.map(({ encryptedSegmentSize = defaultSize }) => encryptedSegmentSize);
+  const segmentsSize = sizes.reduce((total, size) => total + size, 0);
+  if (segmentsSize !== encryptedSize) {
+    verification.issues.push(
+      `[${payloadName}] has [${encryptedSize}] bytes, but its [${segments.length}] segments have [${segmentsSize}]`
+    );
+    // Segment offsets are meaningless once the sizes disagree
+    return verification;
+  }
+  if (segmentHashAlg.toLowerCase() !== 'gmac') {
+    return verification;
+  }
+
+  let offset = 0;
+  for (const [i, { hash }] of segments.entries()) {
+    const size = sizes[i];
+    if (size < GMAC_TAG_LENGTH) {
+      verification.issues.push(`[${payloadName}] segment [${i}] is too short for an auth tag`);
+    } else {
+      const segment = await zipReader.getPayloadSegment(
+        centralDirectory,
+        payloadName,
+        offset,
+        size
+      );
+      // Encoded as TDF#getSignature does for gmac
+      const tag = segment.subarray(-GMAC_TAG_LENGTH).toString('hex');
+      if (hash !== base64.encode(tag)) {
+        verification.issues.push(
+          `[${payloadName}] segment [${i}] hash does not match its auth tag`
+        );
+      }
+    }
+    offset += size;
+  }
+  verification.segmentHashesChecked = true;
+  return verification;
+}
+
+/**
+ * Check that a TDF archive is intact without its payload key: its zip structure, its manifests
+ * against their schema, its segment sizes against its payloads and, for GMAC segment hashes,
+ * each hash against the auth tag of its segment. The root signature and HS256 segment hashes
+ * need the payload key, so are left to decrypt.
+ * @param chunker the zip archive, unwrapped from its html wrapper if it had one
+ * @param container the container the archive came in
+ * @param htmlManifest the `data-manifest` of the html wrapper, checked against the archive
+ * @returns every problem found, rather than throwing at the first
+ */
+export async function verifyArchive(
+  chunker: Chunker,
+  container: VerificationReport['container'],
+  htmlManifest?: Promise<string>
+): Promise<VerificationReport> {
+  const report: VerificationReport = { valid: false, container, issues: [], entries: [] };
+  let zipReader: ZipReader;
+  let centralDirectory: CentralDirectory[];
+  try {
+    await TDF.verifyContainer(chunker);
+    zipReader = new ZipReader(chunker);
+    centralDirectory = await zipReader.getCentralDirectory();
+  } catch (e) {
+    report.issues.push(reasonOf(e));
+    return report;
+  }
+  const entries = await TDF.listEntries(chunker);
+  if (!entries.length) {
+    report.issues.push('No payload with a manifest');
+  }
+  for (const entry of entries) {
+    report.entries.push(await verifyEntry(zipReader, centralDirectory, entry));
+  }
+  if (htmlManifest) {
+    try {
+      await TDF.verifyHtmlManifest(chunker, htmlManifest);
+    } catch (e) {
+      report.issues.push(reasonOf(e));
+    }
+  }
+  report.valid = !report.issues.length && report.entries.every(({ issues }) => !issues.length);
+  return report;
+}
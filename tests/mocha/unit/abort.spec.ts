@@ -0,0 +1,179 @@
+import axios, { type AxiosRequestConfig } from 'axios';
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { DecoratedReadableStream } from '../../../tdf3/src/client/DecoratedReadableStream.js';
+import { fromUrl } from '../../../tdf3/src/utils/chunkers.js';
+import { fetchWrappedKey } from '../../../src/kas.js';
+import { authProvider, createClient, stubKas } from '../../mocks/fake-kas.js';
+
+const plaintext = new Uint8Array(100).map((_, i) => i);
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(): Promise<Buffer> {
+  const encryptParams = new EncryptParamsBuilder()
+    .withBufferSource(Buffer.from(plaintext))
+    .withStreamWindowSize(16)
+    .withOffline()
+    .build();
+  const stream = await createClient().encrypt(encryptParams);
+  return stream.toBuffer();
+}
+
+async function expectAbortError(promise: Promise<unknown>) {
+  try {
+    await promise;
+    expect.fail('did not throw');
+  } catch (e) {
+    expect((e as Error).name).to.equal('AbortError');
+  }
+}
+
+describe('abort signals', () => {
+  it('fails a decrypt that was aborted before it began', async () => {
+    const requests = stubKas(box);
+    const ciphertext = await encrypt();
+    await expectAbortError(
+      createClient().decrypt({
+        source: { type: 'buffer', location: ciphertext },
+        signal: AbortSignal.abort(),
+      })
+    );
+    expect(requests).to.be.empty;
+  });
+
+  it('cancels a rewrap in flight', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    box.restore();
+    let signal: AbortSignal | undefined;
+    box.stub(axios, 'post').callsFake(
+      (_url: string, _body: unknown, config?: AxiosRequestConfig) =>
+        new Promise((_, reject) => {
+          signal = config?.signal as AbortSignal;
+          signal?.addEventListener('abort', () => reject(new axios.CanceledError()));
+        })
+    );
+    const controller = new AbortController();
+    const decrypting = createClient().decrypt({
+      source: { type: 'buffer', location: ciphertext },
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(signal).to.equal(controller.signal);
+    controller.abort();
+    await expectAbortError(decrypting);
+  });
+
+  it('errors a plaintext stream when aborted', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    const controller = new AbortController();
+    const stream = await createClient().decrypt({
+      source: { type: 'buffer', location: ciphertext },
+      signal: controller.signal,
+      batchSize: 1,
+    });
+    const reader = stream.stream.getReader();
+    expect((await reader.read()).value).to.have.lengthOf(16);
+    controller.abort();
+    await expectAbortError(reader.read());
+  });
+
+  it('errors a ciphertext stream and cancels its source when aborted', async () => {
+    stubKas(box);
+    let cancelled: unknown;
+    const source = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new Uint8Array(16));
+      },
+      cancel(reason) {
+        cancelled = reason;
+      },
+    });
+    const controller = new AbortController();
+    const stream = await createClient().encrypt(
+      new EncryptParamsBuilder()
+        .withStreamSource(source)
+        .withStreamWindowSize(16)
+        .withOffline()
+        .withSignal(controller.signal)
+        .build()
+    );
+    const reader = stream.stream.getReader();
+    await reader.read();
+    controller.abort();
+    await expectAbortError(reader.read());
+    expect((cancelled as Error).name).to.equal('AbortError');
+  });
+
+  it('stops listening once a stream closes, errors or is cancelled', async () => {
+    const cancel = box.stub().rejects(new Error('already gone'));
+    const sources = [
+      {
+        pull(controller: ReadableStreamDefaultController) {
+          controller.enqueue(new Uint8Array([1]));
+          controller.close();
+        },
+      },
+      {
+        pull() {
+          throw new Error('broken');
+        },
+      },
+    ];
+    for (const source of sources) {
+      const controller = new AbortController();
+      const stream = new DecoratedReadableStream({ ...source, cancel, signal: controller.signal });
+      await stream.toBuffer().catch(() => undefined);
+      controller.abort();
+    }
+    const controller = new AbortController();
+    const stream = new DecoratedReadableStream({ cancel, signal: controller.signal });
+    await stream.stream.cancel('done').catch(() => undefined);
+    controller.abort();
+    expect(cancel.args).to.eql([['done']]);
+  });
+
+  it('cancels the source when aborted, ignoring cancel failures', async () => {
+    const cancel = box.stub().rejects(new Error('already gone'));
+    const controller = new AbortController();
+    const stream = new DecoratedReadableStream({ cancel, signal: controller.signal });
+    const unhandled = box.spy();
+    process.on('unhandledRejection', unhandled);
+    try {
+      controller.abort();
+      await expectAbortError(stream.toBuffer());
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+    expect(cancel.callCount).to.equal(1);
+    expect(unhandled.called).to.be.false;
+  });
+
+  it('cancels remote chunk reads', async () => {
+    const chunker = await fromUrl('http://localhost:3000/file', AbortSignal.abort());
+    await expectAbortError(chunker(0, 16));
+  });
+
+  it('cancels nano rewrap requests', async () => {
+    await expectAbortError(
+      fetchWrappedKey(
+        'http://localhost:3000/rewrap',
+        { signedRequestToken: '' },
+        authProvider,
+        '0.0.1',
+        AbortSignal.abort()
+      )
+    );
+  });
+});
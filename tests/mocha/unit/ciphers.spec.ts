@@ -0,0 +1,124 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { Binary } from '../../../tdf3/src/binary.js';
+import { AesCbcHmacCipher, AesGcmCipher, getCipher } from '../../../tdf3/src/ciphers/index.js';
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import * as cryptoService from '../../../tdf3/src/crypto/index.js';
+import { IllegalArgumentError, TdfDecryptError } from '../../../tdf3/src/errors.js';
+import { TDF } from '../../../tdf3/src/tdf.js';
+import { ZipReader, fromBuffer } from '../../../tdf3/src/utils/index.js';
+import { createClient, stubKas } from '../../mocks/fake-kas.js';
+
+const plaintext = 'encrypted, then authenticated';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(cipher?: string): Promise<Buffer> {
+  const builder = new EncryptParamsBuilder()
+    .withStringSource(plaintext)
+    .withStreamWindowSize(8)
+    .withOffline();
+  if (cipher) {
+    builder.setCipher(cipher);
+  }
+  const stream = await createClient().encrypt(builder.build());
+  return stream.toBuffer();
+}
+
+async function decrypt(archive: Buffer): Promise<string> {
+  const stream = await createClient().decrypt({ source: { type: 'buffer', location: archive } });
+  return stream.toString();
+}
+
+async function readManifest(archive: Buffer) {
+  const zipReader = new ZipReader(fromBuffer(archive));
+  return zipReader.getManifest(await zipReader.getCentralDirectory(), '0.manifest.json');
+}
+
+describe('cipher registry', () => {
+  it('has the built in ciphers', () => {
+    expect(getCipher('aes-256-gcm')).to.equal(AesGcmCipher);
+    expect(getCipher('AES-256-GCM')).to.equal(AesGcmCipher);
+    expect(getCipher('aes-256-cbc-hs256')).to.equal(AesCbcHmacCipher);
+    expect(getCipher('rot13')).to.be.undefined;
+  });
+
+  it('rejects unknown ciphers', () => {
+    expect(() => new EncryptParamsBuilder().withCipher('rot13')).to.throw(IllegalArgumentError);
+    expect(() => TDF.create().setEncryption({ cipher: 'rot13' })).to.throw(/rot13/);
+    expect(() => TDF.create().setEncryption({ type: 'wrapped' })).to.throw(IllegalArgumentError);
+  });
+
+  it('resolves registered ciphers', async () => {
+    class RenamedCipher extends AesGcmCipher {
+      constructor(...args: ConstructorParameters<typeof AesGcmCipher>) {
+        super(...args);
+        this.name = 'X-RENAMED-GCM';
+      }
+    }
+    TDF.registerCipher('x-renamed-gcm', RenamedCipher);
+    stubKas(box);
+    const archive = await encrypt('x-renamed-gcm');
+    const manifest = await readManifest(archive);
+    expect(manifest.encryptionInformation.method.algorithm).to.equal('X-RENAMED-GCM');
+    expect(await decrypt(archive)).to.equal(plaintext);
+  });
+});
+
+describe('AES-256-CBC-HS256', () => {
+  const cipher = new AesCbcHmacCipher(cryptoService);
+
+  it('places the tag at the end of the payload', async () => {
+    const key = Binary.fromArrayBuffer(cryptoService.randomBytes(64).buffer);
+    const iv = Binary.fromArrayBuffer(cryptoService.randomBytes(16).buffer);
+    const { payload, authTag } = await cipher.encrypt(Binary.fromString(plaintext), key, iv);
+    const buffer = payload.asBuffer();
+    expect(buffer.subarray(0, 16).equals(iv.asBuffer())).to.be.true;
+    expect(buffer.subarray(-16).equals(authTag?.asBuffer() as Buffer)).to.be.true;
+    const { payload: decrypted } = await cipher.decrypt(buffer, key);
+    expect(decrypted.asString()).to.equal(plaintext);
+  });
+
+  it('rejects a tampered payload before decrypting', async () => {
+    const key = Binary.fromArrayBuffer(cryptoService.randomBytes(64).buffer);
+    const iv = Binary.fromArrayBuffer(cryptoService.randomBytes(16).buffer);
+    const { payload } = await cipher.encrypt(Binary.fromString(plaintext), key, iv);
+    const buffer = payload.asBuffer();
+    buffer[20] ^= 1;
+    try {
+      await cipher.decrypt(buffer, key);
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(TdfDecryptError);
+    }
+  });
+
+  it('round trips a TDF and records the algorithm', async () => {
+    stubKas(box);
+    const archive = await encrypt('aes-256-cbc-hs256');
+    const manifest = await readManifest(archive);
+    expect(manifest.encryptionInformation.method.algorithm).to.equal('AES-256-CBC-HS256');
+    expect(await decrypt(archive)).to.equal(plaintext);
+  });
+
+  it('keeps the cipher when the policy is updated', async () => {
+    stubKas(box);
+    const updated = await (
+      await createClient().updatePolicy({
+        source: { type: 'buffer', location: await encrypt('aes-256-cbc-hs256') },
+        scope: { dissem: ['bob@example.com'] },
+        offline: true,
+      })
+    ).toBuffer();
+    const manifest = await readManifest(updated);
+    expect(manifest.encryptionInformation.method.algorithm).to.equal('AES-256-CBC-HS256');
+    expect(await decrypt(updated)).to.equal(plaintext);
+  });
+});
@@ -0,0 +1,153 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+import { deflateSync, gunzipSync, gzipSync, inflateSync } from 'zlib';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { IllegalArgumentError } from '../../../tdf3/src/errors.js';
+import { type TdfInspection } from '../../../tdf3/src/inspect.js';
+import { type CompressionCodec } from '../../../tdf3/src/utils/compression.js';
+import { Compressor, decompress } from '../../../tdf3/src/utils/deflate.js';
+import { createClient, stubKas } from '../../mocks/fake-kas.js';
+
+const plaintext = Buffer.from(
+  Array.from({ length: 400 }, (_, i) => `${i},alice@example.com,${i % 7},ok\n`).join('')
+);
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+// As in runtimes that lack them; returns a function that puts them back
+function withoutCompressionStreams() {
+  const stubs = [
+    box.stub(globalThis, 'CompressionStream').value(undefined),
+    box.stub(globalThis, 'DecompressionStream').value(undefined),
+  ];
+  return () => stubs.forEach((stub) => stub.restore());
+}
+
+async function encrypt(compression?: CompressionCodec): Promise<Buffer> {
+  const builder = new EncryptParamsBuilder()
+    .withBufferSource(plaintext)
+    .withStreamWindowSize(1024)
+    .withOffline();
+  if (compression) {
+    builder.withCompression(compression);
+  }
+  const stream = await createClient().encrypt(builder.build());
+  return stream.toBuffer();
+}
+
+async function decrypt(ciphertext: Buffer): Promise<Buffer> {
+  const stream = await createClient().decrypt({
+    source: { type: 'buffer', location: ciphertext },
+  });
+  return stream.toBuffer();
+}
+
+function compressInChunks(data: Buffer, codec: CompressionCodec): Buffer {
+  const compressor = new Compressor(codec);
+  const chunks = [];
+  for (let i = 0; i < data.length; i += 1000) {
+    chunks.push(compressor.push(data.subarray(i, i + 1000)));
+  }
+  chunks.push(compressor.finish());
+  return Buffer.concat(chunks);
+}
+
+describe('compression', () => {
+  describe('javascript codec', () => {
+    it('writes streams that zlib reads', () => {
+      expect(inflateSync(compressInChunks(plaintext, 'deflate')).equals(plaintext)).to.be.true;
+      expect(gunzipSync(compressInChunks(plaintext, 'gzip')).equals(plaintext)).to.be.true;
+      expect(inflateSync(compressInChunks(Buffer.alloc(0), 'deflate'))).to.have.lengthOf(0);
+    });
+
+    it('reads streams that zlib writes', () => {
+      for (const level of [0, 1, 9]) {
+        expect(Buffer.from(decompress(deflateSync(plaintext, { level }), 'deflate'))).to.eql(
+          plaintext
+        );
+        expect(Buffer.from(decompress(gzipSync(plaintext, { level }), 'gzip'))).to.eql(plaintext);
+      }
+    });
+
+    it('rejects corrupt streams', () => {
+      const compressed = deflateSync(plaintext);
+      compressed[compressed.length - 1] ^= 1;
+      expect(() => decompress(compressed, 'deflate')).to.throw(/Checksum mismatch/);
+      expect(() => decompress(gzipSync(plaintext).subarray(0, 20), 'gzip')).to.throw(
+        /ended unexpectedly/
+      );
+    });
+  });
+
+  for (const codec of ['deflate', 'gzip'] as const) {
+    it(`compresses with ${codec} before encrypting`, async () => {
+      stubKas(box);
+      const ciphertext = await encrypt(codec);
+      expect(ciphertext.length).to.be.below((await encrypt()).length / 3);
+      const inspection = (await createClient().inspect({
+        source: { type: 'buffer', location: ciphertext },
+      })) as TdfInspection;
+      expect(inspection.entries[0].compression).to.equal(codec);
+      expect((await decrypt(ciphertext)).equals(plaintext)).to.be.true;
+    });
+  }
+
+  it('compresses and decompresses without CompressionStream', async () => {
+    stubKas(box);
+    const natively = await encrypt('gzip');
+    const restore = withoutCompressionStreams();
+    const ciphertext = await encrypt('gzip');
+    expect((await decrypt(ciphertext)).equals(plaintext)).to.be.true;
+    expect((await decrypt(natively)).equals(plaintext)).to.be.true;
+    restore();
+    expect((await decrypt(ciphertext)).equals(plaintext)).to.be.true;
+  });
+
+  it('decompresses streamed archives', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt('deflate');
+    const stream = await createClient().decrypt({
+      source: { type: 'stream', location: new Blob([ciphertext]).stream() },
+    });
+    expect((await stream.toBuffer()).equals(plaintext)).to.be.true;
+  });
+
+  it('rejects ranges of compressed payloads before contacting KAS', async () => {
+    const requests = stubKas(box);
+    const ciphertext = await encrypt('deflate');
+    for (const [start, end] of [
+      [0, 10],
+      [plaintext.length - 3, undefined],
+    ]) {
+      let error: unknown;
+      try {
+        await createClient().decryptRange({
+          source: { type: 'buffer', location: ciphertext },
+          start: start as number,
+          end,
+        });
+      } catch (e) {
+        error = e;
+      }
+      expect(error)
+        .to.be.instanceOf(IllegalArgumentError)
+        .with.property('message')
+        .that.contains("Ranges of compressed payloads can't be decrypted [deflate]");
+    }
+    expect(requests).to.be.empty;
+  });
+
+  it('rejects unknown codecs', () => {
+    expect(() => new EncryptParamsBuilder().withCompression('zstd' as CompressionCodec)).to.throw(
+      IllegalArgumentError,
+      'Unsupported compression [zstd]'
+    );
+  });
+});
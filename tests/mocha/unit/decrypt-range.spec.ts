@@ -0,0 +1,141 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { IllegalArgumentError, ManifestIntegrityError } from '../../../tdf3/src/errors.js';
+import { ZipReader } from '../../../tdf3/src/utils/zip-reader.js';
+import { createClient, stubKas } from '../../mocks/fake-kas.js';
+
+const segmentSize = 16;
+const plaintext = new Uint8Array(100).map((_, i) => i);
+const readerUrl = 'https://local.virtru.com/start?htmlProtocol=1';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(asHtml = false): Promise<Buffer> {
+  const client = createClient({ readerUrl });
+  const builder = new EncryptParamsBuilder()
+    .withBufferSource(Buffer.from(plaintext))
+    .withStreamWindowSize(segmentSize)
+    .withOffline();
+  if (asHtml) {
+    builder.withHtmlFormat();
+  }
+  const stream = await client.encrypt(builder.build());
+  return stream.toBuffer();
+}
+
+describe('decryptRange', () => {
+  for (const [start, end] of [
+    [0, 100],
+    [0, 1],
+    [15, 17],
+    [16, 32],
+    [40, 41],
+    [33, 95],
+    [99, 100],
+    [50, 50],
+  ]) {
+    it(`decrypts [${start}, ${end})`, async () => {
+      stubKas(box);
+      const ciphertext = await encrypt();
+      const client = createClient();
+      const stream = await client.decryptRange({
+        source: { type: 'buffer', location: ciphertext },
+        start,
+        end,
+      });
+      expect(stream.contentLength).to.equal(end - start);
+      const actual = await stream.toBuffer();
+      expect(Array.from(actual)).to.eql(Array.from(plaintext.slice(start, end)));
+    });
+  }
+
+  it('reads to the end of the payload by default', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    const stream = await createClient().decryptRange({
+      source: { type: 'buffer', location: ciphertext },
+      start: 90,
+    });
+    expect(Array.from(await stream.toBuffer())).to.eql(Array.from(plaintext.slice(90)));
+  });
+
+  it('only fetches overlapping segments', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    const getPayloadSegment = box.spy(ZipReader.prototype, 'getPayloadSegment');
+    const stream = await createClient().decryptRange({
+      source: { type: 'buffer', location: ciphertext },
+      start: 40,
+      end: 41,
+    });
+    await stream.toBuffer();
+    expect(getPayloadSegment.callCount).to.equal(1);
+    // third segment: two 44 byte encrypted segments precede it
+    expect(getPayloadSegment.firstCall.args.slice(2)).to.eql([88, 44]);
+  });
+
+  it('rejects invalid ranges before contacting KAS', async () => {
+    const requests = stubKas(box);
+    const ciphertext = await encrypt();
+    try {
+      await createClient().decryptRange({
+        source: { type: 'buffer', location: ciphertext },
+        start: 20,
+        end: 10,
+      });
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(IllegalArgumentError);
+    }
+    expect(requests.filter((url) => url.endsWith('/rewrap'))).to.be.empty;
+  });
+
+  it('rejects html whose manifest does not match the zip', async () => {
+    const requests = stubKas(box);
+    const html = (await encrypt(true)).toString();
+    const manifestRe = /(id="data-manifest" type="hidden" value=")([^"]*)"/;
+    const [, , encoded] = manifestRe.exec(html) as RegExpExecArray;
+    const manifest = JSON.parse(atob(encoded));
+    manifest.payload.mimeType = 'text/html';
+    const tampered = Buffer.from(html.replace(manifestRe, `$1${btoa(JSON.stringify(manifest))}"`));
+    try {
+      await createClient().decryptRange({
+        source: { type: 'buffer', location: tampered },
+        start: 0,
+        end: 1,
+      });
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(ManifestIntegrityError);
+    }
+    expect(requests.filter((url) => url.endsWith('/rewrap'))).to.be.empty;
+  });
+
+  it('fails on a corrupted segment', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    // The payload begins after the local file header. Flip a byte in the auth tag of the
+    // third segment, which is also its GMAC segment hash.
+    const payloadStart = ciphertext.indexOf('0.payload') + '0.payload'.length + 28;
+    ciphertext[payloadStart + 88 + 43] ^= 0xff;
+    const stream = await createClient().decryptRange({
+      source: { type: 'buffer', location: ciphertext },
+      start: 40,
+      end: 41,
+    });
+    try {
+      await stream.toBuffer();
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(ManifestIntegrityError);
+    }
+  });
+});
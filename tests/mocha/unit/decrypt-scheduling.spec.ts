@@ -0,0 +1,155 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox, SinonSpy } from 'sinon';
+
+import { DecryptParamsBuilder, EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { IllegalArgumentError } from '../../../tdf3/src/errors.js';
+import { ZipReader } from '../../../tdf3/src/utils/zip-reader.js';
+import { createClient, stubKas } from '../../mocks/fake-kas.js';
+
+// 7 segments of 16 bytes, the last one short
+const segmentSize = 16;
+const plaintext = new Uint8Array(100).map((_, i) => i);
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(): Promise<Buffer> {
+  const encryptParams = new EncryptParamsBuilder()
+    .withBufferSource(Buffer.from(plaintext))
+    .withStreamWindowSize(segmentSize)
+    .withOffline()
+    .build();
+  const stream = await createClient().encrypt(encryptParams);
+  return stream.toBuffer();
+}
+
+// The number of segments fetched by each range request for the payload
+function batchSizes(getPayloadSegment: SinonSpy, encryptedSegmentSize: number): number[] {
+  return getPayloadSegment.getCalls().map(({ args }) => Math.ceil(args[3] / encryptedSegmentSize));
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('decrypt scheduling', () => {
+  it('fetches segments in batches', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    const getPayloadSegment = box.spy(ZipReader.prototype, 'getPayloadSegment');
+    const stream = await createClient().decrypt({
+      source: { type: 'buffer', location: ciphertext },
+      batchSize: 3,
+    });
+    expect(Array.from(await stream.toBuffer())).to.eql(Array.from(plaintext));
+    const encryptedSegmentSize = stream.manifest?.encryptionInformation.integrityInformation
+      .encryptedSegmentSizeDefault as number;
+    expect(batchSizes(getPayloadSegment, encryptedSegmentSize)).to.eql([3, 3, 1]);
+    expect(getPayloadSegment.getCalls().map(({ args }) => args[2])).to.eql([
+      0,
+      3 * encryptedSegmentSize,
+      6 * encryptedSegmentSize,
+    ]);
+  });
+
+  it('fetches no further ahead than the concurrency', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    const getPayloadSegment = box.spy(ZipReader.prototype, 'getPayloadSegment');
+    const stream = await createClient().decrypt({
+      source: { type: 'buffer', location: ciphertext },
+      batchSize: 1,
+      concurrency: 2,
+    });
+    await tick();
+    expect(getPayloadSegment.callCount).to.equal(2);
+    expect(Array.from(await stream.toBuffer())).to.eql(Array.from(plaintext));
+    expect(getPayloadSegment.callCount).to.equal(7);
+  });
+
+  it('pauses fetching once the buffer is full', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    const getPayloadSegment = box.spy(ZipReader.prototype, 'getPayloadSegment');
+    const stream = await createClient().decrypt({
+      source: { type: 'buffer', location: ciphertext },
+      batchSize: 2,
+      concurrency: 3,
+      maxBufferedBytes: 1,
+    });
+    await tick();
+    expect(getPayloadSegment.callCount).to.equal(1);
+    const reader = stream.stream.getReader();
+    await reader.read();
+    await reader.read();
+    await tick();
+    expect(getPayloadSegment.callCount).to.equal(2);
+    reader.releaseLock();
+  });
+
+  it('counts decrypted batches by their plaintext', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    const getPayloadSegment = box.spy(ZipReader.prototype, 'getPayloadSegment');
+    // Room for the plaintext of one batch of two segments and the ciphertext of another, but not
+    // for the ciphertext of both
+    const stream = await createClient().decrypt({
+      source: { type: 'buffer', location: ciphertext },
+      batchSize: 2,
+      concurrency: 3,
+      maxBufferedBytes: 130,
+    });
+    await tick();
+    expect(getPayloadSegment.callCount).to.equal(1);
+    const reader = stream.stream.getReader();
+    await reader.read();
+    await tick();
+    expect(getPayloadSegment.callCount).to.equal(2);
+    reader.releaseLock();
+  });
+
+  it('schedules range decrypts', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    const getPayloadSegment = box.spy(ZipReader.prototype, 'getPayloadSegment');
+    const stream = await createClient().decryptRange({
+      source: { type: 'buffer', location: ciphertext },
+      start: 20,
+      end: 70,
+      batchSize: 2,
+    });
+    expect(Array.from(await stream.toBuffer())).to.eql(Array.from(plaintext.slice(20, 70)));
+    expect(getPayloadSegment.callCount).to.equal(2);
+  });
+
+  it('rejects invalid settings', () => {
+    expect(() => new DecryptParamsBuilder().withBatchSize(0)).to.throw(IllegalArgumentError);
+    expect(() => new DecryptParamsBuilder().withConcurrency(-1)).to.throw(IllegalArgumentError);
+    expect(() => new DecryptParamsBuilder().withMaxBufferedBytes(0)).to.throw(IllegalArgumentError);
+    expect(() => new DecryptParamsBuilder().withMaxBufferedBytes(Infinity)).to.throw(
+      IllegalArgumentError
+    );
+  });
+
+  it('rejects buffer sizes that are not positive and finite on decrypt', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    for (const maxBufferedBytes of [0, -1, NaN, Infinity]) {
+      for (const source of [
+        { type: 'buffer', location: ciphertext },
+        { type: 'stream', location: new Blob([ciphertext]).stream() },
+      ] as const) {
+        try {
+          await createClient().decrypt({ source, maxBufferedBytes });
+          expect.fail('did not throw');
+        } catch (e) {
+          expect(e).to.be.an.instanceof(IllegalArgumentError);
+          expect((e as Error).message).to.equal(`Invalid buffer size [${maxBufferedBytes}]`);
+        }
+      }
+    }
+  });
+});
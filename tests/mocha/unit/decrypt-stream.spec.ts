@@ -0,0 +1,257 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import {
+  ManifestIntegrityError,
+  TdfError,
+  TdfPayloadExtractionError,
+} from '../../../tdf3/src/errors.js';
+import { TDF } from '../../../tdf3/src/tdf.js';
+import { ZipReader, ZipWriter, fromBuffer } from '../../../tdf3/src/utils/index.js';
+import { type CentralDirectory } from '../../../tdf3/src/utils/zip-reader.js';
+import { createClient, stubKas } from '../../mocks/fake-kas.js';
+
+const segmentSize = 16;
+const plaintext = new Uint8Array(100).map((_, i) => i);
+const readerUrl = 'https://local.virtru.com/start?htmlProtocol=1';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(asHtml = false): Promise<Buffer> {
+  const builder = new EncryptParamsBuilder()
+    .withBufferSource(Buffer.from(plaintext))
+    .withStreamWindowSize(segmentSize)
+    .withOffline();
+  if (asHtml) {
+    builder.withHtmlFormat();
+  }
+  const stream = await createClient({ readerUrl }).encrypt(builder.build());
+  return stream.toBuffer();
+}
+
+function toStream(buffer: Uint8Array, chunkSize: number): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= buffer.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(buffer.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+// Checks of the manifest fail the decrypt, or the stream once the manifest has been read
+async function decryptFailure(
+  location: ReadableStream<Uint8Array>,
+  maxBufferedBytes?: number
+): Promise<TdfError> {
+  try {
+    const stream = await createClient().decrypt({
+      source: { type: 'stream', location },
+      maxBufferedBytes,
+    });
+    await stream.toBuffer();
+  } catch (e) {
+    return e as TdfError;
+  }
+  throw new Error('did not throw');
+}
+
+// Rewrites an archive with the manifest ahead of the payload, as writers other than `ZipWriter`
+// may order them
+async function manifestFirst(ciphertext: Buffer): Promise<Buffer> {
+  const centralDirectory = await new ZipReader(fromBuffer(ciphertext)).getCentralDirectory();
+  const zipWriter = new ZipWriter();
+  const records: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+  for (const name of ['0.manifest.json', '0.payload']) {
+    const { relativeOffsetOfLocalHeader, headerLength, compressedSize, crc32 } =
+      centralDirectory.find(({ fileName }) => fileName === name) as CentralDirectory;
+    const start = relativeOffsetOfLocalHeader + headerLength;
+    const record = Buffer.concat([
+      zipWriter.getLocalFileHeader(name, 0, 0, 0),
+      ciphertext.subarray(start, start + compressedSize),
+      zipWriter.writeDataDescriptor(crc32, compressedSize),
+    ]);
+    directory.push(
+      zipWriter.writeCentralDirectoryRecord(compressedSize, name, offset, crc32, 2175008768)
+    );
+    records.push(record);
+    offset += record.length;
+  }
+  const directorySize = directory.reduce((total, record) => total + record.length, 0);
+  return Buffer.concat([
+    ...records,
+    ...directory,
+    zipWriter.writeEndOfCentralDirectoryRecord(directory.length, directorySize, offset),
+  ]);
+}
+
+// The offset of the content of an entry
+async function entryStart(archive: Buffer, name: string): Promise<number> {
+  const centralDirectory = await new ZipReader(fromBuffer(archive)).getCentralDirectory();
+  const { relativeOffsetOfLocalHeader, headerLength } = centralDirectory.find(
+    ({ fileName }) => fileName === name
+  ) as CentralDirectory;
+  return relativeOffsetOfLocalHeader + headerLength;
+}
+
+function tamper(ciphertext: Buffer, marker: string): Buffer {
+  const tampered = Buffer.from(ciphertext);
+  const start = tampered.lastIndexOf(marker) + marker.length;
+  tampered[start] = tampered[start] === 0x41 ? 0x42 : 0x41;
+  return tampered;
+}
+
+describe('decrypt stream source', () => {
+  for (const chunkSize of [1, 7, 64, 100000]) {
+    it(`decrypts when read ${chunkSize} bytes at a time`, async () => {
+      stubKas(box);
+      const ciphertext = await encrypt();
+      const spoolForwardStream = box.spy(TDF.prototype, 'spoolForwardStream');
+      const stream = await createClient().decrypt({
+        source: { type: 'stream', location: toStream(ciphertext, chunkSize) },
+      });
+      expect(Array.from(await stream.toBuffer())).to.eql(Array.from(plaintext));
+      expect(spoolForwardStream.callCount).to.equal(1);
+      expect(stream.manifest?.payload.type).to.equal('reference');
+      expect(stream.metadata).to.eql({ hello: 'world' });
+    });
+
+    it(`decrypts the payload after its manifest read ${chunkSize} bytes at a time`, async () => {
+      stubKas(box);
+      const ciphertext = await manifestFirst(await encrypt());
+      await TDF.verifyContainer(fromBuffer(ciphertext));
+      const decryptForwardStream = box.spy(TDF.prototype, 'decryptForwardStream');
+      const stream = await createClient().decrypt({
+        source: { type: 'stream', location: toStream(ciphertext, chunkSize) },
+      });
+      expect(Array.from(await stream.toBuffer())).to.eql(Array.from(plaintext));
+      expect(decryptForwardStream.callCount).to.equal(1);
+      expect(stream.metadata).to.eql({ hello: 'world' });
+    });
+  }
+
+  it('emits plaintext after the manifest before the rest of the payload arrives', async () => {
+    stubKas(box);
+    const ciphertext = await manifestFirst(await encrypt());
+    const payloadStart = await entryStart(ciphertext, '0.payload');
+    const location = toStream(ciphertext.subarray(0, payloadStart + 3 * (segmentSize + 28)), 64);
+    const stream = await createClient().decrypt({ source: { type: 'stream', location } });
+    const reader = stream.stream.getReader();
+    const { value } = await reader.read();
+    expect(Array.from(value as Uint8Array)).to.eql(Array.from(plaintext.subarray(0, segmentSize)));
+    try {
+      for (;;) {
+        const { done } = await reader.read();
+        if (done) {
+          break;
+        }
+      }
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(TdfPayloadExtractionError);
+    }
+  });
+
+  it('fails on a root signature mismatch', async () => {
+    stubKas(box);
+    const ciphertext = tamper(await encrypt(), '"sig":"');
+    for (const archive of [ciphertext, await manifestFirst(ciphertext)]) {
+      const e = await decryptFailure(toStream(archive, 64));
+      expect(e).to.be.an.instanceof(ManifestIntegrityError);
+    }
+  });
+
+  it('fails on a segment hash mismatch', async () => {
+    stubKas(box);
+    const ciphertext = tamper(await encrypt(), '"hash":"');
+    for (const archive of [ciphertext, await manifestFirst(ciphertext)]) {
+      const e = await decryptFailure(toStream(archive, 64));
+      expect(e).to.be.an.instanceof(ManifestIntegrityError);
+    }
+  });
+
+  it('fails on a truncated stream', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    const reordered = await manifestFirst(ciphertext);
+    for (const archive of [
+      ciphertext.subarray(0, await entryStart(ciphertext, '0.manifest.json')),
+      reordered.subarray(0, (await entryStart(reordered, '0.payload')) + 50),
+    ]) {
+      const e = await decryptFailure(toStream(archive, 64));
+      expect(e).to.be.an.instanceof(TdfPayloadExtractionError);
+    }
+  });
+
+  it('fails when a payload before its manifest exceeds maxBufferedBytes', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    const e = await decryptFailure(toStream(ciphertext, 64), 100);
+    expect(e).to.be.an.instanceof(TdfPayloadExtractionError);
+    expect(e.message).to.match(/larger than maxBufferedBytes \[100\]/);
+    const stream = await createClient().decrypt({
+      source: { type: 'stream', location: toStream(await manifestFirst(ciphertext), 64) },
+      maxBufferedBytes: 100,
+    });
+    expect(Array.from(await stream.toBuffer())).to.eql(Array.from(plaintext));
+  });
+
+  for (const chunkSize of [7, 100000]) {
+    it(`decrypts html read ${chunkSize} bytes at a time`, async () => {
+      stubKas(box);
+      const html = await encrypt(true);
+      expect(html.subarray(0, 6).toString()).to.equal('<html>');
+      const stream = await createClient().decrypt({
+        source: { type: 'stream', location: toStream(html, chunkSize) },
+      });
+      expect(Array.from(await stream.toBuffer())).to.eql(Array.from(plaintext));
+    });
+  }
+
+  it('rejects html whose manifest does not match the zip', async () => {
+    stubKas(box);
+    const html = (await encrypt(true)).toString();
+    const manifestRe = /(id="data-manifest" type="hidden" value=")([^"]*)"/;
+    const [, , encoded] = manifestRe.exec(html) as RegExpExecArray;
+    const manifest = JSON.parse(atob(encoded));
+    manifest.payload.mimeType = 'text/html';
+    const tampered = html.replace(manifestRe, `$1${btoa(JSON.stringify(manifest))}"`);
+    const e = await decryptFailure(toStream(Buffer.from(tampered), 64));
+    expect(e).to.be.an.instanceof(ManifestIntegrityError);
+  });
+
+  it('decrypts html with the manifest before the payload', async () => {
+    stubKas(box);
+    const html = (await encrypt(true)).toString();
+    const manifestRe = /<input id="data-manifest"[^>]*>/;
+    const [manifestInput] = manifestRe.exec(html) as RegExpExecArray;
+    const moved = html
+      .replace(manifestRe, '')
+      .replace('<input id="data-input"', `${manifestInput}$&`);
+    expect(moved.indexOf('data-manifest')).to.be.below(moved.indexOf('data-input'));
+    const stream = await createClient().decrypt({
+      source: { type: 'stream', location: toStream(Buffer.from(moved), 64) },
+    });
+    expect(Array.from(await stream.toBuffer())).to.eql(Array.from(plaintext));
+  });
+
+  it('rejects html without a manifest', async () => {
+    stubKas(box);
+    const html = (await encrypt(true)).toString().replace('data-manifest', 'data-other');
+    const e = await decryptFailure(toStream(Buffer.from(html), 64));
+    expect(e).to.be.an.instanceof(TdfPayloadExtractionError);
+  });
+});
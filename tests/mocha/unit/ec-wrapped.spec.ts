@@ -0,0 +1,106 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { IllegalArgumentError } from '../../../tdf3/src/errors.js';
+import { type KasPublicKeyAlgorithm } from '../../../src/kas-key-cache.js';
+import { ZipReader, fromBuffer } from '../../../tdf3/src/utils/index.js';
+import { TestKas } from '../../../src/testing/index.js';
+import { createClient } from '../../mocks/fake-kas.js';
+
+const attribute = 'https://example.com/attr/Classification/value/S';
+const plaintext = 'wrapped for an EC key';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+// A client of the KAS that records the requests it sends
+function kasClient(kas: TestKas, requests: Request[]) {
+  return createClient({
+    kasEndpoint: kas.url,
+    kasPublicKey: undefined,
+    fetch: async (input, init) => {
+      requests.push(new Request(input, init));
+      return kas.fetch(input, init);
+    },
+  });
+}
+
+async function encrypt(kas: TestKas, requests: Request[] = [], offline = true): Promise<Buffer> {
+  const builder = new EncryptParamsBuilder()
+    .withStringSource(plaintext)
+    .withAttributes([{ attribute }])
+    .withKasKeyAlgorithm('ec:secp256r1');
+  if (offline) {
+    builder.withOffline();
+  }
+  const stream = await kasClient(kas, requests).encrypt(builder.build());
+  return stream.toBuffer();
+}
+
+describe('ec-wrapped key access', () => {
+  beforeEach(() => {
+    box.stub(globalThis, 'fetch').rejects(new TypeError('no network in unit tests'));
+  });
+
+  it('wraps the key for the KAS EC key', async () => {
+    const kas = await TestKas.create();
+    const requests: Request[] = [];
+    const ciphertext = await encrypt(kas, requests);
+    // The client also looks up the RSA key of its KAS when it starts
+    expect(requests.map(({ method, url }) => `${method} ${url}`)).to.include(
+      `GET ${kas.url}/kas_public_key?algorithm=ec:secp256r1`
+    );
+    const zipReader = new ZipReader(fromBuffer(ciphertext));
+    const manifest = await zipReader.getManifest(
+      await zipReader.getCentralDirectory(),
+      '0.manifest.json'
+    );
+    const [keyAccess] = manifest.encryptionInformation.keyAccess;
+    expect(keyAccess).to.include({ type: 'ec-wrapped', url: kas.url, kid: 'r1' });
+    expect(keyAccess.ephemeralPublicKey).to.match(/^-----BEGIN PUBLIC KEY-----/);
+    expect(keyAccess.wrappedKey).to.be.a('string');
+    expect(keyAccess.policyBinding).to.be.a('string');
+  });
+
+  for (const offline of [true, false]) {
+    it(`round trips ${offline ? 'offline' : 'online'}, negotiating an EC rewrap`, async () => {
+      const kas = await TestKas.create({ attributes: [attribute] });
+      const ciphertext = await encrypt(kas, [], offline);
+      const requests: Request[] = [];
+      const stream = await kasClient(kas, requests).decrypt({
+        source: { type: 'buffer', location: ciphertext },
+      });
+      expect(await stream.toString()).to.equal(plaintext);
+      expect(requests.map(({ url }) => url)).to.eql([`${kas.url}/v2/rewrap`]);
+      const { signedRequestToken } = await requests[0].json();
+      const [, payload] = signedRequestToken.split('.');
+      const { requestBody } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+      const { algorithm, clientPublicKey } = JSON.parse(requestBody);
+      expect(algorithm).to.equal('ec:secp256r1');
+      expect(clientPublicKey).to.match(/^-----BEGIN PUBLIC KEY-----/);
+    });
+  }
+
+  it('fails when the KAS is not entitled to release the key', async () => {
+    const kas = await TestKas.create({ attributes: [] });
+    const ciphertext = await encrypt(kas);
+    try {
+      await kasClient(kas, []).decrypt({ source: { type: 'buffer', location: ciphertext } });
+      expect.fail('did not throw');
+    } catch (e) {
+      expect((e as Error).message).to.match(/403/);
+    }
+  });
+
+  it('rejects unknown KAS key algorithms', () => {
+    expect(() =>
+      new EncryptParamsBuilder().withKasKeyAlgorithm('ec:secp384r1' as KasPublicKeyAlgorithm)
+    ).to.throw(IllegalArgumentError, 'Unsupported KAS key algorithm [ec:secp384r1]');
+  });
+});
@@ -0,0 +1,84 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { SplitKey } from '../../../tdf3/src/models/index.js';
+import { TDF } from '../../../tdf3/src/tdf.js';
+import { IllegalArgumentError } from '../../../tdf3/src/errors.js';
+import { createClient, stubKas } from '../../mocks/fake-kas.js';
+
+// 26 segments of 4 bytes, and a short one
+const plaintext = 'abcdefghijklmnopqrstuvwxyz'.repeat(4) + 'end';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+// Slows down every other encryption, so segments finish out of order, and counts those in flight
+function slowEncrypt() {
+  const encrypt = SplitKey.prototype.encrypt;
+  const stats = { calls: 0, inFlight: 0, maxInFlight: 0 };
+  box.stub(SplitKey.prototype, 'encrypt').callsFake(async function (this: SplitKey, ...args) {
+    stats.inFlight += 1;
+    stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+    await new Promise((resolve) => setTimeout(resolve, stats.calls++ % 2 ? 0 : 5));
+    try {
+      return await encrypt.apply(this, args);
+    } finally {
+      stats.inFlight -= 1;
+    }
+  });
+  return stats;
+}
+
+async function roundTrip(concurrency?: number, source = new Blob([plaintext]).stream()) {
+  stubKas(box);
+  const builder = new EncryptParamsBuilder()
+    .withStreamSource(source)
+    .withStreamWindowSize(4)
+    .withOffline();
+  if (concurrency) {
+    builder.setConcurrency(concurrency);
+  }
+  const archive = await (await createClient().encrypt(builder.build())).toBuffer();
+  const stream = await createClient().decrypt({ source: { type: 'buffer', location: archive } });
+  return stream.toString();
+}
+
+describe('concurrent segment encryption', () => {
+  it('encrypts up to the concurrency at once', async () => {
+    const stats = slowEncrypt();
+    expect(await roundTrip(3)).to.equal(plaintext);
+    expect(stats.maxInFlight).to.equal(3);
+  });
+
+  it('encrypts one segment at a time', async () => {
+    const stats = slowEncrypt();
+    expect(await roundTrip(1)).to.equal(plaintext);
+    expect(stats.maxInFlight).to.equal(1);
+  });
+
+  it('keeps segment order for sources with uneven chunks', async () => {
+    const chunks = ['a', 'bcdefg', '', 'hijklmnopq', 'r', 'stuvwxyz'.repeat(10)];
+    const source = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const chunk = chunks.shift();
+        if (chunk === undefined) {
+          controller.close();
+        } else {
+          controller.enqueue(new TextEncoder().encode(chunk));
+        }
+      },
+    });
+    expect(await roundTrip(4, source)).to.equal('abcdefghijklmnopqr' + 'stuvwxyz'.repeat(10));
+  });
+
+  it('rejects an invalid concurrency', () => {
+    expect(() => new EncryptParamsBuilder().withConcurrency(0)).to.throw(IllegalArgumentError);
+    expect(() => TDF.create().setConcurrency(1.5)).to.throw(IllegalArgumentError);
+  });
+});
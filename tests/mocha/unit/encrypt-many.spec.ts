@@ -0,0 +1,152 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { DecryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { IllegalArgumentError, TdfPayloadExtractionError } from '../../../tdf3/src/errors.js';
+import { ZipReader, fromBuffer } from '../../../tdf3/src/utils/index.js';
+import { createClient, stubKas } from '../../mocks/fake-kas.js';
+
+const plaintexts = ['the report', 'a first attachment, which spans segments', ''];
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+function toStream(text: string): ReadableStream<Uint8Array> {
+  return new Blob([text]).stream();
+}
+
+async function encryptMany(offline = true): Promise<Buffer> {
+  const stream = await createClient().encryptMany({
+    sources: plaintexts.map((text, i) => ({
+      source: toStream(text),
+      mimeType: i ? 'application/octet-stream' : 'text/plain',
+    })),
+    windowSize: 16,
+    offline,
+  });
+  return stream.toBuffer();
+}
+
+describe('encryptMany', () => {
+  it('writes a payload and manifest per source', async () => {
+    stubKas(box);
+    const archive = await encryptMany();
+    const zipReader = new ZipReader(fromBuffer(archive));
+    const centralDirectory = await zipReader.getCentralDirectory();
+    await zipReader.verify(centralDirectory);
+    expect(centralDirectory.map(({ fileName }) => fileName)).to.eql([
+      '0.payload',
+      '0.manifest.json',
+      '1.payload',
+      '1.manifest.json',
+      '2.payload',
+      '2.manifest.json',
+    ]);
+    const manifests = await Promise.all(
+      [0, 1, 2].map((i) => zipReader.getManifest(centralDirectory, `${i}.manifest.json`))
+    );
+    expect(manifests.map(({ payload }) => payload.url)).to.eql([
+      '0.payload',
+      '1.payload',
+      '2.payload',
+    ]);
+    expect(manifests.map(({ payload }) => payload.mimeType)).to.eql([
+      'text/plain',
+      'application/octet-stream',
+      'application/octet-stream',
+    ]);
+    expect(manifests[1].encryptionInformation.integrityInformation.segments).to.have.lengthOf(3);
+    expect(manifests[1].encryptionInformation.keyAccess).to.eql(
+      manifests[0].encryptionInformation.keyAccess
+    );
+  });
+
+  it('upserts once for all payloads', async () => {
+    const requests = stubKas(box);
+    await encryptMany(false);
+    expect(requests.filter((url) => url.endsWith('/upsert'))).to.have.lengthOf(1);
+  });
+
+  it('lists the entries', async () => {
+    stubKas(box);
+    const archive = await encryptMany();
+    const entries = await createClient().listEntries({
+      source: { type: 'buffer', location: archive },
+    });
+    expect(
+      entries.map(({ index, payloadName, manifestName }) => [index, payloadName, manifestName])
+    ).to.eql([
+      [0, '0.payload', '0.manifest.json'],
+      [1, '1.payload', '1.manifest.json'],
+      [2, '2.payload', '2.manifest.json'],
+    ]);
+    expect(entries[2].encryptedSize).to.equal(0);
+  });
+
+  for (const entry of [0, 1, 2, '1.payload', '2.manifest.json']) {
+    it(`decrypts entry ${JSON.stringify(entry)}`, async () => {
+      stubKas(box);
+      const archive = await encryptMany();
+      const index = typeof entry === 'number' ? entry : Number(entry[0]);
+      const decryptParams = new DecryptParamsBuilder()
+        .withBufferSource(archive)
+        .withEntry(entry)
+        .build();
+      const stream = await createClient().decrypt(decryptParams);
+      expect(await stream.toString()).to.equal(plaintexts[index]);
+      expect(stream.manifest?.payload.url).to.equal(`${index}.payload`);
+    });
+  }
+
+  it('decrypts a chosen entry from a stream', async () => {
+    stubKas(box);
+    const archive = await encryptMany();
+    const stream = await createClient().decrypt({
+      source: { type: 'stream', location: new Blob([archive]).stream() },
+      entry: 1,
+    });
+    expect(await stream.toString()).to.equal(plaintexts[1]);
+  });
+
+  it('decrypts a range of a chosen entry', async () => {
+    stubKas(box);
+    const archive = await encryptMany();
+    const stream = await createClient().decryptRange({
+      source: { type: 'buffer', location: archive },
+      entry: '1.payload',
+      start: 10,
+      end: 20,
+    });
+    expect(await stream.toString()).to.equal(plaintexts[1].slice(10, 20));
+  });
+
+  it('fails on a missing entry', async () => {
+    stubKas(box);
+    const archive = await encryptMany();
+    try {
+      await createClient().decrypt({ source: { type: 'buffer', location: archive }, entry: 3 });
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(TdfPayloadExtractionError);
+    }
+  });
+
+  it('rejects an invalid entry name', async () => {
+    stubKas(box);
+    const archive = await encryptMany();
+    try {
+      await createClient().decrypt({
+        source: { type: 'buffer', location: archive },
+        entry: 'payload',
+      });
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(IllegalArgumentError);
+    }
+  });
+});
@@ -0,0 +1,141 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { ManifestIntegrityError } from '../../../tdf3/src/errors.js';
+import { type NanoTdfInspection, type TdfInspection } from '../../../tdf3/src/inspect.js';
+import { NanoTDFClient } from '../../../src/index.js';
+import { anonymousAuthProvider, TestKas } from '../../../src/testing/index.js';
+import { createClient, kasUrl, stubKas } from '../../mocks/fake-kas.js';
+
+const attribute = 'https://example.com/attr/Classification/value/S';
+const plaintext = new Uint8Array(100).map((_, i) => i);
+const readerUrl = 'https://local.virtru.com/start?htmlProtocol=1';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(builder: EncryptParamsBuilder): Promise<Buffer> {
+  const stream = await createClient({ readerUrl }).encrypt(
+    builder
+      .withBufferSource(Buffer.from(plaintext))
+      .withStreamWindowSize(16)
+      .withAttributes([{ attribute }])
+      .withUsersWithAccess(['alice@example.com'])
+      .withMimeType('application/octet-stream')
+      .withOffline()
+      .build()
+  );
+  return stream.toBuffer();
+}
+
+describe('inspect', () => {
+  for (const container of ['zip', 'html'] as const) {
+    it(`summarizes ${container} TDFs without asking KAS`, async () => {
+      const requests = stubKas(box);
+      const builder = new EncryptParamsBuilder();
+      if (container === 'html') {
+        builder.withHtmlFormat();
+      }
+      const ciphertext = await encrypt(builder);
+      const inspection = (await createClient().inspect({
+        source: { type: 'buffer', location: ciphertext },
+      })) as TdfInspection;
+      expect(requests).to.be.empty;
+      expect(inspection.container).to.equal(container);
+      expect(inspection.entries).to.have.lengthOf(1);
+      const [entry] = inspection.entries;
+      expect(entry).to.deep.include({
+        index: 0,
+        payloadName: '0.payload',
+        mimeType: 'application/octet-stream',
+        kasUrls: [kasUrl],
+        keyAccess: [{ type: 'wrapped', url: kasUrl }],
+        cipher: 'AES-256-GCM',
+        segmentCount: 7,
+        plaintextSize: 100,
+        rootSignatureAlgorithm: 'HS256',
+        segmentHashAlgorithm: 'GMAC',
+      });
+      expect(entry.specVersion).to.be.a('string');
+      expect(entry.policy.uuid).to.be.a('string');
+      expect(entry.policy.dataAttributes).to.eql([attribute]);
+      expect(entry.policy.dissem).to.eql(['alice@example.com']);
+      // Seven segments, each with a 12 byte iv and 16 byte tag
+      expect(entry.encryptedSize).to.equal(100 + 7 * 28);
+    });
+  }
+
+  it('rejects html whose manifest does not match the archive', async () => {
+    stubKas(box);
+    const html = (await encrypt(new EncryptParamsBuilder().withHtmlFormat())).toString();
+    const manifestRe = /(id="data-manifest" type="hidden" value=")([^"]*)"/;
+    const [, , encoded] = manifestRe.exec(html) as RegExpExecArray;
+    const manifest = JSON.parse(atob(encoded));
+    manifest.payload.mimeType = 'text/html';
+    const tampered = Buffer.from(html.replace(manifestRe, `$1${btoa(JSON.stringify(manifest))}"`));
+    try {
+      await createClient().inspect({ source: { type: 'buffer', location: tampered } });
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(ManifestIntegrityError);
+    }
+  });
+
+  it('summarizes each payload of an archive', async () => {
+    stubKas(box);
+    const archive = await createClient().encryptMany({
+      sources: ['one', 'two'].map((text) => ({
+        source: new Blob([text]).stream(),
+        mimeType: 'text/plain',
+      })),
+      offline: true,
+    });
+    const inspection = (await createClient().inspect({
+      source: { type: 'buffer', location: await archive.toBuffer() },
+    })) as TdfInspection;
+    expect(inspection.entries.map(({ index, payloadName }) => [index, payloadName])).to.eql([
+      [0, '0.payload'],
+      [1, '1.payload'],
+    ]);
+    expect(inspection.entries.map(({ plaintextSize }) => plaintextSize)).to.eql([3, 3]);
+  });
+
+  it('summarizes nanoTDFs from their header', async () => {
+    box.stub(globalThis, 'fetch').rejects(new TypeError('no network in unit tests'));
+    const kas = await TestKas.create();
+    const client = new NanoTDFClient(
+      anonymousAuthProvider,
+      kas.url,
+      undefined,
+      false,
+      undefined,
+      kas.fetch
+    );
+    client.addAttribute(attribute);
+    const ciphertext = new Uint8Array(await client.encrypt('nano'));
+    const inspection = (await createClient().inspect({
+      source: { type: 'buffer', location: ciphertext },
+    })) as NanoTdfInspection;
+    expect(inspection).to.deep.include({
+      container: 'nano',
+      specVersion: 'L1L',
+      kasUrl: kas.url,
+      policyType: 'embeddedEncrypted',
+      ecdsaBinding: false,
+      ephemeralCurve: 'secp256r1',
+      hasSignature: false,
+      cipher: 'aes-256-gcm-96',
+      authTagLength: 96,
+      encryptedSize: ciphertext.length,
+    });
+    // Encrypted policies are only readable with the key
+    expect(inspection.policy).to.eql({});
+    expect(inspection.headerSize + inspection.plaintextSize).to.be.below(ciphertext.length);
+  });
+});
@@ -0,0 +1,186 @@
+import axios, { AxiosError, type AxiosResponse } from 'axios';
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox, SinonStub } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { ZipReader, fromBuffer } from '../../../tdf3/src/utils/index.js';
+import {
+  isUnknownKeyResponse,
+  KasKeyCache,
+  type KasPublicKeyInfo,
+  kasKeyCache,
+  parseKasPublicKey,
+} from '../../../src/kas-key-cache.js';
+import { fetchWrappedKey } from '../../../src/kas.js';
+import { authProvider, createClient, kasUrl, stubKas } from '../../mocks/fake-kas.js';
+import getMocks from '../../mocks/index.js';
+
+const Mocks = getMocks();
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+function keyInfo(kid?: string): KasPublicKeyInfo {
+  return { url: kasUrl, algorithm: 'rsa:2048', publicKey: Mocks.kasPublicKey, kid };
+}
+
+async function keyAccessKids(archive: Buffer): Promise<(string | undefined)[]> {
+  const zipReader = new ZipReader(fromBuffer(archive));
+  const manifest = await zipReader.getManifest(
+    await zipReader.getCentralDirectory(),
+    '0.manifest.json'
+  );
+  return manifest.encryptionInformation.keyAccess.map(({ kid }) => kid);
+}
+
+describe('KasKeyCache', () => {
+  it('shares one request for each url and algorithm', async () => {
+    const cache = new KasKeyCache();
+    const fetchKey = box.stub().resolves(keyInfo('r1'));
+    const keys = await Promise.all([
+      cache.get(kasUrl, 'rsa:2048', fetchKey),
+      cache.get(`${kasUrl}/`, 'rsa:2048', fetchKey),
+    ]);
+    expect(keys.map(({ kid }) => kid)).to.eql(['r1', 'r1']);
+    expect(fetchKey.callCount).to.equal(1);
+    await cache.get(kasUrl, 'ec:secp256r1', fetchKey);
+    expect(fetchKey.callCount).to.equal(2);
+  });
+
+  it('fetches keys again once they expire', async () => {
+    const cache = new KasKeyCache(5);
+    const fetchKey = box.stub().resolves(keyInfo());
+    await cache.get(kasUrl, 'rsa:2048', fetchKey);
+    await cache.get(kasUrl, 'rsa:2048', fetchKey);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await cache.get(kasUrl, 'rsa:2048', fetchKey);
+    expect(fetchKey.callCount).to.equal(2);
+  });
+
+  it('does not cache failures', async () => {
+    const cache = new KasKeyCache();
+    const fetchKey = box.stub();
+    fetchKey.onFirstCall().rejects(new Error('offline'));
+    fetchKey.resolves(keyInfo());
+    await cache.get(kasUrl, 'rsa:2048', fetchKey).catch(() => undefined);
+    expect((await cache.get(kasUrl, 'rsa:2048', fetchKey)).publicKey).to.equal(Mocks.kasPublicKey);
+  });
+
+  it('only invalidates the key with the given id', async () => {
+    const cache = new KasKeyCache();
+    const fetchKey = box.stub();
+    fetchKey.onFirstCall().resolves(keyInfo('r1'));
+    fetchKey.resolves(keyInfo('r2'));
+    await cache.get(kasUrl, 'rsa:2048', fetchKey);
+    await cache.invalidate(kasUrl, 'rsa:2048', 'r0');
+    expect((await cache.get(kasUrl, 'rsa:2048', fetchKey)).kid).to.equal('r1');
+    await cache.invalidate(kasUrl, 'rsa:2048', 'r1');
+    expect((await cache.get(kasUrl, 'rsa:2048', fetchKey)).kid).to.equal('r2');
+  });
+
+  it('reads key responses', () => {
+    expect(parseKasPublicKey('PEM')).to.eql({ publicKey: 'PEM' });
+    expect(parseKasPublicKey({ public_key: 'PEM', kid: 'r1' })).to.eql({
+      publicKey: 'PEM',
+      kid: 'r1',
+    });
+    expect(() => parseKasPublicKey({ kid: 'r1' })).to.throw(/missing the public key/);
+  });
+
+  it('recognizes unknown key errors', () => {
+    expect(isUnknownKeyResponse(400, { message: 'unknown kid [r1]' })).to.be.true;
+    expect(isUnknownKeyResponse(404, 'key not found')).to.be.true;
+    expect(isUnknownKeyResponse(403, 'unknown key')).to.be.false;
+    expect(isUnknownKeyResponse(400, 'invalid policy')).to.be.false;
+    expect(isUnknownKeyResponse(400, '{"message":"Unknown kid [r1]"}')).to.be.true;
+    expect(isUnknownKeyResponse(400, { code: 'unknown_kid', message: 'Bad Request' })).to.be.true;
+    expect(isUnknownKeyResponse(400, 'invalid policy binding for key')).to.be.false;
+    expect(isUnknownKeyResponse(400, { message: 'unknown key type [dsa]' })).to.be.false;
+  });
+});
+
+describe('KAS key rotation', () => {
+  beforeEach(() => {
+    kasKeyCache.clear();
+  });
+
+  async function encrypt(offline: boolean): Promise<Buffer> {
+    const builder = new EncryptParamsBuilder().withStringSource('hello');
+    if (offline) {
+      builder.setOffline();
+    }
+    const client = createClient({ kasPublicKey: undefined });
+    return (await client.encrypt(builder.build())).toBuffer();
+  }
+
+  it('records the key id in key access objects', async () => {
+    const get = box
+      .stub(axios, 'get')
+      .resolves({ data: { publicKey: Mocks.kasPublicKey, kid: 'r1' } });
+    stubKas(box);
+    expect(await keyAccessKids(await encrypt(true))).to.eql(['r1']);
+    expect(await keyAccessKids(await encrypt(true))).to.eql(['r1']);
+    expect(get.callCount).to.equal(1);
+  });
+
+  it('fetches the key when it is first needed, and again after a failure', async () => {
+    const get = box.stub(axios, 'get');
+    const response = { status: 500, data: 'unavailable' } as AxiosResponse;
+    get
+      .onFirstCall()
+      .rejects(new AxiosError('Server Error', 'ERR_BAD_RESPONSE', undefined, undefined, response));
+    get.resolves({ data: { publicKey: Mocks.kasPublicKey, kid: 'r1' } });
+    stubKas(box);
+    const client = createClient({ kasPublicKey: undefined });
+    expect(get.called).to.be.false;
+    try {
+      await client.kasPublicKey;
+      expect.fail('did not throw');
+    } catch (e) {
+      expect((e as Error).message).to.match(/^Retrieving KAS public key/);
+    }
+    const stream = await client.encrypt(
+      new EncryptParamsBuilder().withStringSource('hello').withOffline().build()
+    );
+    expect(await keyAccessKids(await stream.toBuffer())).to.eql(['r1']);
+    expect(get.callCount).to.equal(2);
+  });
+
+  it('wraps the key again when KAS has rotated its key', async () => {
+    const get = box.stub(axios, 'get');
+    get.onFirstCall().resolves({ data: { publicKey: Mocks.kasPublicKey, kid: 'r1' } });
+    get.resolves({ data: { publicKey: Mocks.kasPublicKey, kid: 'r2' } });
+    stubKas(box);
+    const response = { status: 400, data: { message: 'unknown kid [r1]' } } as AxiosResponse;
+    const upsert = (axios.post as SinonStub)
+      .onFirstCall()
+      .rejects(new AxiosError('Bad Request', 'ERR_BAD_REQUEST', undefined, undefined, response));
+    expect(await keyAccessKids(await encrypt(false))).to.eql(['r2']);
+    expect(get.callCount).to.equal(2);
+    expect(upsert.callCount).to.equal(2);
+  });
+
+  it('forgets nano keys that KAS no longer holds', async () => {
+    const fetchKey = box.stub().resolves(keyInfo());
+    await kasKeyCache.get(kasUrl, 'ec:secp256r1', fetchKey);
+    box.stub(globalThis, 'fetch').resolves(new Response('unknown key', { status: 400 }));
+    try {
+      await fetchWrappedKey(
+        `${kasUrl}/v2/rewrap`,
+        { signedRequestToken: '' },
+        authProvider,
+        '0.0.1'
+      );
+      expect.fail('did not throw');
+    } catch (e) {
+      expect((e as Error).message).to.match(/^400/);
+    }
+    await kasKeyCache.get(kasUrl, 'ec:secp256r1', fetchKey);
+    expect(fetchKey.callCount).to.equal(2);
+  });
+});
@@ -0,0 +1,102 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { ManifestIntegrityError } from '../../../tdf3/src/errors.js';
+import { type Metadata, TDF } from '../../../tdf3/src/tdf.js';
+import { ZipReader, fromBuffer } from '../../../tdf3/src/utils/index.js';
+import { authProvider, createClient, kasUrl, stubKas } from '../../mocks/fake-kas.js';
+import getMocks from '../../mocks/index.js';
+
+const Mocks = getMocks();
+const plaintext = 'with a ticket number';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(metadata?: Metadata): Promise<Buffer> {
+  const builder = new EncryptParamsBuilder().withStringSource(plaintext).withOffline();
+  if (metadata) {
+    builder.withMetadata(metadata);
+  }
+  const stream = await createClient().encrypt(builder.build());
+  return stream.toBuffer();
+}
+
+async function decrypt(archive: Buffer) {
+  const stream = await createClient().decrypt({ source: { type: 'buffer', location: archive } });
+  expect(await stream.toString()).to.equal(plaintext);
+  return stream;
+}
+
+describe('key access metadata', () => {
+  it('decrypts the metadata of each key access object', async () => {
+    stubKas(box);
+    const stream = await decrypt(await encrypt({ ticket: 'T-1234' } as Metadata));
+    expect(stream.keyAccessMetadata).to.eql([{ ticket: 'T-1234' }]);
+    expect(stream.keyAccessMetadataErrors).to.eql([]);
+    // The metadata KAS answers the rewrap with is still separate
+    expect(stream.metadata).to.eql({ hello: 'world' });
+  });
+
+  it('has no metadata for key access objects written without any', async () => {
+    stubKas(box);
+    const stream = await decrypt(await encrypt());
+    expect(stream.keyAccessMetadata).to.eql([undefined]);
+  });
+
+  it('only has the metadata of the splits that were unwrapped', async () => {
+    stubKas(box);
+    const tdf = TDF.create()
+      .setPrivateKey(Mocks.entityPrivateKey)
+      .setPublicKey(Mocks.entityPublicKey)
+      .setEncryption({ type: 'split', threshold: 2 })
+      .setIntegrityAlgorithm('hs256', 'gmac')
+      .setPolicy({ uuid: 'threshold', body: { dataAttributes: [], dissem: [] } })
+      .setAuthProvider(authProvider)
+      .addContentStream(new Blob([plaintext]).stream());
+    for (const name of ['a', 'b', 'c']) {
+      await tdf.addKeyAccess({
+        type: 'wrapped',
+        url: `http://kas-${name}.local`,
+        publicKey: Mocks.kasPublicKey,
+        // Metadata that is not JSON comes back as it was written
+        metadata: `from ${name}` as Metadata,
+      });
+    }
+    const stream = await decrypt(await (await tdf.writeStream(0, false)).toBuffer());
+    expect(stream.keyAccessMetadata).to.eql(['from a', 'from b', undefined]);
+  });
+
+  it('reports metadata that does not decrypt, without failing the decrypt', async () => {
+    stubKas(box);
+    const failure = new ManifestIntegrityError('unreadable');
+    box.stub(TDF.prototype, 'decryptKeyAccessMetadata').rejects(failure);
+    const stream = await decrypt(await encrypt({ ticket: 'T-1234' } as Metadata));
+    expect(stream.keyAccessMetadata).to.eql([undefined]);
+    expect(stream.keyAccessMetadataErrors).to.have.lengthOf(1);
+    expect(stream.keyAccessMetadataErrors?.[0]).to.eql({ url: kasUrl, error: failure });
+  });
+
+  it('fails to read metadata that does not decrypt with the split', async () => {
+    stubKas(box);
+    const archive = await encrypt({ ticket: 'T-1234' } as Metadata);
+    const zipReader = new ZipReader(fromBuffer(archive));
+    const manifest = await zipReader.getManifest(
+      await zipReader.getCentralDirectory(),
+      '0.manifest.json'
+    );
+    const [keyAccess] = manifest.encryptionInformation.keyAccess;
+    try {
+      await TDF.create().decryptKeyAccessMetadata(manifest, keyAccess, new Uint8Array(32));
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(ManifestIntegrityError);
+    }
+  });
+});
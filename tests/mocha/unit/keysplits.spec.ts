@@ -1,6 +1,12 @@
 import { expect } from 'chai';
 
-import { bxor, keySplit, keyMerge } from '../../../tdf3/src/utils/keysplit.js';
+import {
+  bxor,
+  keySplit,
+  keyMerge,
+  shamirMerge,
+  shamirSplit,
+} from '../../../tdf3/src/utils/keysplit.js';
 import { generateKey } from '../../../tdf3/src/crypto/index.js';
 import { hex } from '../../../src/encodings/index.js';
 import { Binary } from '../../../tdf3/src/binary.js';
@@ -34,3 +40,40 @@ describe('keysplits', () => {
     expect(hex.encodeArrayBuffer(splits[0])).to.eql(key);
   });
 });
+
+describe('shamir keysplits', () => {
+  const key = new Uint8Array(32).map((_, i) => i * 7);
+
+  it('recovers the key from any k of n shares', () => {
+    const shares = shamirSplit(key, 5, 3);
+    expect(shares.map(({ id }) => id)).to.eql([1, 2, 3, 4, 5]);
+    for (const subset of [
+      [0, 1, 2],
+      [4, 2, 0],
+      [1, 3, 4],
+      [0, 1, 2, 3, 4],
+    ]) {
+      expect(shamirMerge(subset.map((i) => shares[i]))).to.eql(key);
+    }
+  });
+
+  it('does not recover the key from fewer than k shares', () => {
+    const shares = shamirSplit(key, 5, 3);
+    expect(shamirMerge(shares.slice(0, 2))).to.not.eql(key);
+    expect(shares.map(({ share }) => share)).to.not.deep.include(key);
+  });
+
+  it('supports a threshold of one', () => {
+    const shares = shamirSplit(key, 3, 1);
+    expect(shares.map(({ share }) => share)).to.eql([key, key, key]);
+    expect(shamirMerge([shares[2]])).to.eql(key);
+  });
+
+  it('rejects invalid parameters', () => {
+    expect(() => shamirSplit(key, 2, 3)).to.throw(/k must be/);
+    expect(() => shamirSplit(key, 256, 2)).to.throw(/n must be/);
+    expect(() => shamirSplit(key, 3, 0)).to.throw(/k must be/);
+    const [share] = shamirSplit(key, 2, 2);
+    expect(() => shamirMerge([share, share])).to.throw(/distinct/);
+  });
+});
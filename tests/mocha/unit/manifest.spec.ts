@@ -0,0 +1,133 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { TdfCorruptError } from '../../../tdf3/src/errors.js';
+import { type Manifest, parseManifest } from '../../../tdf3/src/models/index.js';
+import { ZipReader, fromBuffer } from '../../../tdf3/src/utils/index.js';
+import { createClient, stubKas } from '../../mocks/fake-kas.js';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(): Promise<Buffer> {
+  const encryptParams = new EncryptParamsBuilder().withStringSource('hello').withOffline().build();
+  return (await createClient().encrypt(encryptParams)).toBuffer();
+}
+
+async function readManifest(archive: Buffer): Promise<Manifest> {
+  const zipReader = new ZipReader(fromBuffer(archive));
+  return zipReader.getManifest(await zipReader.getCentralDirectory(), '0.manifest.json');
+}
+
+function expectCorrupt(json: string, reason: string | RegExp) {
+  try {
+    parseManifest(json);
+    expect.fail('did not throw');
+  } catch (e) {
+    expect(e).to.be.an.instanceof(TdfCorruptError);
+    const actual = (e as TdfCorruptError).reason;
+    if (typeof reason === 'string') {
+      expect(actual).to.equal(reason);
+    } else {
+      expect(actual).to.match(reason);
+    }
+  }
+}
+
+describe('manifest validation', () => {
+  it('accepts the manifests the client writes', async () => {
+    stubKas(box);
+    const manifest = await readManifest(await encrypt());
+    expect(parseManifest(JSON.stringify(manifest))).to.eql(manifest);
+  });
+
+  it('names the path of the invalid value', async () => {
+    stubKas(box);
+    const manifest = await readManifest(await encrypt());
+    const [keyAccess] = manifest.encryptionInformation.keyAccess;
+    expectCorrupt(
+      JSON.stringify({
+        ...manifest,
+        encryptionInformation: {
+          ...manifest.encryptionInformation,
+          keyAccess: [{ ...keyAccess, url: 42 }],
+        },
+      }),
+      '[manifest.encryptionInformation.keyAccess[0].url] should be string'
+    );
+    expectCorrupt(
+      JSON.stringify({
+        ...manifest,
+        encryptionInformation: {
+          ...manifest.encryptionInformation,
+          keyAccess: [{ ...keyAccess, wrappedKey: undefined }],
+        },
+      }),
+      '[manifest.encryptionInformation.keyAccess[0].wrappedKey] is missing'
+    );
+    expectCorrupt(
+      JSON.stringify({
+        ...manifest,
+        encryptionInformation: {
+          ...manifest.encryptionInformation,
+          keyAccess: [{ ...keyAccess, type: 'ec-wrapped' }],
+        },
+      }),
+      '[manifest.encryptionInformation.keyAccess[0].ephemeralPublicKey] is missing'
+    );
+    expectCorrupt(
+      JSON.stringify({ payload: manifest.payload }),
+      '[manifest.encryptionInformation] is missing'
+    );
+  });
+
+  it('checks the split scheme against the key access objects', async () => {
+    stubKas(box);
+    const manifest = await readManifest(await encrypt());
+    const withSplitScheme = (threshold: number, shareIds: number[]) =>
+      JSON.stringify({
+        ...manifest,
+        encryptionInformation: {
+          ...manifest.encryptionInformation,
+          splitScheme: { type: 'shamir', threshold, shareIds },
+        },
+      });
+    parseManifest(withSplitScheme(1, [1]));
+    expectCorrupt(
+      withSplitScheme(1, [1, 2]),
+      '[manifest.encryptionInformation.splitScheme.shareIds] has [2] ids for [1] key access objects'
+    );
+    expectCorrupt(
+      withSplitScheme(2, [1]),
+      '[manifest.encryptionInformation.splitScheme.threshold] is more than the [1] key access objects'
+    );
+  });
+
+  it('rejects manifests that are not JSON', () => {
+    expectCorrupt('{"payload":', /^manifest is not JSON: /);
+  });
+
+  it('fails decrypts before contacting KAS', async () => {
+    const requests = stubKas(box);
+    const archive = await encrypt();
+    // Keep the length, so that the zip still reads
+    const corrupt = Buffer.from(
+      archive.toString('latin1').replace('"protocol":"kas"', '"protocol":"web"'),
+      'latin1'
+    );
+    try {
+      await createClient().decrypt({ source: { type: 'buffer', location: corrupt } });
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(TdfCorruptError);
+      expect((e as Error).message).to.match(/keyAccess\[0\]\.protocol/);
+    }
+    expect(requests).to.be.empty;
+  });
+});
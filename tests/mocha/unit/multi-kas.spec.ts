@@ -0,0 +1,173 @@
+import axios from 'axios';
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { IllegalArgumentError, KasDecryptError, KeyAccessError } from '../../../tdf3/src/errors.js';
+import { type AttributeObject } from '../../../tdf3/src/models/index.js';
+import { TDF } from '../../../tdf3/src/tdf.js';
+import { ZipReader, fromBuffer } from '../../../tdf3/src/utils/index.js';
+import { kasKeyCache } from '../../../src/kas-key-cache.js';
+import { createClient, kasUrl, stubKas } from '../../mocks/fake-kas.js';
+import getMocks from '../../mocks/index.js';
+
+const Mocks = getMocks();
+const otherKasUrl = 'https://kas.other.example';
+const plaintext = 'gated by two organizations';
+
+const localAttribute: AttributeObject = { attribute: 'https://example.com/attr/a/value/1' };
+const otherAttribute: AttributeObject = {
+  attribute: 'https://other.example/attr/b/value/2',
+  kasUrl: otherKasUrl,
+};
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(attributes: AttributeObject[], threshold?: number): Promise<Buffer> {
+  const builder = new EncryptParamsBuilder()
+    .withStringSource(plaintext)
+    .withAttributes(attributes)
+    .withOffline();
+  if (threshold) {
+    builder.withThreshold(threshold);
+  }
+  const stream = await createClient().encrypt(builder.build());
+  return stream.toBuffer();
+}
+
+async function readManifest(archive: Buffer) {
+  const zipReader = new ZipReader(fromBuffer(archive));
+  return zipReader.getManifest(await zipReader.getCentralDirectory(), '0.manifest.json');
+}
+
+async function keyAccessUrls(archive: Buffer): Promise<string[]> {
+  const manifest = await readManifest(archive);
+  return manifest.encryptionInformation.keyAccess.map(({ url }) => url);
+}
+
+describe('attribute KAS key access', () => {
+  beforeEach(() => {
+    // Each test serves its own key for the other KAS
+    kasKeyCache.clear();
+  });
+
+  it('uses the client KAS for attributes without one', async () => {
+    const get = box.stub(axios, 'get');
+    const archive = await encrypt([localAttribute]);
+    expect(await keyAccessUrls(archive)).to.eql([kasUrl]);
+    expect(get.called).to.be.false;
+  });
+
+  it('splits the key across the KAS of each attribute', async () => {
+    const get = box.stub(axios, 'get').resolves({ data: Mocks.kasPublicKey });
+    const archive = await encrypt([localAttribute, otherAttribute]);
+    expect(await keyAccessUrls(archive)).to.eql([kasUrl, otherKasUrl]);
+    expect(get.calledOnceWith(`${otherKasUrl}/kas_public_key`)).to.be.true;
+
+    const requests = stubKas(box);
+    const stream = await createClient().decrypt({
+      source: { type: 'buffer', location: archive },
+    });
+    expect(await stream.toString()).to.equal(plaintext);
+    expect(requests.map((url) => new URL(url).origin)).to.have.members([kasUrl, otherKasUrl]);
+  });
+
+  it('requires every KAS to decrypt', async () => {
+    box.stub(axios, 'get').resolves({ data: Mocks.kasPublicKey });
+    const archive = await encrypt([localAttribute, otherAttribute]);
+    stubKas(box, [otherKasUrl]);
+    try {
+      await createClient().decrypt({ source: { type: 'buffer', location: archive } });
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(KasDecryptError);
+    }
+  });
+
+  it('lets any threshold of the KASes decrypt', async () => {
+    box.stub(axios, 'get').resolves({ data: Mocks.kasPublicKey });
+    const archive = await encrypt([localAttribute, otherAttribute], 1);
+    expect((await readManifest(archive)).encryptionInformation.splitScheme).to.eql({
+      type: 'shamir',
+      threshold: 1,
+      shareIds: [1, 2],
+    });
+    stubKas(box, [otherKasUrl]);
+    const stream = await createClient().decrypt({
+      source: { type: 'buffer', location: archive },
+    });
+    expect(await stream.toString()).to.equal(plaintext);
+  });
+
+  it('splits the keys of encryptMany archives by threshold', async () => {
+    box.stub(axios, 'get').resolves({ data: Mocks.kasPublicKey });
+    const stream = await createClient().encryptMany({
+      sources: [{ source: new Blob([plaintext]).stream() }],
+      scope: { attributes: [localAttribute, otherAttribute] },
+      offline: true,
+      threshold: 2,
+    });
+    const manifest = await readManifest(await stream.toBuffer());
+    expect(manifest.encryptionInformation.splitScheme?.threshold).to.equal(2);
+  });
+
+  it('rejects a threshold above the number of KASes', async () => {
+    box.stub(axios, 'get').resolves({ data: Mocks.kasPublicKey });
+    try {
+      await encrypt([localAttribute, otherAttribute], 3);
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(IllegalArgumentError);
+      expect((e as Error).message).to.equal(
+        'Threshold [3] is more than the [2] KASes of the policy'
+      );
+    }
+  });
+
+  it('rejects invalid thresholds', () => {
+    for (const threshold of [0, 1.5, NaN]) {
+      expect(() => new EncryptParamsBuilder().withThreshold(threshold)).to.throw(
+        IllegalArgumentError,
+        `Invalid threshold [${threshold}]`
+      );
+    }
+  });
+
+  it('uses the public key carried by the attribute', async () => {
+    const get = box.stub(axios, 'get');
+    const archive = await encrypt([{ ...otherAttribute, pubKey: Mocks.kasPublicKey, kid: 'b1' }]);
+    expect(await keyAccessUrls(archive)).to.eql([otherKasUrl]);
+    const [keyAccess] = (await readManifest(archive)).encryptionInformation.keyAccess;
+    expect(keyAccess.kid).to.equal('b1');
+    expect(get.called).to.be.false;
+  });
+
+  it('records the key id of attribute keys in key access objects', async () => {
+    const tdf = TDF.create().setEncryption({ type: 'split' });
+    tdf.attributeSet.addAttribute({
+      ...otherAttribute,
+      pubKey: Mocks.kasPublicKey,
+      kid: 'b1',
+      isDefault: true,
+    });
+    await tdf.addKeyAccess({ type: 'wrapped', attributeUrl: otherAttribute.attribute });
+    await tdf.addKeyAccess({ type: 'wrapped' });
+    expect(tdf.encryptionInformation?.keyAccess.map(({ kid }) => kid)).to.eql(['b1', 'b1']);
+  });
+
+  it('rejects an invalid KAS public key', async () => {
+    box.stub(axios, 'get').resolves({ data: 'not a key' });
+    try {
+      await encrypt([otherAttribute]);
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(KeyAccessError);
+    }
+  });
+});
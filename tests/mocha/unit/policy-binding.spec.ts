@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { PolicyIntegrityError } from '../../../tdf3/src/errors.js';
+import { TDF } from '../../../tdf3/src/tdf.js';
+import { authProvider, createClient, stubKas } from '../../mocks/fake-kas.js';
+import getMocks from '../../mocks/index.js';
+
+const Mocks = getMocks();
+const plaintext = 'bound to its policy';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(): Promise<Buffer> {
+  const stream = await createClient().encrypt(
+    new EncryptParamsBuilder().withStringSource(plaintext).withOffline().build()
+  );
+  return stream.toBuffer();
+}
+
+async function encryptThreshold(): Promise<Buffer> {
+  const tdf = TDF.create()
+    .setPrivateKey(Mocks.entityPrivateKey)
+    .setPublicKey(Mocks.entityPublicKey)
+    .setEncryption({ type: 'split', threshold: 2 })
+    .setIntegrityAlgorithm('hs256', 'gmac')
+    .setPolicy({ uuid: 'threshold', body: { dataAttributes: [], dissem: [] } })
+    .setAuthProvider(authProvider)
+    .addContentStream(new Blob([plaintext]).stream());
+  for (const url of ['http://kas-a.local', 'http://kas-b.local', 'http://kas-c.local']) {
+    await tdf.addKeyAccess({ type: 'wrapped', url, publicKey: Mocks.kasPublicKey });
+  }
+  return (await tdf.writeStream(0, false)).toBuffer();
+}
+
+// Replace the policy in the manifest with one of the same length, as an attacker who rewrites
+// the manifest might
+function swapPolicy(archive: Buffer): Buffer {
+  const text = archive.toString('latin1');
+  const [, policy] = /"policy":"([^"]+)"/.exec(text) ?? [];
+  // Change the first character of the uuid
+  const swapped = btoa(
+    atob(policy).replace(/"uuid":"(.)/, (_, c) => `"uuid":"${c === 'x' ? 'y' : 'x'}`)
+  );
+  expect(swapped).to.have.lengthOf(policy.length);
+  return Buffer.from(text.replace(policy, swapped), 'latin1');
+}
+
+async function expectPolicyIntegrityError(archive: Buffer) {
+  try {
+    const stream = await createClient().decrypt({
+      source: { type: 'buffer', location: archive },
+    });
+    await stream.toString();
+    expect.fail('did not throw');
+  } catch (e) {
+    expect(e).to.be.an.instanceof(PolicyIntegrityError);
+    expect((e as Error).message).to.match(/^Policy binding mismatch for the key split of \[/);
+  }
+}
+
+describe('policy binding', () => {
+  it('decrypts when the policy is the one the key was bound to', async () => {
+    stubKas(box);
+    const stream = await createClient().decrypt({
+      source: { type: 'buffer', location: await encrypt() },
+    });
+    expect(await stream.toString()).to.equal(plaintext);
+  });
+
+  it('rejects a swapped policy, even when KAS releases the key', async () => {
+    // The stub KAS rewraps keys without checking their bindings
+    stubKas(box);
+    await expectPolicyIntegrityError(swapPolicy(await encrypt()));
+  });
+
+  it('rejects a swapped policy for threshold splits', async () => {
+    stubKas(box);
+    await expectPolicyIntegrityError(swapPolicy(await encryptThreshold()));
+  });
+});
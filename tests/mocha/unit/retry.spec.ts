@@ -0,0 +1,170 @@
+import axios, { AxiosError, type AxiosResponse } from 'axios';
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox, SinonStub } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { KasUpsertError } from '../../../tdf3/src/errors.js';
+import { fetchWrappedKey } from '../../../src/kas.js';
+import { type RetryEvent, type RetryPolicy, withRetry } from '../../../src/retry.js';
+import { authProvider, createClient, stubKas } from '../../mocks/fake-kas.js';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+function httpError(status: number): AxiosError {
+  const response = { status } as AxiosResponse;
+  return new AxiosError(`Status ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, response);
+}
+
+// Retries without waiting, recording each event
+function quickPolicy(events: RetryEvent[], policy: RetryPolicy = {}): RetryPolicy {
+  return { initialDelay: 1, jitter: false, onRetry: (e) => events.push(e), ...policy };
+}
+
+describe('withRetry', () => {
+  const get = { url: 'http://kas/kas_public_key', method: 'GET' };
+  const post = { url: 'http://kas/v2/upsert', method: 'POST' };
+
+  it('retries transient failures with exponential backoff', async () => {
+    const events: RetryEvent[] = [];
+    const send = box.stub();
+    send.onFirstCall().rejects(httpError(502));
+    send.onSecondCall().rejects(new AxiosError('socket hang up', 'ECONNRESET'));
+    send.resolves('ok');
+    expect(await withRetry(send, get, quickPolicy(events, { maxAttempts: 3 }))).to.equal('ok');
+    expect(events.map(({ attempt, delay, status }) => ({ attempt, delay, status }))).to.eql([
+      { attempt: 1, delay: 1, status: 502 },
+      { attempt: 2, delay: 2, status: undefined },
+    ]);
+  });
+
+  it('gives up after the maximum attempts', async () => {
+    const events: RetryEvent[] = [];
+    const send = box.stub().rejects(httpError(504));
+    try {
+      await withRetry(send, get, quickPolicy(events, { maxAttempts: 2 }));
+      expect.fail('did not throw');
+    } catch (e) {
+      expect((e as AxiosError).response?.status).to.equal(504);
+    }
+    expect(send.callCount).to.equal(2);
+    expect(events).to.have.lengthOf(1);
+  });
+
+  it('does not retry other failures', async () => {
+    const events: RetryEvent[] = [];
+    for (const error of [httpError(403), new Error('bad key')]) {
+      const send = box.stub().rejects(error);
+      try {
+        await withRetry(send, get, quickPolicy(events));
+        expect.fail('did not throw');
+      } catch (e) {
+        expect(e).to.equal(error);
+      }
+      expect(send.callCount).to.equal(1);
+    }
+    expect(events).to.be.empty;
+  });
+
+  it('repeats non-idempotent requests only when the server ignored them', async () => {
+    const events: RetryEvent[] = [];
+    const gateway = box.stub().rejects(httpError(502));
+    await withRetry(gateway, post, quickPolicy(events)).catch(() => undefined);
+    expect(gateway.callCount).to.equal(1);
+    const unavailable = box.stub().rejects(httpError(503));
+    await withRetry(unavailable, post, quickPolicy(events)).catch(() => undefined);
+    expect(unavailable.callCount).to.equal(3);
+    const retried = box.stub().rejects(httpError(502));
+    await withRetry(retried, post, quickPolicy(events, { retryNonIdempotent: true })).catch(
+      () => undefined
+    );
+    expect(retried.callCount).to.equal(3);
+  });
+
+  it('retries fetch responses by status', async () => {
+    const send = box.stub<[], Promise<Response>>();
+    send.onFirstCall().resolves(new Response('', { status: 429 }));
+    send.resolves(new Response('{}', { status: 200 }));
+    const response = await withRetry(send, get, quickPolicy([]), ({ status }) => status);
+    expect(response.status).to.equal(200);
+    expect(send.callCount).to.equal(2);
+  });
+
+  it('stops waiting when aborted', async () => {
+    const controller = new AbortController();
+    const send = box.stub().rejects(httpError(503));
+    const retrying = withRetry(
+      send,
+      { ...get, signal: controller.signal },
+      { initialDelay: 10_000, jitter: false }
+    );
+    controller.abort();
+    try {
+      await retrying;
+      expect.fail('did not throw');
+    } catch (e) {
+      expect((e as Error).name).to.equal('AbortError');
+    }
+    expect(send.callCount).to.equal(1);
+  });
+});
+
+describe('KAS retries', () => {
+  async function encrypt(offline: boolean): Promise<Buffer> {
+    const builder = new EncryptParamsBuilder().withStringSource('hello');
+    if (offline) {
+      builder.setOffline();
+    }
+    const stream = await createClient().encrypt(builder.build());
+    return stream.toBuffer();
+  }
+
+  it('retries a rewrap that failed with a 502', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt(true);
+    const post = (axios.post as SinonStub).onFirstCall().rejects(httpError(502));
+    const events: RetryEvent[] = [];
+    const stream = await createClient({ retryPolicy: quickPolicy(events) }).decrypt({
+      source: { type: 'buffer', location: ciphertext },
+    });
+    expect(await stream.toString()).to.equal('hello');
+    expect(post.callCount).to.equal(2);
+    expect(events).to.have.lengthOf(1);
+    expect(events[0]).to.include({ method: 'POST', attempt: 1, status: 502 });
+  });
+
+  it('does not repeat an upsert that may have been stored', async () => {
+    stubKas(box);
+    const post = (axios.post as SinonStub).onFirstCall().rejects(httpError(502));
+    try {
+      await encrypt(false);
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(KasUpsertError);
+    }
+    expect(post.callCount).to.equal(1);
+  });
+
+  it('retries nano rewrap requests', async () => {
+    const fetch = box.stub(globalThis, 'fetch');
+    fetch.onFirstCall().resolves(new Response('', { status: 503 }));
+    fetch.resolves(new Response('{"entityWrappedKey":"","sessionPublicKey":""}'));
+    const events: RetryEvent[] = [];
+    const response = await fetchWrappedKey(
+      'http://localhost:4000/v2/rewrap',
+      { signedRequestToken: '' },
+      authProvider,
+      '0.0.1',
+      undefined,
+      quickPolicy(events)
+    );
+    expect(response.sessionPublicKey).to.equal('');
+    expect(fetch.callCount).to.equal(2);
+    expect(events[0]).to.include({ url: 'http://localhost:4000/v2/rewrap', status: 503 });
+  });
+});
@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { AesGcmCipher } from '../../../tdf3/src/ciphers/index.js';
+import { type DecryptSource, EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import {
+  ManifestIntegrityError,
+  TdfDecryptError,
+  TdfError,
+  TdfPayloadExtractionError,
+} from '../../../tdf3/src/errors.js';
+import { ZipReader } from '../../../tdf3/src/utils/zip-reader.js';
+import { createClient, stubKas } from '../../mocks/fake-kas.js';
+
+// 7 segments of 16 bytes, each 44 bytes once encrypted
+const segmentSize = 16;
+const encryptedSegmentSize = 44;
+const plaintext = new Uint8Array(100).map((_, i) => i);
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(): Promise<Buffer> {
+  const encryptParams = new EncryptParamsBuilder()
+    .withBufferSource(Buffer.from(plaintext))
+    .withStreamWindowSize(segmentSize)
+    .withOffline()
+    .build();
+  const stream = await createClient().encrypt(encryptParams);
+  return stream.toBuffer();
+}
+
+// Flip a byte in the auth tag, which is also the GMAC segment hash, of a segment
+function corrupt(ciphertext: Buffer, segmentIndex: number): Buffer {
+  const payloadStart = ciphertext.indexOf('0.payload') + '0.payload'.length + 28;
+  ciphertext[payloadStart + (segmentIndex + 1) * encryptedSegmentSize - 1] ^= 0xff;
+  return ciphertext;
+}
+
+async function decryptFailure(source: DecryptSource, batchSize?: number): Promise<TdfError> {
+  const stream = await createClient().decrypt({ source, batchSize });
+  try {
+    await stream.toBuffer();
+  } catch (e) {
+    return e as TdfError;
+  }
+  throw new Error('did not throw');
+}
+
+describe('segment errors', () => {
+  beforeEach(() => {
+    stubKas(box);
+  });
+
+  it('raises a hash mismatch with the segment index', async () => {
+    const ciphertext = corrupt(await encrypt(), 2);
+    const e = await decryptFailure({ type: 'buffer', location: ciphertext });
+    expect(e).to.be.an.instanceof(ManifestIntegrityError);
+    expect(e.segmentIndex).to.equal(2);
+    expect(e.message).to.match(/^Segment \[2\]/);
+  });
+
+  it('raises a failed fetch with the index of the first missing segment', async () => {
+    const ciphertext = await encrypt();
+    const getPayloadSegment = box.stub(ZipReader.prototype, 'getPayloadSegment');
+    getPayloadSegment.callThrough();
+    getPayloadSegment.onSecondCall().rejects(new Error('connection reset'));
+    const e = await decryptFailure({ type: 'buffer', location: ciphertext }, 3);
+    expect(e).to.be.an.instanceof(TdfPayloadExtractionError);
+    expect(e.segmentIndex).to.equal(3);
+    expect(e.message).to.contain('connection reset');
+  });
+
+  it('raises a cipher failure as a TdfDecryptError', async () => {
+    const ciphertext = await encrypt();
+    box.stub(AesGcmCipher.prototype, 'decrypt').rejects(new Error('OperationError'));
+    const e = await decryptFailure({ type: 'buffer', location: ciphertext });
+    expect(e).to.be.an.instanceof(TdfDecryptError);
+    expect(e.segmentIndex).to.equal(0);
+  });
+
+  it('raises failures from streamed archives', async () => {
+    const ciphertext = corrupt(await encrypt(), 5);
+    const e = await decryptFailure({ type: 'stream', location: new Blob([ciphertext]).stream() });
+    expect(e).to.be.an.instanceof(ManifestIntegrityError);
+    expect(e.segmentIndex).to.equal(5);
+  });
+
+  it('rejects pipeTo', async () => {
+    const ciphertext = corrupt(await encrypt(), 1);
+    const stream = await createClient().decrypt({
+      source: { type: 'buffer', location: ciphertext },
+    });
+    const chunks: Uint8Array[] = [];
+    try {
+      await stream.stream.pipeTo(new WritableStream({ write: (chunk) => void chunks.push(chunk) }));
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(ManifestIntegrityError);
+    }
+    expect(chunks).to.have.lengthOf(1);
+  });
+});
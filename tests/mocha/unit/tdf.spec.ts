@@ -33,4 +33,56 @@ describe('TDF', () => {
     expect(TDF.unwrapHtml(wrapped.buffer)).to.eql(cipherText);
     expect(TDF.unwrapHtml(wrapped.toString('utf-8'))).to.eql(cipherText);
   });
+
+  for (const chunkSize of [1, 2, 3, 5, 64]) {
+    it(`wrapHtmlStream matches wrapHtml with ${chunkSize} byte chunks`, async () => {
+      const cipherText = Buffer.from(new Uint8Array(47).map((_, i) => i * 7));
+      const transferUrl = 'https://local.virtru.com/start?htmlProtocol=1';
+      const manifest = JSON.stringify({ thisIs: 'metadata' });
+      let offset = 0;
+      const payload = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (offset >= cipherText.length) {
+            controller.close();
+            return;
+          }
+          controller.enqueue(cipherText.subarray(offset, offset + chunkSize));
+          offset += chunkSize;
+        },
+      });
+      const wrapped = await TDF.wrapHtmlStream(payload, manifest, transferUrl).toBuffer();
+      expect(wrapped.toString()).to.equal(
+        TDF.wrapHtml(cipherText, manifest, transferUrl).toString()
+      );
+      expect(TDF.unwrapHtml(wrapped)).to.eql(cipherText);
+    });
+  }
+
+  for (const chunkSize of [1, 3, 64, 10000]) {
+    it(`unwrapHtmlStream reads ${chunkSize} byte chunks`, async () => {
+      const cipherText = Buffer.from(new Uint8Array(47).map((_, i) => i * 7));
+      const manifest = JSON.stringify({ thisIs: 'metadata' });
+      const wrapped = TDF.wrapHtml(
+        cipherText,
+        manifest,
+        'https://local.virtru.com/start?htmlProtocol=1'
+      );
+      let offset = 0;
+      const html = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (offset >= wrapped.length) {
+            controller.close();
+            return;
+          }
+          controller.enqueue(wrapped.subarray(offset, offset + chunkSize));
+          offset += chunkSize;
+        },
+      });
+      const unwrapped = TDF.unwrapHtmlStream(html);
+      expect(await new Response(unwrapped.payload).arrayBuffer()).to.eql(
+        new Uint8Array(cipherText).buffer
+      );
+      expect(await unwrapped.manifest).to.equal(manifest);
+    });
+  }
 });
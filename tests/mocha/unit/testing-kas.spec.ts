@@ -0,0 +1,212 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { KasDecryptError } from '../../../tdf3/src/errors.js';
+import { ZipReader, fromBuffer } from '../../../tdf3/src/utils/index.js';
+import { kasKeyCache, NanoTDFClient, NanoTDFDatasetClient } from '../../../src/index.js';
+import { NanoTDF } from '../../../src/nanotdf/index.js';
+import { anonymousAuthProvider, TestKas, type TestKasOptions } from '../../../src/testing/index.js';
+import { createClient } from '../../mocks/fake-kas.js';
+
+const attribute = 'https://example.com/attr/Classification/value/S';
+const plaintext = 'handled entirely in-process';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function expectDenied(promise: Promise<unknown>, pattern: RegExp) {
+  try {
+    await promise;
+    expect.fail('did not throw');
+  } catch (e) {
+    expect((e as Error).message).to.match(pattern);
+  }
+}
+
+describe('TestKas', () => {
+  // Any request that escapes to the network fails the test
+  beforeEach(() => {
+    box.stub(globalThis, 'fetch').rejects(new TypeError('no network in unit tests'));
+  });
+
+  describe('TDF3', () => {
+    async function encrypt(kas: TestKas, builder: EncryptParamsBuilder): Promise<Buffer> {
+      const client = createClient({
+        kasEndpoint: kas.url,
+        kasPublicKey: undefined,
+        fetch: kas.fetch,
+      });
+      return (await client.encrypt(builder.withStringSource(plaintext).build())).toBuffer();
+    }
+
+    async function decrypt(kas: TestKas, ciphertext: Buffer): Promise<string> {
+      const client = createClient({
+        kasEndpoint: kas.url,
+        kasPublicKey: undefined,
+        fetch: kas.fetch,
+      });
+      const stream = await client.decrypt({ source: { type: 'buffer', location: ciphertext } });
+      return stream.toString();
+    }
+
+    it('round trips wrapped and remote keys', async () => {
+      const kas = await TestKas.create();
+      for (const builder of [
+        new EncryptParamsBuilder().withOffline(),
+        new EncryptParamsBuilder(),
+      ]) {
+        expect(await decrypt(kas, await encrypt(kas, builder))).to.equal(plaintext);
+      }
+    });
+
+    it('releases keys by attribute and dissem entitlements', async () => {
+      const options: TestKasOptions = { attributes: [attribute], entityId: 'alice@example.com' };
+      const kas = await TestKas.create(options);
+      const ciphertext = await encrypt(
+        kas,
+        new EncryptParamsBuilder()
+          .withOffline()
+          .withAttributes([{ attribute }])
+          .withUsersWithAccess(['alice@example.com'])
+      );
+      expect(await decrypt(kas, ciphertext)).to.equal(plaintext);
+      options.entityId = 'bob@example.com';
+      await expectDenied(decrypt(kas, ciphertext), /403/);
+      options.entityId = 'alice@example.com';
+      options.attributes = [];
+      await expectDenied(decrypt(kas, ciphertext), /403/);
+    });
+
+    it('rejects keys bound to a different policy', async () => {
+      const kas = await TestKas.create();
+      const ciphertext = await encrypt(kas, new EncryptParamsBuilder().withOffline());
+      const zipReader = new ZipReader(fromBuffer(ciphertext));
+      const manifest = await zipReader.getManifest(
+        await zipReader.getCentralDirectory(),
+        '0.manifest.json'
+      );
+      const [keyAccess] = manifest.encryptionInformation.keyAccess;
+      const response = await kas.fetch(`${kas.url}/v2/upsert`, {
+        method: 'POST',
+        body: JSON.stringify({ keyAccess, policy: btoa('{"uuid":"other"}') }),
+      });
+      expect(response.status).to.equal(400);
+      expect(await response.json()).to.eql({ message: 'Policy binding mismatch' });
+    });
+
+    it('answers with an unknown kid after rotating its keys', async () => {
+      const kas = await TestKas.create();
+      await encrypt(kas, new EncryptParamsBuilder().withOffline());
+      await kas.rotate();
+      // The client still holds the first key, so it wraps the key again after the failed upsert
+      const ciphertext = await encrypt(kas, new EncryptParamsBuilder());
+      expect(await decrypt(kas, ciphertext)).to.equal(plaintext);
+      expect(kas.kid).to.equal('r2');
+    });
+
+    it('compresses the whole source when wrapping again after a rotation', async () => {
+      const kas = await TestKas.create();
+      await encrypt(kas, new EncryptParamsBuilder().withOffline());
+      await kas.rotate();
+      const ciphertext = await encrypt(kas, new EncryptParamsBuilder().withCompression('deflate'));
+      expect(await decrypt(kas, ciphertext)).to.equal(plaintext);
+    });
+
+    it('fails decrypts that it denies', async () => {
+      const kas = await TestKas.create({ decide: ({ format }) => format !== 'tdf3' });
+      const ciphertext = await encrypt(kas, new EncryptParamsBuilder().withOffline());
+      try {
+        await decrypt(kas, ciphertext);
+        expect.fail('did not throw');
+      } catch (e) {
+        expect(e).to.be.an.instanceof(KasDecryptError);
+      }
+    });
+  });
+
+  describe('nanoTDF', () => {
+    function nanoClient(kas: TestKas): NanoTDFClient {
+      return new NanoTDFClient(
+        anonymousAuthProvider,
+        kas.url,
+        undefined,
+        false,
+        undefined,
+        kas.fetch
+      );
+    }
+
+    it('round trips', async () => {
+      const kas = await TestKas.create({ attributes: [attribute] });
+      const client = nanoClient(kas);
+      client.addAttribute(attribute);
+      const ciphertext = await client.encrypt(plaintext);
+      const decrypted = await nanoClient(kas).decrypt(ciphertext);
+      expect(new TextDecoder().decode(decrypted)).to.equal(plaintext);
+    });
+
+    it('round trips datasets', async () => {
+      const kas = await TestKas.create();
+      const client = new NanoTDFDatasetClient(
+        anonymousAuthProvider,
+        kas.url,
+        undefined,
+        undefined,
+        undefined,
+        kas.fetch
+      );
+      client.addAttribute(attribute);
+      const ciphertexts = [await client.encrypt('one'), await client.encrypt('two')];
+      const decrypted = await Promise.all(ciphertexts.map((c) => client.decrypt(c)));
+      expect(decrypted.map((d) => new TextDecoder().decode(d))).to.eql(['one', 'two']);
+    });
+
+    it('encrypts datasets with the current key once a rotated key expires', async () => {
+      const kas = await TestKas.create();
+      const datasetClient = () =>
+        new NanoTDFDatasetClient(
+          anonymousAuthProvider,
+          kas.url,
+          3,
+          undefined,
+          undefined,
+          kas.fetch
+        );
+      const client = datasetClient();
+      // The second encrypt uses up the key iterations, so the third starts a new key
+      await client.encrypt('one');
+      await client.encrypt('two');
+      await kas.rotate();
+      kasKeyCache.clear();
+      const ciphertexts = [await client.encrypt('three'), await client.encrypt('four')];
+      const decrypted = await Promise.all(ciphertexts.map((c) => datasetClient().decrypt(c)));
+      expect(decrypted.map((d) => new TextDecoder().decode(d))).to.eql(['three', 'four']);
+    });
+
+    it('denies entities without the attributes of the policy', async () => {
+      const kas = await TestKas.create({ attributes: [] });
+      const client = nanoClient(kas);
+      client.addAttribute(attribute);
+      const ciphertext = await client.encrypt(plaintext);
+      await expectDenied(nanoClient(kas).decrypt(ciphertext), /^403/);
+    });
+
+    it('rejects headers with a tampered policy binding', async () => {
+      const kas = await TestKas.create();
+      const client = nanoClient(kas);
+      client.addAttribute(attribute);
+      const ciphertext = new Uint8Array(await client.encrypt(plaintext));
+      const { header } = NanoTDF.from(ciphertext);
+      // The binding directly precedes the ephemeral public key
+      const bindingEnd = header.length - header.ephemeralPublicKey.length;
+      ciphertext[bindingEnd - 1] ^= 1;
+      await expectDenied(nanoClient(kas).decrypt(ciphertext), /^400/);
+    });
+  });
+});
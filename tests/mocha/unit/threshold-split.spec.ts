@@ -0,0 +1,129 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import {
+  IllegalArgumentError,
+  KasDecryptError,
+  TdfCorruptError,
+} from '../../../tdf3/src/errors.js';
+import { TDF } from '../../../tdf3/src/tdf.js';
+import { ZipReader, fromBuffer } from '../../../tdf3/src/utils/index.js';
+import { authProvider, createClient, stubKas } from '../../mocks/fake-kas.js';
+import getMocks from '../../mocks/index.js';
+
+const Mocks = getMocks();
+const kasUrls = ['http://kas-a.local', 'http://kas-b.local', 'http://kas-c.local'];
+const plaintext = 'shared across three KASes';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(threshold?: number): Promise<Buffer> {
+  const tdf = TDF.create()
+    .setPrivateKey(Mocks.entityPrivateKey)
+    .setPublicKey(Mocks.entityPublicKey)
+    .setEncryption({ type: 'split', threshold })
+    .setIntegrityAlgorithm('hs256', 'gmac')
+    .setPolicy({ uuid: 'threshold', body: { dataAttributes: [], dissem: [] } })
+    .setAuthProvider(authProvider)
+    .addContentStream(new Blob([plaintext]).stream());
+  for (const url of kasUrls) {
+    await tdf.addKeyAccess({ type: 'wrapped', url, publicKey: Mocks.kasPublicKey });
+  }
+  return (await tdf.writeStream(0, false)).toBuffer();
+}
+
+async function decrypt(archive: Buffer): Promise<string> {
+  const stream = await createClient().decrypt({ source: { type: 'buffer', location: archive } });
+  return stream.toString();
+}
+
+describe('threshold key split', () => {
+  it('records the threshold and share ids', async () => {
+    const archive = await encrypt(2);
+    const zipReader = new ZipReader(fromBuffer(archive));
+    const manifest = await zipReader.getManifest(
+      await zipReader.getCentralDirectory(),
+      '0.manifest.json'
+    );
+    expect(manifest.encryptionInformation.splitScheme).to.eql({
+      type: 'shamir',
+      threshold: 2,
+      shareIds: [1, 2, 3],
+    });
+    expect(manifest.encryptionInformation.keyAccess).to.have.lengthOf(3);
+  });
+
+  it('stops after threshold rewraps', async () => {
+    const requests = stubKas(box);
+    expect(await decrypt(await encrypt(2))).to.equal(plaintext);
+    expect(requests).to.have.lengthOf(2);
+  });
+
+  it('tolerates an unavailable KAS', async () => {
+    const requests = stubKas(box, [kasUrls[0]]);
+    expect(await decrypt(await encrypt(2))).to.equal(plaintext);
+    expect(requests.map((url) => new URL(url).origin)).to.have.members(kasUrls);
+  });
+
+  it('fails when fewer than threshold KASes are available', async () => {
+    stubKas(box, kasUrls.slice(1));
+    const archive = await encrypt(2);
+    try {
+      await decrypt(archive);
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(KasDecryptError);
+    }
+  });
+
+  it('rejects thresholds that no set of key access objects can meet', async () => {
+    for (const threshold of [0, -1, 1.5]) {
+      expect(() => TDF.create().setEncryption({ type: 'split', threshold })).to.throw(
+        IllegalArgumentError,
+        `Invalid threshold [${threshold}]`
+      );
+    }
+    try {
+      await encrypt(4);
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(IllegalArgumentError);
+      expect((e as Error).message).to.equal(
+        'Threshold [4] is more than the [3] key access objects'
+      );
+    }
+  });
+
+  it('fails a threshold above the number of shares before contacting KAS', async () => {
+    const requests = stubKas(box);
+    // Keep the length, so that the zip still reads
+    const archive = Buffer.from(
+      (await encrypt(2)).toString('latin1').replace('"threshold":2', '"threshold":4'),
+      'latin1'
+    );
+    try {
+      await decrypt(archive);
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(TdfCorruptError);
+    }
+    expect(requests).to.be.empty;
+  });
+
+  it('requires every KAS without a threshold', async () => {
+    stubKas(box, [kasUrls[2]]);
+    const archive = await encrypt();
+    try {
+      await decrypt(archive);
+      expect.fail('did not throw');
+    } catch (e) {
+      expect(e).to.be.an.instanceof(KasDecryptError);
+    }
+  });
+});
@@ -0,0 +1,122 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { base64 } from '../../../src/encodings/index.js';
+import { ZipReader, fromBuffer } from '../../../tdf3/src/utils/index.js';
+import { createClient, stubKas } from '../../mocks/fake-kas.js';
+
+const plaintext = 'a large file, which nobody wants to encrypt twice';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(): Promise<Buffer> {
+  const encryptParams = new EncryptParamsBuilder()
+    .withStringSource(plaintext)
+    .withStreamWindowSize(16)
+    .withUsersWithAccess(['alice@example.com'])
+    .withOffline()
+    .build();
+  const stream = await createClient().encrypt(encryptParams);
+  return stream.toBuffer();
+}
+
+async function readArchive(archive: Buffer) {
+  const zipReader = new ZipReader(fromBuffer(archive));
+  const centralDirectory = await zipReader.getCentralDirectory();
+  await zipReader.verify(centralDirectory);
+  const manifest = await zipReader.getManifest(centralDirectory, '0.manifest.json');
+  const { uncompressedSize } = centralDirectory.find(
+    ({ fileName }) => fileName === '0.payload'
+  ) as { uncompressedSize: number };
+  const payload = await zipReader.getPayloadSegment(
+    centralDirectory,
+    '0.payload',
+    0,
+    uncompressedSize
+  );
+  return { centralDirectory, manifest, payload };
+}
+
+describe('updatePolicy', () => {
+  it('rewraps the key for the new policy and keeps the payload', async () => {
+    stubKas(box);
+    const original = await encrypt();
+    const updated = await (
+      await createClient().updatePolicy({
+        source: { type: 'buffer', location: original },
+        scope: { dissem: ['bob@example.com'], policyId: 'new-policy' },
+        offline: true,
+      })
+    ).toBuffer();
+
+    const before = await readArchive(original);
+    const after = await readArchive(updated);
+    expect(after.payload.equals(before.payload)).to.be.true;
+    expect(after.manifest.encryptionInformation.integrityInformation).to.eql(
+      before.manifest.encryptionInformation.integrityInformation
+    );
+    const policy = JSON.parse(base64.decode(after.manifest.encryptionInformation.policy));
+    expect(policy.uuid).to.equal('new-policy');
+    expect(policy.body.dissem).to.eql(['bob@example.com']);
+    const [keyAccess] = after.manifest.encryptionInformation.keyAccess;
+    const [oldKeyAccess] = before.manifest.encryptionInformation.keyAccess;
+    expect(keyAccess.policyBinding).to.not.equal(oldKeyAccess.policyBinding);
+    expect(keyAccess.wrappedKey).to.not.equal(oldKeyAccess.wrappedKey);
+
+    const stream = await createClient().decrypt({ source: { type: 'buffer', location: updated } });
+    expect(await stream.toString()).to.equal(plaintext);
+    expect(stream.manifest?.encryptionInformation.policy).to.equal(
+      after.manifest.encryptionInformation.policy
+    );
+  });
+
+  it('upserts the new policy', async () => {
+    const requests = stubKas(box);
+    const original = await encrypt();
+    const stream = await createClient().updatePolicy({
+      source: { type: 'buffer', location: original },
+      scope: { dissem: ['bob@example.com'] },
+    });
+    await stream.toBuffer();
+    expect(requests.map((url) => url.split('/').pop())).to.eql(['rewrap', 'upsert']);
+  });
+
+  it('updates every payload of a multi-payload archive', async () => {
+    stubKas(box);
+    const original = await (
+      await createClient().encryptMany({
+        sources: ['first', 'second'].map((text) => ({ source: new Blob([text]).stream() })),
+        offline: true,
+      })
+    ).toBuffer();
+    const updated = await (
+      await createClient().updatePolicy({
+        source: { type: 'buffer', location: original },
+        scope: { dissem: ['bob@example.com'] },
+        offline: true,
+      })
+    ).toBuffer();
+
+    const zipReader = new ZipReader(fromBuffer(updated));
+    const centralDirectory = await zipReader.getCentralDirectory();
+    const [first, second] = await Promise.all(
+      ['0.manifest.json', '1.manifest.json'].map((name) =>
+        zipReader.getManifest(centralDirectory, name)
+      )
+    );
+    expect(second.encryptionInformation.keyAccess).to.eql(first.encryptionInformation.keyAccess);
+    expect(second.encryptionInformation.policy).to.equal(first.encryptionInformation.policy);
+    const stream = await createClient().decrypt({
+      source: { type: 'buffer', location: updated },
+      entry: 1,
+    });
+    expect(await stream.toString()).to.equal('second');
+  });
+});
@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { TdfCorruptError } from '../../../tdf3/src/errors.js';
+import { TDF } from '../../../tdf3/src/tdf.js';
+import { crc32 } from '../../../tdf3/src/utils/crc32.js';
+import { fromBuffer } from '../../../tdf3/src/utils/chunkers.js';
+import { ZipReader } from '../../../tdf3/src/utils/zip-reader.js';
+import { createClient, stubKas } from '../../mocks/fake-kas.js';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(): Promise<Buffer> {
+  stubKas(box);
+  const encryptParams = new EncryptParamsBuilder()
+    .withBufferSource(Buffer.from(new Uint8Array(100).map((_, i) => i)))
+    .withStreamWindowSize(16)
+    .withOffline()
+    .build();
+  const stream = await createClient().encrypt(encryptParams);
+  return stream.toBuffer();
+}
+
+async function expectCorrupt(ciphertext: Uint8Array, reason: RegExp) {
+  try {
+    await TDF.verifyContainer(fromBuffer(ciphertext));
+    expect.fail('did not throw');
+  } catch (e) {
+    expect(e).to.be.an.instanceof(TdfCorruptError);
+    expect((e as TdfCorruptError).reason).to.match(reason);
+  }
+}
+
+describe('verifyContainer', () => {
+  it('accepts a new TDF', async () => {
+    const ciphertext = await encrypt();
+    await TDF.verifyContainer(fromBuffer(ciphertext));
+  });
+
+  it('writes real CRC-32s', async () => {
+    const ciphertext = await encrypt();
+    const zipReader = new ZipReader(fromBuffer(ciphertext));
+    const centralDirectory = await zipReader.getCentralDirectory();
+    expect(centralDirectory.map(({ fileName }) => fileName)).to.eql([
+      '0.payload',
+      '0.manifest.json',
+    ]);
+    for (const {
+      relativeOffsetOfLocalHeader,
+      headerLength,
+      compressedSize,
+      crc32: actual,
+    } of centralDirectory) {
+      const start = relativeOffsetOfLocalHeader + headerLength;
+      expect(actual).to.equal(crc32(ciphertext.subarray(start, start + compressedSize)));
+      expect(actual).to.not.equal(0);
+    }
+  });
+
+  it('detects a modified payload', async () => {
+    const ciphertext = await encrypt();
+    const payloadStart = ciphertext.indexOf('0.payload') + '0.payload'.length + 28;
+    ciphertext[payloadStart + 5] ^= 0xff;
+    await expectCorrupt(ciphertext, /CRC-32 mismatch for \[0.payload\]/);
+  });
+
+  it('detects a modified data descriptor', async () => {
+    const ciphertext = await encrypt();
+    const manifestHeader = ciphertext.indexOf('0.manifest.json') - 30;
+    // The zip64 data descriptor for the payload immediately precedes the manifest header
+    ciphertext[manifestHeader - 16] ^= 0x01;
+    await expectCorrupt(ciphertext, /Data descriptor for \[0.payload\]/);
+  });
+
+  it('detects a modified ZIP64 end of central directory record', async () => {
+    const ciphertext = await encrypt();
+    const zip64Record = ciphertext.lastIndexOf(Buffer.from([0x50, 0x4b, 0x06, 0x06]));
+    // total number of entries in the central directory
+    ciphertext[zip64Record + 32] = 3;
+    await expectCorrupt(ciphertext, /lists \[3\] entries/);
+  });
+
+  it('detects a truncated archive', async () => {
+    const ciphertext = await encrypt();
+    await expectCorrupt(ciphertext.subarray(100), /./);
+  });
+});
@@ -0,0 +1,154 @@
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+
+import { EncryptParamsBuilder } from '../../../tdf3/src/client/builders.js';
+import { crc32 } from '../../../tdf3/src/utils/crc32.js';
+import { fromBuffer } from '../../../tdf3/src/utils/chunkers.js';
+import { ZipReader } from '../../../tdf3/src/utils/zip-reader.js';
+import { createClient, stubKas } from '../../mocks/fake-kas.js';
+
+const readerUrl = 'https://local.virtru.com/start?htmlProtocol=1';
+
+let box: SinonSandbox;
+beforeEach(() => {
+  box = createSandbox();
+});
+afterEach(() => {
+  box.restore();
+});
+
+async function encrypt(asHtml = false): Promise<Buffer> {
+  const builder = new EncryptParamsBuilder()
+    .withBufferSource(Buffer.from(new Uint8Array(100).map((_, i) => i)))
+    .withStreamWindowSize(16)
+    .withOffline();
+  if (asHtml) {
+    builder.withHtmlFormat();
+  }
+  const stream = await createClient({ readerUrl }).encrypt(builder.build());
+  return stream.toBuffer();
+}
+
+// Changes an entry in place, keeping its CRC-32 valid so that the zip structure stays intact
+async function tamper(archive: Buffer, fileName: string, change: (data: Buffer) => void) {
+  const centralDirectory = await new ZipReader(fromBuffer(archive)).getCentralDirectory();
+  const cdObj = centralDirectory.find((cd) => cd.fileName === fileName);
+  if (!cdObj) {
+    throw new Error(`No [${fileName}]`);
+  }
+  const start = cdObj.relativeOffsetOfLocalHeader + cdObj.headerLength;
+  const data = archive.subarray(start, start + cdObj.compressedSize);
+  change(data);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32LE(cdObj.crc32);
+  const newCrc = Buffer.alloc(4);
+  newCrc.writeUInt32LE(crc32(data));
+  // In the data descriptor and the central directory
+  for (let i = archive.indexOf(crc); i >= 0; i = archive.indexOf(crc, i + 4)) {
+    newCrc.copy(archive, i);
+  }
+}
+
+function replaceText(data: Buffer, from: string, to: string) {
+  const index = data.indexOf(from);
+  expect(index).to.be.at.least(0);
+  data.write(to, index);
+}
+
+async function verify(ciphertext: Buffer) {
+  return createClient().verify({ source: { type: 'buffer', location: ciphertext } });
+}
+
+describe('verify', () => {
+  for (const asHtml of [false, true]) {
+    it(`accepts an intact ${asHtml ? 'html' : 'zip'} TDF without asking KAS`, async () => {
+      const requests = stubKas(box);
+      const report = await verify(await encrypt(asHtml));
+      expect(requests).to.be.empty;
+      expect(report).to.eql({
+        valid: true,
+        container: asHtml ? 'html' : 'zip',
+        issues: [],
+        entries: [
+          {
+            index: 0,
+            payloadName: '0.payload',
+            segmentCount: 7,
+            segmentHashesChecked: true,
+            issues: [],
+          },
+        ],
+      });
+    });
+  }
+
+  it('reports an html manifest that does not match the archive', async () => {
+    stubKas(box);
+    const html = (await encrypt(true)).toString();
+    const manifestRe = /(id="data-manifest" type="hidden" value=")([^"]*)"/;
+    const [, , encoded] = manifestRe.exec(html) as RegExpExecArray;
+    const manifest = JSON.parse(atob(encoded));
+    manifest.payload.mimeType = 'text/html';
+    const tampered = Buffer.from(html.replace(manifestRe, `$1${btoa(JSON.stringify(manifest))}"`));
+    const report = await verify(tampered);
+    expect(report.valid).to.be.false;
+    expect(report.issues).to.eql([
+      'ManifestIntegrityError: The html manifest does not match the TDF manifest',
+    ]);
+    expect(report.entries[0].issues).to.be.empty;
+  });
+
+  it('reports segments whose auth tag differs from their hash', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    await tamper(ciphertext, '0.payload', (payload) => {
+      // The last byte of the tags of the first and last segments
+      payload[43] ^= 1;
+      payload[payload.length - 1] ^= 1;
+    });
+    const report = await verify(ciphertext);
+    expect(report.valid).to.be.false;
+    expect(report.issues).to.be.empty;
+    expect(report.entries[0].issues).to.eql([
+      '[0.payload] segment [0] hash does not match its auth tag',
+      '[0.payload] segment [6] hash does not match its auth tag',
+    ]);
+  });
+
+  it('reports segments that do not cover the payload', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    await tamper(ciphertext, '0.manifest.json', (manifest) =>
+      replaceText(manifest, '"encryptedSegmentSizeDefault":44', '"encryptedSegmentSizeDefault":45')
+    );
+    const report = await verify(ciphertext);
+    expect(report.valid).to.be.false;
+    expect(report.entries[0]).to.include({ segmentCount: 7, segmentHashesChecked: false });
+    expect(report.entries[0].issues).to.eql([
+      '[0.payload] has [296] bytes, but its [7] segments have [302]',
+    ]);
+  });
+
+  it('reports manifests that do not match the schema', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    await tamper(ciphertext, '0.manifest.json', (manifest) =>
+      replaceText(manifest, '"isEncrypted":true', '"isEncrypted":1234')
+    );
+    const report = await verify(ciphertext);
+    expect(report.valid).to.be.false;
+    expect(report.entries[0].issues).to.eql(['[manifest.payload.isEncrypted] should be boolean']);
+  });
+
+  it('reports a broken zip structure', async () => {
+    stubKas(box);
+    const ciphertext = await encrypt();
+    const payloadStart = ciphertext.indexOf('0.payload') + '0.payload'.length + 28;
+    ciphertext[payloadStart + 5] ^= 0xff;
+    const report = await verify(ciphertext);
+    expect(report.valid).to.be.false;
+    expect(report.entries).to.be.empty;
+    expect(report.issues).to.have.lengthOf(1);
+    expect(report.issues[0]).to.match(/CRC-32 mismatch for \[0.payload\]/);
+  });
+});
@@ -1,6 +1,9 @@
 import { expect } from 'chai';
 
-import { parseCDBuffer, readUInt64LE } from '../../../tdf3/src/utils/zip-reader.js';
+import { crc32 } from '../../../tdf3/src/utils/crc32.js';
+import { fromBuffer } from '../../../tdf3/src/utils/chunkers.js';
+import { ZipReader, parseCDBuffer, readUInt64LE } from '../../../tdf3/src/utils/zip-reader.js';
+import { ZipStreamReader } from '../../../tdf3/src/utils/zip-stream-reader.js';
 import { ZipWriter, dateToDosDateTime, writeUInt64LE } from '../../../tdf3/src/utils/zip-writer.js';
 
 describe('zip utilities', () => {
@@ -24,6 +27,20 @@ describe('zip utilities', () => {
     });
   });
 
+  describe('crc32', () => {
+    it('check value', () => {
+      expect(crc32(Buffer.from('123456789'))).to.equal(0xcbf43926);
+    });
+    it('empty', () => {
+      expect(crc32(new Uint8Array(0))).to.equal(0);
+    });
+    it('incremental', () => {
+      const data = Buffer.from('The quick brown fox jumps over the lazy dog');
+      expect(crc32(data.subarray(10), crc32(data.subarray(0, 10)))).to.equal(crc32(data));
+      expect(crc32(data)).to.equal(0x414fa339);
+    });
+  });
+
   describe('writeUInt64LE', () => {
     it('not too different', () => {
       const b0 = Buffer.alloc(8);
@@ -166,4 +183,168 @@ describe('zip utilities', () => {
       );
     });
   });
+
+  describe('ZipStreamReader', () => {
+    function entry(zipWriter: ZipWriter, name: string, content: Buffer): Buffer {
+      return Buffer.concat([
+        zipWriter.getLocalFileHeader(name, 0, 0, 0),
+        content,
+        zipWriter.writeDataDescriptor(0, content.length),
+      ]);
+    }
+
+    for (const zip64 of [false, true]) {
+      it(`reads entries front to back${zip64 ? ' (zip64)' : ''}`, async () => {
+        const zipWriter = new ZipWriter();
+        zipWriter.zip64 = zip64;
+        // Content that looks like the start of a data descriptor, and like a complete one
+        const tricky = Buffer.concat([
+          Buffer.from('PK\x07\x08', 'binary'),
+          Buffer.alloc(3),
+          zipWriter.writeDataDescriptor(0, 3),
+          Buffer.from('PK\x03\x04', 'binary'),
+        ]);
+        const archive = Buffer.concat([
+          entry(zipWriter, 'a.bin', tricky),
+          entry(zipWriter, 'b.txt', Buffer.from('hello')),
+          Buffer.from('PK\x01\x02', 'binary'),
+        ]);
+        let offset = 0;
+        const reader = new ZipStreamReader(
+          new ReadableStream({
+            pull(controller) {
+              if (offset >= archive.length) {
+                controller.close();
+                return;
+              }
+              controller.enqueue(archive.subarray(offset, offset + 5));
+              offset += 5;
+            },
+          })
+        );
+
+        const contents: Record<string, Buffer> = {};
+        for (let header = await reader.nextEntry(); header; header = await reader.nextEntry()) {
+          const chunks: Buffer[] = [];
+          const size = await reader.readEntry(header, (chunk) => {
+            chunks.push(Buffer.from(chunk));
+          });
+          contents[header.fileName] = Buffer.concat(chunks);
+          expect(size).to.equal(contents[header.fileName].length);
+          expect(header.isZip64).to.equal(zip64);
+        }
+        expect(contents).to.eql({ 'a.bin': tricky, 'b.txt': Buffer.from('hello') });
+      });
+    }
+
+    it('fails when an entry is truncated', async () => {
+      const zipWriter = new ZipWriter();
+      const archive = entry(zipWriter, 'a.bin', Buffer.from('hello')).subarray(0, -1);
+      const reader = new ZipStreamReader(new Response(archive).body as ReadableStream<Uint8Array>);
+      const header = await reader.nextEntry();
+      expect(header?.fileName).to.equal('a.bin');
+      try {
+        await reader.readEntry(header!, () => undefined);
+        expect.fail('did not throw');
+      } catch (e) {
+        expect((e as Error).message).to.match(/Unable to find the end/);
+      }
+    });
+  });
+
+  describe('ZipReader', () => {
+    // Builds an archive whose local headers may differ from its central directory records
+    function archive(
+      entries: Record<string, Buffer>,
+      { localZip64 = true, zip64 = true, comment = Buffer.alloc(0) } = {}
+    ): Buffer {
+      const localWriter = new ZipWriter();
+      localWriter.zip64 = localZip64;
+      const zipWriter = new ZipWriter();
+      zipWriter.zip64 = zip64;
+      const parts: Buffer[] = [];
+      const records: Buffer[] = [];
+      let offset = 0;
+      for (const [name, content] of Object.entries(entries)) {
+        const crc = crc32(content);
+        records.push(zipWriter.writeCentralDirectoryRecord(content.length, name, offset, crc, 0));
+        const entry = Buffer.concat([
+          localWriter.getLocalFileHeader(name, crc, content.length, content.length),
+          content,
+          localWriter.writeDataDescriptor(crc, content.length),
+        ]);
+        parts.push(entry);
+        offset += entry.length;
+      }
+      const centralDirectory = Buffer.concat(records);
+      const eocd = zipWriter.writeEndOfCentralDirectoryRecord(
+        records.length,
+        centralDirectory.length,
+        offset
+      );
+      eocd.writeUInt16LE(comment.length, eocd.length - 2);
+      return Buffer.concat([...parts, centralDirectory, eocd, comment]);
+    }
+
+    async function readAll(zip: Buffer): Promise<Record<string, string>> {
+      const zipReader = new ZipReader(fromBuffer(zip));
+      const centralDirectory = await zipReader.getCentralDirectory();
+      const contents: Record<string, string> = {};
+      for (const { fileName, uncompressedSize } of centralDirectory) {
+        const content = await zipReader.getPayloadSegment(
+          centralDirectory,
+          fileName,
+          0,
+          uncompressedSize
+        );
+        contents[fileName] = content.toString();
+      }
+      await zipReader.verify(centralDirectory);
+      return contents;
+    }
+
+    for (const zip64 of [false, true]) {
+      it(`reads many entries${zip64 ? ' (zip64)' : ''}`, async () => {
+        const entries: Record<string, Buffer> = {};
+        for (let i = 0; i < 300; i++) {
+          entries[`${i}.payload`] = Buffer.from(`content ${i}`);
+        }
+        const contents = await readAll(archive(entries, { zip64, localZip64: zip64 }));
+        expect(Object.keys(contents)).to.have.length(300);
+        expect(contents['299.payload']).to.equal('content 299');
+      });
+
+      it(`reads past a long comment${zip64 ? ' (zip64)' : ''}`, async () => {
+        // The comment contains something that looks like an end of central directory record
+        const comment = Buffer.concat([
+          Buffer.alloc(5000, 0x20),
+          new ZipWriter().writeEndOfCentralDirectoryRecord(0, 0, 0),
+          Buffer.alloc(100, 0x20),
+        ]);
+        const zip = archive({ a: Buffer.from('x') }, { zip64, localZip64: zip64, comment });
+        const zipReader = new ZipReader(fromBuffer(zip));
+        const eocd = await zipReader.getEndOfCentralDirectory();
+        expect(eocd.entryCount).to.equal(1);
+        expect(await readAll(zip)).to.eql({ a: 'x' });
+      });
+    }
+
+    it('uses the local header length for entries with real sizes', async () => {
+      const zip = archive(
+        { '0.payload': Buffer.from('payload'), '0.manifest.json': Buffer.from('{}') },
+        { localZip64: false }
+      );
+      expect(await readAll(zip)).to.eql({ '0.payload': 'payload', '0.manifest.json': '{}' });
+    });
+
+    it('fails without an end of central directory record', async () => {
+      const zip = archive({ a: Buffer.from('x') }).subarray(0, -1);
+      try {
+        await new ZipReader(fromBuffer(zip)).getCentralDirectory();
+        expect.fail('did not throw');
+      } catch (e) {
+        expect((e as Error).message).to.match(/Unable to find the end of central directory/);
+      }
+    });
+  });
 });
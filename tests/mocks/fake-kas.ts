@@ -0,0 +1,73 @@
+import axios from 'axios';
+import { decodeJwt } from 'jose';
+import { type SinonSandbox } from 'sinon';
+
+import { Binary } from '../../tdf3/src/binary.js';
+import { Client, type ClientConfig } from '../../tdf3/src/client/index.js';
+import { type AuthProvider, type HttpRequest } from '../../src/auth/auth.js';
+import { base64 } from '../../src/encodings/index.js';
+import * as cryptoService from '../../tdf3/src/crypto/index.js';
+import getMocks from './index.js';
+
+const Mocks = getMocks();
+
+export const kasUrl = 'http://localhost:4000';
+
+export const authProvider: AuthProvider = {
+  async updateClientPublicKey(): Promise<void> {
+    // nothing to bind
+  },
+  async withCreds(httpReq: HttpRequest): Promise<HttpRequest> {
+    return httpReq;
+  },
+};
+
+/**
+ * Replaces `axios.post` with a minimal KAS that answers `upsert` and `rewrap`
+ * requests using the mock KAS private key.
+ * @param unavailable KAS urls whose requests fail, as if the server were down
+ * @returns the list of request urls, in the order they were made
+ */
+export function stubKas(sandbox: SinonSandbox, unavailable: string[] = []): string[] {
+  const requests: string[] = [];
+  sandbox.stub(axios, 'post').callsFake(async (url: string, body: unknown) => {
+    requests.push(url);
+    if (unavailable.some((kas) => url.startsWith(kas))) {
+      throw new Error(`connect ECONNREFUSED ${url}`);
+    }
+    if (url.endsWith('/upsert')) {
+      return { data: [] };
+    }
+    const { signedRequestToken } = body as { signedRequestToken: string };
+    const { requestBody } = decodeJwt(signedRequestToken) as { requestBody: string };
+    const { keyAccess, clientPublicKey } = JSON.parse(requestBody);
+    const unwrappedKey = await cryptoService.decryptWithPrivateKey(
+      Binary.fromString(base64.decode(keyAccess.wrappedKey)),
+      Mocks.kasPrivateKey
+    );
+    const entityWrappedKey = await cryptoService.encryptWithPublicKey(
+      unwrappedKey,
+      clientPublicKey
+    );
+    return {
+      data: {
+        entityWrappedKey: base64.encode(entityWrappedKey.asString()),
+        metadata: { hello: 'world' },
+      },
+    };
+  });
+  return requests;
+}
+
+/**
+ * A TDF3 client configured to talk to the stubbed KAS.
+ */
+export function createClient(config: ClientConfig = {}): Client {
+  return new Client({
+    kasEndpoint: kasUrl,
+    kasPublicKey: Mocks.kasPublicKey,
+    keypair: { publicKey: Mocks.entityPublicKey, privateKey: Mocks.entityPrivateKey },
+    authProvider,
+    ...config,
+  });
+}